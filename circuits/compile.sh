@@ -51,6 +51,10 @@ if command -v circom &> /dev/null; then
     cp facehash_final.zkey ../public/circuit_final.zkey
     cp verification_key.json ../public/verification_key.json
 
+    # Pin the new artifacts so clients and /api/health can detect stale files
+    echo "🔐 Step 8: Generating artifact manifest..."
+    (cd .. && node scripts/generate-artifact-manifest.js)
+
 else
     echo "⚠️  Circom not installed, using pre-built verification key..."
     mkdir -p build
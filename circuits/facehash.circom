@@ -1,52 +1,66 @@
 pragma circom 2.0.0;
 
 include "circomlib/circuits/poseidon.circom";
-include "circomlib/circuits/comparators.circom";
+include "circomlib/circuits/bitify.circom";
 
 /*
- * PoEP (Proof-of-Existence Passport) ZK Circuit
+ * PoEP (Proof-of-Existence Passport) ZK Circuit - revision 3
  *
  * This circuit proves that a user:
- * 1. Has generated a unique face hash from biometric data
- * 2. Has provided a valid transaction nonce
- * 3. Has provided a timestamp for temporal uniqueness
- * 4. Creates a unique nullifier to prevent double-minting
+ * 1. Knows a stable face secret produced by the fuzzy extractor
+ *    (src/lib/fuzzyExtractor.ts) from their face embedding
+ * 2. Derives the nullifier deterministically from that secret, so the same
+ *    person always lands on the same nullifier and cannot mint twice
+ * 3. Generated the proof for one recipient wallet on one chain, so a proof
+ *    copied from the mempool cannot mint to another address
+ *
+ * Revision 1 hashed a random nonce and timestamp into the nullifier, which
+ * produced a fresh nullifier on every mint and defeated the anti-sybil check.
+ * Revision 2 exposed only the nullifier, which let anyone replay a pending proof.
  *
  * Inputs:
- * - faceHash: Poseidon hash of face biometric features (private)
- * - nonce: Random nonce for uniqueness (private)
- * - timestamp: Timestamp for temporal uniqueness (private)
+ * - faceSecret: SECRET_BITS-bit secret decoded from the face embedding (private)
+ * - recipient: Address the passport is minted to, as uint160 (public)
+ * - chainId: EIP-155 chain id of the PoEP deployment (public)
  *
  * Outputs:
- * - nullifier: Unique identifier preventing double-minting (public)
+ * - nullifier: Poseidon(faceSecret, NULLIFIER_DOMAIN) (public)
+ *
+ * Public signal order: [nullifier, recipient, chainId]
  */
 
-template FaceHashVerifier() {
+template FaceHashVerifier(secretBits) {
+    // ASCII "PoEP.nullifier.v2" - domain separation for the nullifier hash
+    var NULLIFIER_DOMAIN = 27370493555961890717275119480323932321330;
+
     // Private inputs
-    signal input faceHash;
-    signal input nonce;
-    signal input timestamp;
+    signal input faceSecret;
+
+    // Public inputs
+    signal input recipient;
+    signal input chainId;
 
     // Public output
     signal output nullifier;
 
-    // Constraints to ensure inputs are within field range
-    component rangeCheck1 = Num2Bits(254);
-    component rangeCheck2 = Num2Bits(254);
-    component rangeCheck3 = Num2Bits(254);
+    // Constrain the secret to the fuzzy extractor output size
+    component rangeCheck = Num2Bits(secretBits);
+    rangeCheck.in <== faceSecret;
+
+    // Constrain the binding inputs so they are part of the proof and well-formed
+    component recipientCheck = Num2Bits(160);
+    recipientCheck.in <== recipient;
 
-    rangeCheck1.in <== faceHash;
-    rangeCheck2.in <== nonce;
-    rangeCheck3.in <== timestamp;
+    component chainIdCheck = Num2Bits(64);
+    chainIdCheck.in <== chainId;
 
-    // Create nullifier using Poseidon hash of faceHash, nonce, and timestamp
-    component poseidon = Poseidon(3);
-    poseidon.inputs[0] <== faceHash;
-    poseidon.inputs[1] <== nonce;
-    poseidon.inputs[2] <== timestamp;
+    // Create nullifier using Poseidon hash of the face secret and domain tag
+    component poseidon = Poseidon(2);
+    poseidon.inputs[0] <== faceSecret;
+    poseidon.inputs[1] <== NULLIFIER_DOMAIN;
 
     nullifier <== poseidon.out;
 }
 
-// Main component
-component main = FaceHashVerifier();
\ No newline at end of file
+// Main component - secretBits must match SECRET_BITS in fuzzyExtractor.ts
+component main {public [recipient, chainId]} = FaceHashVerifier(128);
@@ -6,10 +6,13 @@ import "@openzeppelin/contracts/access/Ownable.sol";
 import "@openzeppelin/contracts/utils/ReentrancyGuard.sol";
 import "@openzeppelin/contracts/utils/Pausable.sol";
 import "@openzeppelin/contracts/utils/Strings.sol";
+import "@openzeppelin/contracts/utils/Nonces.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+import "@openzeppelin/contracts/utils/cryptography/SignatureChecker.sol";
 import "./PoEPVerifier.sol";
 
 
-contract PoEP is ERC721Enumerable, Ownable, ReentrancyGuard, Pausable {
+contract PoEP is ERC721Enumerable, Ownable, ReentrancyGuard, Pausable, EIP712, Nonces {
     using Strings for uint256;
     
     // State variables
@@ -21,6 +24,9 @@ contract PoEP is ERC721Enumerable, Ownable, ReentrancyGuard, Pausable {
     // Configuration
     uint256 public constant QUERY_FEE = 100000; // 0.1 USDC (6 decimals)
     uint256 public constant MAX_SCORE = 1000;
+    bytes32 public constant MINT_INTENT_TYPEHASH = keccak256(
+        "MintIntent(address recipient,uint256 nullifier,uint256 nonce,uint256 deadline)"
+    );
     string private _baseTokenURI;
     
     // ZK Verifier
@@ -34,14 +40,16 @@ contract PoEP is ERC721Enumerable, Ownable, ReentrancyGuard, Pausable {
     constructor(
         string memory baseURI,
         address verifierAddress
-    ) ERC721("ProofOfExistencePassport", "PoEP") Ownable(msg.sender) {
+    ) ERC721("ProofOfExistencePassport", "PoEP") Ownable(msg.sender) EIP712("PoEP", "1") {
         _baseTokenURI = baseURI;
         zkVerifier = PoEPVerifier(verifierAddress);
         scoreUpdaters[msg.sender] = true;
     }
     
     /**
-     * @dev Mint passport with ZK proof of biometric uniqueness
+     * @dev Mint passport with ZK proof of biometric uniqueness.
+     * The proof is bound to msg.sender and block.chainid, so it cannot be
+     * replayed by another address or on another chain.
      * @param _pA ZK proof point A
      * @param _pB ZK proof point B  
      * @param _pC ZK proof point C
@@ -53,26 +61,82 @@ contract PoEP is ERC721Enumerable, Ownable, ReentrancyGuard, Pausable {
         uint[2] calldata _pC,
         uint256 _nullifier
     ) external nonReentrant whenNotPaused {
+        _mintPassport(msg.sender, _pA, _pB, _pC, _nullifier);
+    }
+    
+    /**
+     * @dev Gasless mint relayed on behalf of the recipient. The recipient signs
+     * an EIP-712 MintIntent and any relayer may submit it; the passport is
+     * minted to the recipient, never to the relayer. Supports EOA and
+     * ERC-1271 smart wallet signatures.
+     * @param recipient Address that receives the passport and signed the intent
+     * @param _pA ZK proof point A
+     * @param _pB ZK proof point B
+     * @param _pC ZK proof point C
+     * @param _nullifier Unique nullifier from biometric hash
+     * @param deadline Timestamp after which the intent is no longer valid
+     * @param signature Recipient's signature over the MintIntent
+     */
+    function mintFor(
+        address recipient,
+        uint[2] calldata _pA,
+        uint[2][2] calldata _pB,
+        uint[2] calldata _pC,
+        uint256 _nullifier,
+        uint256 deadline,
+        bytes calldata signature
+    ) external nonReentrant whenNotPaused {
+        require(block.timestamp <= deadline, "PoEP: Mint intent expired");
+        
+        bytes32 structHash = keccak256(abi.encode(
+            MINT_INTENT_TYPEHASH,
+            recipient,
+            _nullifier,
+            _useNonce(recipient),
+            deadline
+        ));
+        require(
+            SignatureChecker.isValidSignatureNow(recipient, _hashTypedDataV4(structHash), signature),
+            "PoEP: Invalid mint intent signature"
+        );
+        
+        _mintPassport(recipient, _pA, _pB, _pC, _nullifier);
+    }
+    
+    /**
+     * @dev Verify the proof for `to` and mint the passport
+     */
+    function _mintPassport(
+        address to,
+        uint[2] calldata _pA,
+        uint[2][2] calldata _pB,
+        uint[2] calldata _pC,
+        uint256 _nullifier
+    ) internal {
         require(!nullifiers[_nullifier], "PoEP: Nullifier already used");
         
-        // Verify ZK proof
-        uint[1] memory publicSignals = [_nullifier];
+        // Verify ZK proof - public signals are [nullifier, recipient, chainId]
+        uint[3] memory publicSignals = [
+            _nullifier,
+            uint256(uint160(to)),
+            block.chainid
+        ];
         require(
             zkVerifier.verifyProof(_pA, _pB, _pC, publicSignals),
             "PoEP: Invalid ZK proof"
         );
         
-        uint256 tokenId = uint256(uint160(msg.sender));
+        uint256 tokenId = uint256(uint160(to));
         require(_ownerOf(tokenId) == address(0), "PoEP: Already minted for this address");
         
         // Mark nullifier as used
         nullifiers[_nullifier] = true;
         
         // Mint passport NFT
-        _mint(msg.sender, tokenId);
+        _mint(to, tokenId);
         trustScore[tokenId] = 1; // Genesis score
         
-        emit PassportMinted(msg.sender, tokenId, _nullifier);
+        emit PassportMinted(to, tokenId, _nullifier);
     }
     
     /**
@@ -86,6 +150,31 @@ contract PoEP is ERC721Enumerable, Ownable, ReentrancyGuard, Pausable {
         uint256 tokenId = uint256(uint160(user));
         require(_ownerOf(tokenId) != address(0), "PoEP: Passport does not exist");
         
+        _applyScoreDelta(user, tokenId, delta);
+    }
+    
+    /**
+     * @dev Update many trust scores in one transaction. Users without a
+     * passport (e.g. burned since the scores were computed) are skipped so
+     * one stale entry does not revert the whole batch.
+     * @param users Addresses to update scores for
+     * @param deltas Score change for each address
+     */
+    function updateScores(address[] calldata users, int256[] calldata deltas) external {
+        require(scoreUpdaters[msg.sender], "PoEP: Not authorized to update scores");
+        require(users.length == deltas.length, "PoEP: Length mismatch");
+        
+        for (uint256 i = 0; i < users.length; i++) {
+            uint256 tokenId = uint256(uint160(users[i]));
+            if (_ownerOf(tokenId) == address(0)) continue;
+            _applyScoreDelta(users[i], tokenId, deltas[i]);
+        }
+    }
+    
+    /**
+     * @dev Apply a delta, clamped to [1, MAX_SCORE]
+     */
+    function _applyScoreDelta(address user, uint256 tokenId, int256 delta) internal {
         uint256 oldScore = trustScore[tokenId];
         uint256 newScore;
         
@@ -27,27 +27,33 @@ contract PoEPVerifier {
     uint256 constant q   = 21888242871839275222246405745257275088696311157297823662689037894645226208583;
 
     // Verification Key data
-    uint256 constant alphax  = 20507928475000405730364754982221830660717799871468582863713086360540334472426;
-    uint256 constant alphay  = 19423429435512418704088746406629576520235866507008738325426838778010960894479;
-    uint256 constant betax1  = 10850452296958925122954933857823073921061929402136005269241625582649652673277;
-    uint256 constant betax2  = 477695030864533741471338236654644094767318075999792401032417476173178121662;
-    uint256 constant betay1  = 15554011225080242966863051155733520452682790967626331531728226284454953579285;
-    uint256 constant betay2  = 3055926835596015799761407098753623986612409666595778247896376984366468179501;
+    uint256 constant alphax  = 21695161747187554978247150151078172067535528991437493567933105929348080535004;
+    uint256 constant alphay  = 8738854814761503364734984900898547049814813479952254530349517062731418181519;
+    uint256 constant betax1  = 13171139978612327432232255332511422234134413014457465041272894892824270278403;
+    uint256 constant betax2  = 8447707997507822789483774020370881327260521497074658196188226379833955251975;
+    uint256 constant betay1  = 5684201485506291231282186281546761866379650556152473909682683983862744738103;
+    uint256 constant betay2  = 9546615030605127658462181530830453454667188781899994620487663646984495700424;
     uint256 constant gammax1 = 11559732032986387107991004021392285783925812861821192530917403151452391805634;
     uint256 constant gammax2 = 10857046999023057135944570762232829481370756359578518086990519993285655852781;
     uint256 constant gammay1 = 4082367875863433681332203403145435568316851327593401208105741076214120093531;
     uint256 constant gammay2 = 8495653923123431417604973247489272438418190587263600148770280649306958101930;
-    uint256 constant deltax1 = 11707803045972832448863424168551141571171749927766552968849304740355297639690;
-    uint256 constant deltax2 = 6387923550427748009690029038109626411913762148540526344811997786201105581896;
-    uint256 constant deltay1 = 20274527692017795701395128588281754247681600247032191956644995598257777498627;
-    uint256 constant deltay2 = 21827576726854492563897846644262127765715454625065675820029316618256078107277;
+    uint256 constant deltax1 = 1478872625110366824131335405779347506198785552755760034985291461000728920876;
+    uint256 constant deltax2 = 7549850528841058961220552691722659724259191078065861478232751077406158805936;
+    uint256 constant deltay1 = 16913498570646500878284885329812943199765078202165730689751930086015242823038;
+    uint256 constant deltay2 = 13588875032561351188838766287954401289699626515445613879459161248519635953214;
 
     
-    uint256 constant IC0x = 15270002174590660316963069757477487551574548839626023487454588234822879257566;
-    uint256 constant IC0y = 9841793908453518614830863278719049940268252085655761798628045510778843182588;
+    uint256 constant IC0x = 7697129464019424271475355835076010273611285287034975549187155488707728925727;
+    uint256 constant IC0y = 21730468802550578784658512141893441209659904109130309630828633158085632230043;
     
-    uint256 constant IC1x = 21002159799986176639430362856767931067702283371958962409375794141360213870936;
-    uint256 constant IC1y = 1896669405859458388206668021720529876031788201322795752878617978416578565357;
+    uint256 constant IC1x = 3050753989271552478195395222915707537966242014961268210772995940603014624857;
+    uint256 constant IC1y = 20671450360511882326287147562940954817947945266433745781665253261818729389189;
+    
+    uint256 constant IC2x = 11642511759473965303712828906191010887936023516318801055173796230166636382657;
+    uint256 constant IC2y = 11563494710269947503823916703273926675232927454635647204250072137865812949026;
+    
+    uint256 constant IC3x = 17231115490120677144368435479278985549720075002471678001601647144693968236238;
+    uint256 constant IC3y = 4442627707684640224828155234551613303762671165846798838773575551480456594406;
     
  
     // Memory data
@@ -56,7 +62,7 @@ contract PoEPVerifier {
 
     uint16 constant pLastMem = 896;
 
-    function verifyProof(uint[2] calldata _pA, uint[2][2] calldata _pB, uint[2] calldata _pC, uint[1] calldata _pubSignals) public view returns (bool) {
+    function verifyProof(uint[2] calldata _pA, uint[2][2] calldata _pB, uint[2] calldata _pC, uint[3] calldata _pubSignals) public view returns (bool) {
         assembly {
             function checkField(v) {
                 if iszero(lt(v, r)) {
@@ -102,6 +108,10 @@ contract PoEPVerifier {
                 
                 g1_mulAccC(_pVk, IC1x, IC1y, calldataload(add(pubSignals, 0)))
                 
+                g1_mulAccC(_pVk, IC2x, IC2y, calldataload(add(pubSignals, 32)))
+                
+                g1_mulAccC(_pVk, IC3x, IC3y, calldataload(add(pubSignals, 64)))
+                
 
                 // -A
                 mstore(_pPairing, calldataload(pA))
@@ -157,6 +167,10 @@ contract PoEPVerifier {
             
             checkField(calldataload(add(_pubSignals, 0)))
             
+            checkField(calldataload(add(_pubSignals, 32)))
+            
+            checkField(calldataload(add(_pubSignals, 64)))
+            
 
             // Validate all evaluations
             let isValid := checkPairing(_pA, _pB, _pC, _pubSignals, pMem)
@@ -4,7 +4,8 @@ import "dotenv/config";
 /** @type import('hardhat/config').HardhatUserConfig */
 export default {
   solidity: {
-    version: "0.8.20",
+    // OpenZeppelin's SignatureChecker needs at least 0.8.24
+    version: "0.8.24",
     settings: {
       optimizer: {
         enabled: true,
@@ -17,6 +18,10 @@ export default {
     hardhat: {
       chainId: 31337,
     },
+    localhost: {
+      url: process.env.NEXT_PUBLIC_LOCALHOST_RPC_URL || "http://127.0.0.1:8545",
+      chainId: 31337,
+    },
     baseSepolia: {
       url: process.env.BASE_SEPOLIA_RPC || "https://sepolia.base.org",
       accounts: process.env.PRIVATE_KEY ? [process.env.PRIVATE_KEY] : [],
@@ -1,5 +0,0 @@
-/**
- * Initialize a new Farcaster mini app project
- * @returns Promise<void>
- */
-export function init(): Promise<void>; 
\ No newline at end of file
@@ -1,4 +1,17 @@
 import type { NextConfig } from 'next';
+import fs from 'fs';
+import path from 'path';
+import { readDeployments } from './scripts/deployments.js';
+import { NETWORK } from './src/lib/networks';
+
+// Origins of the RPC endpoints the browser talks to. BASE_*_RPC stay on the
+// server, so they are left out of the (public) CSP.
+const serverOnlyRpcUrls = [process.env.BASE_MAINNET_RPC, process.env.BASE_SEPOLIA_RPC];
+const rpcOrigins = [...new Set(
+  NETWORK.rpcUrls
+    .filter(url => !serverOnlyRpcUrls.includes(url))
+    .map(url => new URL(url).origin)
+)];
 
 const nextConfig: NextConfig = {
   // Output configuration
@@ -10,7 +23,22 @@ const nextConfig: NextConfig = {
   },
 
   // External packages
-  serverExternalPackages: ['sharp'],
+  serverExternalPackages: ['sharp', 'snarkjs'],
+
+  // Deployment registry (deployments/<chainId>.json), read by src/lib/deployments.ts,
+  // and the expected circuit artifact hashes, read by src/lib/circuitManifest.ts
+  env: {
+    POEP_DEPLOYMENTS: JSON.stringify(readDeployments()),
+    POEP_CIRCUIT_MANIFEST: JSON.stringify(
+      JSON.parse(fs.readFileSync(path.join(__dirname, 'public', 'circuit-manifest.json'), 'utf8'))
+    ),
+  },
+
+  // Server-side proof verification reads the verification key from disk
+  outputFileTracingIncludes: {
+    '/api/**': ['./circuits/verification_key.json'],
+    '/api/health': ['./public/circuit-manifest.json', './public/circuit.wasm', './public/circuit_final.zkey', './public/verification_key.json'],
+  },
 
   // Webpack configuration for security and performance
   webpack: (config, { dev, isServer }) => {
@@ -61,6 +89,23 @@ const nextConfig: NextConfig = {
       'https://peop-mini.vercel.app'
     ];
 
+    // Everything but frame-ancestors is the same for every page
+    const contentSecurityPolicy = (frameAncestors: string) => `
+      default-src 'self';
+      script-src 'self' 'nonce-' https://pulse.walletconnect.org https://cca-lite.coinbase.com https://*.walletconnect.org https://*.coinbase.com;
+      worker-src 'self' blob: data:;
+      connect-src 'self' data: blob: ${rpcOrigins.join(' ')} https://api.basescan.org https://pulse.walletconnect.org https://cca-lite.coinbase.com wss://*.walletconnect.org wss://*.coinbase.com https://*.coinbase.com https://*.walletconnect.org https://*.walletconnect.com https://relay.walletconnect.org https://relay.walletconnect.com https://rpc.walletconnect.org https://explorer-api.walletconnect.com https://notify.walletconnect.com https://auth.farcaster.xyz;
+      img-src 'self' data: blob: https://*.walletconnect.org https://*.coinbase.com;
+      style-src 'self' 'nonce-';
+      font-src 'self' data:;
+      frame-ancestors ${frameAncestors};
+      frame-src 'self' https://*.walletconnect.org https://*.coinbase.com;
+      object-src 'none';
+      base-uri 'self';
+      form-action 'self';
+      upgrade-insecure-requests;
+    `.replace(/\s+/g, ' ').trim();
+
     return [
       {
         source: '/:path*',
@@ -83,21 +128,7 @@ const nextConfig: NextConfig = {
           },
           {
             key: 'Content-Security-Policy',
-            value: `
-              default-src 'self';
-              script-src 'self' 'nonce-' https://pulse.walletconnect.org https://cca-lite.coinbase.com https://*.walletconnect.org https://*.coinbase.com;
-              worker-src 'self' blob: data:;
-              connect-src 'self' data: blob: https://api.basescan.org https://mainnet.base.org https://pulse.walletconnect.org https://cca-lite.coinbase.com wss://*.walletconnect.org wss://*.coinbase.com https://*.coinbase.com https://*.walletconnect.org https://*.walletconnect.com https://relay.walletconnect.org https://relay.walletconnect.com https://rpc.walletconnect.org https://explorer-api.walletconnect.com https://notify.walletconnect.com https://auth.farcaster.xyz;
-              img-src 'self' data: blob: https://*.walletconnect.org https://*.coinbase.com;
-              style-src 'self' 'nonce-';
-              font-src 'self' data:;
-              frame-ancestors ${allowedOrigins.join(' ')};
-              frame-src 'self' https://*.walletconnect.org https://*.coinbase.com;
-              object-src 'none';
-              base-uri 'self';
-              form-action 'self';
-              upgrade-insecure-requests;
-            `.replace(/\s+/g, ' ').trim(),
+            value: contentSecurityPolicy(allowedOrigins.join(' ')),
           },
           {
             key: 'X-Frame-Options',
@@ -125,6 +156,17 @@ const nextConfig: NextConfig = {
           },
         ].filter(header => header.value), // Remove empty headers
       },
+      {
+        // The "Verified human" badge is embedded by any site. Browsers ignore
+        // X-Frame-Options when the CSP sets frame-ancestors.
+        source: '/badge/:path*',
+        headers: [
+          {
+            key: 'Content-Security-Policy',
+            value: contentSecurityPolicy('*'),
+          },
+        ],
+      },
       {
         source: '/api/:path*',
         headers: [
@@ -0,0 +1,36 @@
+// PoEP "Verified human" badge. Renders /badge/<address> in an iframe where the
+// script tag stands:
+//
+//   <script async src="https://peop-mini.vercel.app/badge.js"
+//     data-address="0x..." data-tier="silver"></script>
+//
+// data-tier and data-min-score are optional requirements; without them any
+// passport counts as verified.
+(function () {
+  var script = document.currentScript;
+  if (!script || !script.parentNode) return;
+
+  var address = script.getAttribute('data-address');
+  if (!address) {
+    console.warn('PoEP badge: data-address is required');
+    return;
+  }
+
+  var query = new URLSearchParams();
+  var tier = script.getAttribute('data-tier');
+  var minScore = script.getAttribute('data-min-score');
+  if (tier) query.set('tier', tier);
+  if (minScore) query.set('minScore', minScore);
+
+  var iframe = document.createElement('iframe');
+  iframe.src = new URL(script.src).origin + '/badge/' + encodeURIComponent(address) +
+    (query.toString() ? '?' + query.toString() : '');
+  iframe.title = 'PoEP verified human badge';
+  iframe.width = '300';
+  iframe.height = '76';
+  iframe.loading = 'lazy';
+  iframe.style.border = '0';
+  iframe.setAttribute('scrolling', 'no');
+
+  script.parentNode.insertBefore(iframe, script);
+})();
@@ -1,28 +1,40 @@
 const hre = require('hardhat');
 
+// Redeploy PoEP against the PoEPVerifier recorded in deployments/<chainId>.json:
+//   npx hardhat run scripts/deploy-poep-only.cjs --network baseSepolia|baseMainnet|localhost
+
 async function main() {
+  const { readDeployment, describeDeployedContract, updateDeployment } = await import('./deployments.js');
+
   console.log('🚀 Deploying PoEP contract...');
 
   const [deployer] = await hre.ethers.getSigners();
   console.log('📝 Deployer:', deployer.address);
 
-  const verifierAddress = '0x420Da22BC8986c27aB6BD36B303a34e8c8e66100';
-  const baseURI = 'https://poep-mini.vercel.app/api/metadata/';
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const verifierAddress = readDeployment(chainId)?.contracts.verifier?.address;
+  if (!verifierAddress) {
+    throw new Error(`No PoEPVerifier recorded in deployments/${chainId}.json - run scripts/deploy-verifier-only.js first`);
+  }
+
+  const baseURI = `${process.env.NEXT_PUBLIC_URL || 'https://peop-mini.vercel.app'}/api/metadata/`;
   console.log('🔍 Using PoEPVerifier at:', verifierAddress);
   console.log('🌐 Using baseURI:', baseURI);
 
   const PoEP = await hre.ethers.getContractFactory('PoEP');
   const poep = await PoEP.deploy(baseURI, verifierAddress);
+  const poepRecord = await describeDeployedContract(poep);
 
-  await poep.waitForDeployment();
-  const poepAddress = await poep.getAddress();
-
-  console.log('✅ PoEP deployed to:', poepAddress);
+  console.log('✅ PoEP deployed to:', poepRecord.address);
   console.log('🔗 Verifier:', verifierAddress);
 
-  console.log('\n📋 Update .env files with:');
-  console.log(`NEXT_PUBLIC_POEP_CONTRACT_ADDRESS="${poepAddress}"`);
-  console.log(`NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS="${verifierAddress}"`);
+  const { file } = updateDeployment(chainId, {
+    network: hre.network.name,
+    deployer: deployer.address,
+    baseURI,
+    contracts: { poep: poepRecord }
+  });
+  console.log(`\n📝 Recorded in ${file}`);
 }
 
 main()
@@ -30,4 +42,4 @@ main()
   .catch((error) => {
     console.error(error);
     process.exit(1);
-  });
\ No newline at end of file
+  });
@@ -1,4 +1,5 @@
 import hre from 'hardhat';
+import { describeDeployedContract, getCircuitHashes, readDeployment, updateDeployment } from './deployments.js';
 
 async function main() {
   console.log('🚀 Deploying PoEPVerifier contract (3-input version)...');
@@ -9,12 +10,12 @@ async function main() {
   const PoEPVerifier = await hre.ethers.getContractFactory('PoEPVerifier');
   const verifier = await PoEPVerifier.deploy();
 
-  await verifier.waitForDeployment();
-  const verifierAddress = await verifier.getAddress();
+  const verifierRecord = await describeDeployedContract(verifier);
+  const verifierAddress = verifierRecord.address;
 
   console.log('✅ PoEPVerifier deployed to:', verifierAddress);
 
-  // Test that it accepts 1 public signal
+  // Test that it accepts 3 public signals
   console.log('🧪 Testing verifier signature...');
 
   // Create dummy proof data to test function signature
@@ -22,7 +23,7 @@ async function main() {
     pA: [1, 2],
     pB: [[1, 2], [3, 4]],
     pC: [5, 6],
-    publicSignals: [12345] // Only 1 public signal (nullifier)
+    publicSignals: [12345, 1, 8453] // nullifier, recipient, chainId
   };
 
   try {
@@ -33,7 +34,7 @@ async function main() {
       dummyProof.pC,
       dummyProof.publicSignals
     );
-    console.log('✅ Verifier accepts 1 public signal (nullifier)');
+    console.log('✅ Verifier accepts 3 public signals (nullifier, recipient, chainId)');
   } catch (error) {
     if (error.message.includes('signature')) {
       console.log('❌ Function signature mismatch');
@@ -43,8 +44,20 @@ async function main() {
     }
   }
 
-  console.log('\\n📋 Update .env files with:');
-  console.log(`NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS="${verifierAddress}"`);
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  const previous = readDeployment(chainId);
+  const { file } = updateDeployment(chainId, {
+    network: hre.network.name,
+    deployer: deployer.address,
+    contracts: { verifier: verifierRecord },
+    circuit: getCircuitHashes()
+  });
+  console.log(`\n📝 Recorded in ${file}`);
+
+  // PoEP's verifier is immutable, so the recorded PoEP keeps the old one
+  if (previous?.contracts.poep) {
+    console.log(`⚠️ PoEP at ${previous.contracts.poep.address} still uses the previous verifier - run scripts/deploy-poep-only.cjs`);
+  }
 }
 
 main()
@@ -0,0 +1,106 @@
+import hre from 'hardhat';
+import { describeDeployedContract, getCircuitHashes, updateDeployment } from './deployments.js';
+
+// Deploy PoEPVerifier and PoEP and record them in deployments/<chainId>.json:
+//   npx hardhat run scripts/deploy.js --network baseSepolia|baseMainnet|localhost
+
+// Networks with a BaseScan API in hardhat.config.js
+const VERIFIABLE_NETWORKS = {
+  baseMainnet: 'https://basescan.org',
+  baseSepolia: 'https://sepolia.basescan.org'
+};
+
+async function main() {
+  const networkName = hre.network.name;
+  if (networkName === 'hardhat') {
+    throw new Error('The in-process hardhat network is discarded after the run - pass --network');
+  }
+
+  const chainId = Number((await hre.ethers.provider.getNetwork()).chainId);
+  console.log(`🚀 Deploying PoEP contracts to ${networkName} (chain ${chainId})...`);
+
+  const [deployer] = await hre.ethers.getSigners();
+  console.log('📝 Deployer:', deployer.address);
+
+  // Check balance
+  const balance = await deployer.provider.getBalance(deployer.address);
+  console.log('💰 Deployer balance:', hre.ethers.formatEther(balance), 'ETH');
+
+  if (balance < hre.ethers.parseEther('0.001')) {
+    throw new Error('Insufficient ETH balance for deployment (need at least 0.001 ETH)');
+  }
+
+  // 1. Deploy PoEPVerifier first
+  console.log('\n1️⃣ Deploying PoEPVerifier...');
+  const PoEPVerifier = await hre.ethers.getContractFactory('PoEPVerifier');
+  const verifier = await PoEPVerifier.deploy();
+  const verifierRecord = await describeDeployedContract(verifier);
+  const verifierAddress = verifierRecord.address;
+  console.log('✅ PoEPVerifier deployed to:', verifierAddress);
+
+  // 2. Deploy PoEP with verifier
+  console.log('\n2️⃣ Deploying PoEP...');
+  const baseURI = `${process.env.NEXT_PUBLIC_URL || 'https://peop-mini.vercel.app'}/api/metadata/`;
+  console.log('🌐 Using baseURI:', baseURI);
+
+  const PoEP = await hre.ethers.getContractFactory('PoEP');
+  const poep = await PoEP.deploy(baseURI, verifierAddress);
+  const poepRecord = await describeDeployedContract(poep);
+  const poepAddress = poepRecord.address;
+  console.log('✅ PoEP deployed to:', poepAddress);
+
+  // 3. Record the deployment
+  const { file } = updateDeployment(chainId, {
+    network: networkName,
+    deployer: deployer.address,
+    baseURI,
+    contracts: { verifier: verifierRecord, poep: poepRecord },
+    circuit: getCircuitHashes()
+  });
+  console.log(`\n3️⃣ Recorded in ${file}`);
+
+  // 4. Verify contracts on BaseScan
+  const explorer = VERIFIABLE_NETWORKS[networkName];
+  if (explorer) {
+    console.log('\n4️⃣ Verifying contracts...');
+
+    try {
+      console.log('Verifying PoEPVerifier...');
+      await hre.run("verify:verify", {
+        address: verifierAddress,
+        constructorArguments: [],
+      });
+      console.log('✅ PoEPVerifier verified');
+    } catch (error) {
+      console.log('⚠️ PoEPVerifier verification failed:', error.message);
+    }
+
+    try {
+      console.log('Verifying PoEP...');
+      await hre.run("verify:verify", {
+        address: poepAddress,
+        constructorArguments: [baseURI, verifierAddress],
+      });
+      console.log('✅ PoEP verified');
+    } catch (error) {
+      console.log('⚠️ PoEP verification failed:', error.message);
+    }
+  }
+
+  console.log('\n🎉 Deployment complete!');
+  if (explorer) {
+    console.log('\n🔗 Contract URLs:');
+    console.log(`PoEP: ${explorer}/address/${poepAddress}`);
+    console.log(`PoEPVerifier: ${explorer}/address/${verifierAddress}`);
+  }
+
+  console.log(`\n📝 The app, indexer and health checks read addresses from ${file} - commit it for Base networks`);
+  console.log(`📝 Run the app with NEXT_PUBLIC_NETWORK="${networkName}" and run npm run circuit:manifest`);
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error(error);
+    process.exit(1);
+  });
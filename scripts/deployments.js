@@ -0,0 +1,102 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+
+// Deployment registry: deployments/<chainId>.json records what is deployed on
+// each chain. Written by the deploy scripts and scripts/local-dev.ts, read by
+// next.config.ts and scripts/load-deployments.js. Commit the files for Base
+// networks; the app takes contract addresses and the start block from them.
+// The shape is mirrored by the Deployment type in src/lib/deployments.ts.
+
+const ROOT = process.cwd();
+export const DEPLOYMENTS_DIR = path.join(ROOT, 'deployments');
+
+// Bump when the record shape changes incompatibly
+export const DEPLOYMENT_FORMAT_VERSION = 1;
+
+export function deploymentPath(chainId) {
+  return path.join(DEPLOYMENTS_DIR, `${chainId}.json`);
+}
+
+function parseDeployment(file) {
+  const deployment = JSON.parse(fs.readFileSync(file, 'utf8'));
+  if (deployment.version !== DEPLOYMENT_FORMAT_VERSION) {
+    throw new Error(
+      `${path.relative(ROOT, file)} has format version ${deployment.version}, expected ${DEPLOYMENT_FORMAT_VERSION}`
+    );
+  }
+  return deployment;
+}
+
+/**
+ * The record for a chain, or null if nothing was deployed there yet
+ */
+export function readDeployment(chainId) {
+  const file = deploymentPath(chainId);
+  return fs.existsSync(file) ? parseDeployment(file) : null;
+}
+
+/**
+ * Every record, keyed by chain id
+ */
+export function readDeployments() {
+  if (!fs.existsSync(DEPLOYMENTS_DIR)) {
+    return {};
+  }
+
+  const deployments = {};
+  for (const name of fs.readdirSync(DEPLOYMENTS_DIR)) {
+    if (!/^\d+\.json$/.test(name)) continue;
+    const deployment = parseDeployment(path.join(DEPLOYMENTS_DIR, name));
+    deployments[deployment.chainId] = deployment;
+  }
+  return deployments;
+}
+
+/**
+ * Merge changes into the chain's record and write it. Contracts not in
+ * `changes.contracts` keep their previous entry.
+ */
+export function updateDeployment(chainId, changes) {
+  const previous = readDeployment(chainId);
+  const merged = { ...previous, ...changes };
+  const deployment = {
+    version: DEPLOYMENT_FORMAT_VERSION,
+    network: merged.network,
+    chainId,
+    deployer: merged.deployer,
+    baseURI: merged.baseURI ?? null,
+    contracts: { ...previous?.contracts, ...changes.contracts },
+    circuit: merged.circuit ?? null,
+    updatedAt: new Date().toISOString()
+  };
+
+  fs.mkdirSync(DEPLOYMENTS_DIR, { recursive: true });
+  const file = deploymentPath(chainId);
+  fs.writeFileSync(file, JSON.stringify(deployment, null, 2) + '\n');
+  return { deployment, file: path.relative(ROOT, file) };
+}
+
+/**
+ * Address, transaction and block of a contract deployed with ethers v6
+ */
+export async function describeDeployedContract(contract) {
+  const receipt = await contract.deploymentTransaction().wait();
+  return {
+    address: await contract.getAddress(),
+    transactionHash: receipt.hash,
+    blockNumber: receipt.blockNumber
+  };
+}
+
+/**
+ * Hashes of the circuit artifacts a new PoEPVerifier is built from, so a
+ * record can be checked against public/circuit-manifest.json
+ */
+export function getCircuitHashes() {
+  const hash = file => createHash('sha256').update(fs.readFileSync(path.join(ROOT, 'public', file))).digest('hex');
+  return {
+    verificationKeySha256: hash('verification_key.json'),
+    zkeySha256: hash('circuit_final.zkey')
+  };
+}
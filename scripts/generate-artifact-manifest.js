@@ -0,0 +1,97 @@
+import { createHash } from 'crypto';
+import fs from 'fs';
+import path from 'path';
+import { readDeployments } from './deployments.js';
+
+// Regenerate after every circuit rebuild:
+//   node --env-file=.env.local scripts/generate-artifact-manifest.js
+// Verifier addresses come from deployments/<chainId>.json records built from
+// this verification key, then the NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_*
+// variables. Addresses from the previous manifest are kept only if the
+// verification key did not change.
+
+const ROOT = process.cwd();
+const MANIFEST_PATH = path.join(ROOT, 'public', 'circuit-manifest.json');
+
+const ARTIFACTS = {
+  wasm: '/circuit.wasm',
+  zkey: '/circuit_final.zkey',
+  verificationKey: '/verification_key.json'
+};
+
+const VERIFIER_ENV = {
+  8453: 'NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_MAINNET',
+  84532: 'NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_SEPOLIA'
+};
+
+function describeArtifact(publicPath) {
+  const data = fs.readFileSync(path.join(ROOT, 'public', publicPath));
+  return {
+    path: publicPath,
+    sha256: createHash('sha256').update(data).digest('hex'),
+    size: data.byteLength
+  };
+}
+
+function readCircuitVersion() {
+  const source = fs.readFileSync(path.join(ROOT, 'circuits', 'facehash.circom'), 'utf8');
+  const match = source.match(/revision (\d+)/);
+  if (!match) {
+    throw new Error('Could not find the circuit revision in facehash.circom');
+  }
+  return Number(match[1]);
+}
+
+function main() {
+  console.log('🔐 Generating circuit artifact manifest...');
+
+  const artifacts = Object.fromEntries(
+    Object.entries(ARTIFACTS).map(([name, publicPath]) => [name, describeArtifact(publicPath)])
+  );
+
+  const verificationKey = JSON.parse(fs.readFileSync(path.join(ROOT, 'public', ARTIFACTS.verificationKey), 'utf8'));
+
+  const previous = fs.existsSync(MANIFEST_PATH)
+    ? JSON.parse(fs.readFileSync(MANIFEST_PATH, 'utf8'))
+    : null;
+  const keyUnchanged = previous?.artifacts?.verificationKey?.sha256 === artifacts.verificationKey.sha256;
+
+  const verifiers = keyUnchanged ? { ...previous.verifiers } : {};
+  for (const deployment of Object.values(readDeployments())) {
+    // Base networks only; local Hardhat records are not committed
+    if (!(deployment.chainId in VERIFIER_ENV)) continue;
+    const verifier = deployment.contracts.verifier;
+    if (verifier && deployment.circuit?.verificationKeySha256 === artifacts.verificationKey.sha256) {
+      verifiers[deployment.chainId] = verifier.address;
+    }
+  }
+  for (const [chainId, envName] of Object.entries(VERIFIER_ENV)) {
+    if (process.env[envName]) {
+      verifiers[chainId] = process.env[envName];
+    }
+  }
+
+  if (previous && !keyUnchanged && Object.keys(previous.verifiers || {}).length > 0) {
+    console.log('⚠️  Verification key changed - previous verifier addresses were dropped');
+  }
+
+  const manifest = {
+    circuit: 'facehash',
+    version: readCircuitVersion(),
+    nPublic: verificationKey.nPublic,
+    publicSignals: ['nullifier', 'recipient', 'chainId'],
+    artifacts,
+    verifiers,
+    generatedAt: new Date().toISOString()
+  };
+
+  fs.writeFileSync(MANIFEST_PATH, JSON.stringify(manifest, null, 2) + '\n');
+
+  console.log('✅ Manifest written to public/circuit-manifest.json');
+  for (const [name, entry] of Object.entries(artifacts)) {
+    console.log(`   ${name}: ${entry.sha256} (${entry.size} bytes)`);
+  }
+  console.log('   verifiers:', Object.keys(verifiers).length ? verifiers : 'none recorded');
+}
+
+main();
@@ -0,0 +1,35 @@
+import { fileArtifactLoader, proveFaceSecret } from '../src/lib/prover';
+import { verifyPoEPProof } from '../src/lib/proofVerifier';
+
+// Generate a mint proof in Node from the circuit build output:
+//   npm run circuit:prove -- <faceSecret> <recipient> [chainId]
+// Prints the ZKProofResult after checking the proof against
+// circuits/verification_key.json.
+
+async function main() {
+  const [faceSecret, recipient, chainIdArg = '8453'] = process.argv.slice(2);
+
+  if (!faceSecret || !recipient) {
+    console.error('Usage: npm run circuit:prove -- <faceSecret> <recipient> [chainId]');
+    process.exit(1);
+  }
+
+  const result = await proveFaceSecret(faceSecret, recipient, Number(chainIdArg), {
+    loader: fileArtifactLoader(),
+    onStage: stage => console.error(`⏳ ${stage}...`)
+  });
+
+  const verification = await verifyPoEPProof(result.proof, result.publicSignals);
+  if (!verification.valid) {
+    throw new Error(`Generated proof failed verification: ${verification.reason}`);
+  }
+
+  console.log(JSON.stringify(result, null, 2));
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,38 @@
+import './load-deployments.js';
+import { getIndexerStatus, syncIndexer } from '../src/lib/indexer';
+
+// Index PoEP contract events into the configured store:
+//   npm run indexer            backfill, then follow new blocks
+//   npm run indexer -- --once  backfill up to the safe head and exit
+// The store is chosen by INDEXER_STORE (see src/lib/indexerStore.ts).
+
+const POLL_INTERVAL = Number(process.env.INDEXER_POLL_INTERVAL || 5000);
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+async function main() {
+  const once = process.argv.includes('--once');
+  const status = await getIndexerStatus();
+  console.log(`🗂️  Indexing into ${status.store} from block ${status.cursor === null ? status.deploymentBlock : status.cursor + 1} (${status.confirmations} confirmations)`);
+
+  for (;;) {
+    const result = await syncIndexer();
+    if (result.toBlock !== null) {
+      console.log(`✅ Blocks ${result.fromBlock}-${result.toBlock}: ${result.events} event(s), safe head ${result.safeHead}`);
+    }
+
+    if (result.caughtUp) {
+      if (once) return;
+      await sleep(POLL_INTERVAL);
+    }
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exit(1);
+  });
@@ -0,0 +1,5 @@
+import { readDeployments } from './deployments.js';
+
+// Scripts run outside Next.js, which inlines the registry as POEP_DEPLOYMENTS
+// (see next.config.ts). Import this before anything from src/lib.
+process.env.POEP_DEPLOYMENTS ??= JSON.stringify(readDeployments());
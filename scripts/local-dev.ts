@@ -0,0 +1,236 @@
+import { spawn, type ChildProcess } from 'child_process';
+import { readFile, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { ethers } from 'ethers';
+import { NETWORKS } from '../src/lib/networks';
+import { describeDeployedContract, getCircuitHashes, updateDeployment } from './deployments.js';
+import { toSolidityProof } from '../src/lib/proofCodec';
+import { fileArtifactLoader, proveFaceSecret } from '../src/lib/prover';
+
+// Run PoEP end-to-end against a local Hardhat node, no Base RPC or funded key:
+//   npm run dev:local -- [--no-seed] [--no-app]
+// Attaches to the node at NEXT_PUBLIC_LOCALHOST_RPC_URL or starts one,
+// deploys PoEPVerifier and PoEP from contracts/, mints a few scored passports,
+// records them in deployments/31337.json, writes the app configuration to
+// .env.hardhat.local and runs next dev with it.
+// With --no-app it stops after writing the config (keeping a node it started).
+
+const network = NETWORKS.localhost;
+const RPC_URL = network.rpcUrls[0];
+const ENV_FILE = '.env.hardhat.local';
+const INDEXER_SQLITE_PATH = '.indexer/localhost.sqlite';
+const APP_URL = 'http://localhost:3000';
+
+// Accounts of the default Hardhat mnemonic
+const HARDHAT_MNEMONIC = 'test test test test test test test test test test test junk';
+const DEPLOYER_ACCOUNT = 0; // Deployer, mint relayer and score updater
+const WALLET_ACCOUNT = 1; // Connected in the app; left without a passport to mint
+
+// Passports minted by the seed, one per tier above standard
+const SEED_PASSPORTS = [
+  { account: 2, delta: 120 },
+  { account: 3, delta: 60 },
+  { account: 4, delta: 30 }
+];
+
+const NODE_START_TIMEOUT = 60000;
+
+interface LocalDeployment {
+  poep: string;
+  verifier: string;
+}
+
+function sleep(ms: number) {
+  return new Promise(resolve => setTimeout(resolve, ms));
+}
+
+function hardhatWallet(index: number): ethers.HDNodeWallet {
+  return ethers.HDNodeWallet.fromPhrase(HARDHAT_MNEMONIC, undefined, `m/44'/60'/0'/0/${index}`);
+}
+
+function run(command: string, args: string[], env: NodeJS.ProcessEnv = process.env): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, args, { stdio: 'inherit', env });
+    child.on('error', reject);
+    child.on('exit', code => code === 0 ? resolve() : reject(new Error(`${command} ${args.join(' ')} exited with ${code}`)));
+  });
+}
+
+async function getChainId(provider: ethers.JsonRpcProvider): Promise<number | null> {
+  try {
+    return Number(await provider.send('eth_chainId', []));
+  } catch (_error) {
+    return null;
+  }
+}
+
+/**
+ * Use the node already listening on RPC_URL, or start `hardhat node` there.
+ * Returns the started process, or null when attached to an existing node.
+ */
+async function attachOrStartNode(provider: ethers.JsonRpcProvider): Promise<ChildProcess | null> {
+  const chainId = await getChainId(provider);
+  if (chainId !== null) {
+    if (chainId !== network.chainId) {
+      throw new Error(`Node at ${RPC_URL} is on chain ${chainId}, expected ${network.chainId}`);
+    }
+    console.log(`🔗 Attached to the node at ${RPC_URL}`);
+    return null;
+  }
+
+  const { hostname, port } = new URL(RPC_URL);
+  console.log(`⛏️  Starting a Hardhat node at ${RPC_URL}`);
+  const node = spawn('npx', ['hardhat', 'node', '--hostname', hostname, '--port', port || '8545'], {
+    stdio: 'ignore'
+  });
+
+  const deadline = Date.now() + NODE_START_TIMEOUT;
+  while (Date.now() < deadline) {
+    if (node.exitCode !== null) {
+      throw new Error(`hardhat node exited with ${node.exitCode}`);
+    }
+    if (await getChainId(provider) !== null) return node;
+    await sleep(500);
+  }
+
+  node.kill();
+  throw new Error(`Hardhat node did not start within ${NODE_START_TIMEOUT / 1000}s`);
+}
+
+async function readArtifact(contractName: string) {
+  const file = path.join(process.cwd(), 'artifacts', 'contracts', `${contractName}.sol`, `${contractName}.json`);
+  const artifact = JSON.parse(await readFile(file, 'utf8'));
+  return { abi: artifact.abi, bytecode: artifact.bytecode as string };
+}
+
+async function deployContracts(provider: ethers.JsonRpcProvider): Promise<LocalDeployment> {
+  console.log('🔨 Compiling contracts...');
+  await run('npx', ['hardhat', 'compile', '--quiet']);
+
+  const deployer = await provider.getSigner(DEPLOYER_ACCOUNT);
+
+  const verifierArtifact = await readArtifact('PoEPVerifier');
+  const verifier = await new ethers.ContractFactory(verifierArtifact.abi, verifierArtifact.bytecode, deployer).deploy();
+  const verifierRecord = await describeDeployedContract(verifier);
+  console.log('✅ PoEPVerifier deployed to:', verifierRecord.address);
+
+  const baseURI = `${APP_URL}/api/metadata/`;
+  const poepArtifact = await readArtifact('PoEP');
+  const poep = await new ethers.ContractFactory(poepArtifact.abi, poepArtifact.bytecode, deployer)
+    .deploy(baseURI, verifierRecord.address);
+  const poepRecord = await describeDeployedContract(poep);
+  console.log('✅ PoEP deployed to:', poepRecord.address);
+
+  const { file } = updateDeployment(network.chainId, {
+    network: network.id,
+    deployer: deployer.address,
+    baseURI,
+    contracts: { verifier: verifierRecord, poep: poepRecord },
+    circuit: getCircuitHashes()
+  });
+  console.log(`📝 Recorded in ${file}`);
+
+  return { poep: poepRecord.address, verifier: verifierRecord.address };
+}
+
+/**
+ * Mint SEED_PASSPORTS with real proofs, then raise their scores in one batch
+ */
+async function seedPassports(provider: ethers.JsonRpcProvider, deployment: LocalDeployment) {
+  const { abi } = await readArtifact('PoEP');
+  const loader = fileArtifactLoader();
+  const users: string[] = [];
+
+  for (const seed of SEED_PASSPORTS) {
+    const signer = await provider.getSigner(seed.account);
+    // Any value below 2^128 stands in for the secret recovered from a face scan
+    const faceSecret = (BigInt(ethers.id(`poep-local-${seed.account}`)) >> 128n).toString();
+
+    const result = await proveFaceSecret(faceSecret, signer.address, network.chainId, { loader });
+    const proof = toSolidityProof(result.proof);
+
+    const poep = new ethers.Contract(deployment.poep, abi, signer);
+    await (await poep.mint(proof.pA, proof.pB, proof.pC, BigInt(result.nullifier))).wait();
+    users.push(signer.address);
+  }
+
+  const deployer = await provider.getSigner(DEPLOYER_ACCOUNT);
+  const poep = new ethers.Contract(deployment.poep, abi, deployer);
+  await (await poep.updateScores(users, SEED_PASSPORTS.map(seed => seed.delta))).wait();
+
+  for (const user of users) {
+    console.log(`🎫 Passport for ${user}: score ${await poep.viewTrustScore(user)}`);
+  }
+}
+
+/**
+ * App configuration for the local deployment, whose addresses the app reads
+ * from deployments/31337.json. Values that point elsewhere in a developer's
+ * .env.local (Redis, other networks) are overridden or blanked.
+ */
+function buildEnv(): Record<string, string> {
+  const relayerKey = hardhatWallet(DEPLOYER_ACCOUNT).privateKey;
+
+  return {
+    NEXT_PUBLIC_NETWORK: network.id,
+    NEXT_PUBLIC_LOCALHOST_RPC_URL: RPC_URL,
+    NEXT_PUBLIC_LOCALHOST_ACCOUNT: hardhatWallet(WALLET_ACCOUNT).address,
+    NEXT_PUBLIC_URL: APP_URL,
+    PRIVATE_KEY: relayerKey,
+    SCORE_UPDATER_PRIVATE_KEY: relayerKey,
+    INDEXER_STORE: 'sqlite',
+    INDEXER_SQLITE_PATH,
+    // Automine only produces blocks for transactions, so index without waiting
+    INDEXER_CONFIRMATIONS: '0',
+    // Keep mint jobs and nonces in memory rather than a shared Redis
+    KV_REST_API_URL: '',
+    KV_REST_API_TOKEN: ''
+  };
+}
+
+async function writeEnvFile(env: Record<string, string>) {
+  const lines = Object.entries(env).map(([key, value]) => `${key}="${value}"`);
+  await writeFile(
+    path.join(process.cwd(), ENV_FILE),
+    `# Written by npm run dev:local - local Hardhat deployment, do not commit\n${lines.join('\n')}\n`
+  );
+}
+
+async function main() {
+  const seed = !process.argv.includes('--no-seed');
+  const startApp = !process.argv.includes('--no-app');
+
+  const provider = new ethers.JsonRpcProvider(RPC_URL, network.chainId, { staticNetwork: true });
+  const node = await attachOrStartNode(provider);
+  const stopNode = () => node?.kill();
+  process.on('exit', stopNode);
+  process.on('SIGINT', () => process.exit(130));
+  process.on('SIGTERM', () => process.exit(143));
+
+  const deployment = await deployContracts(provider);
+  if (seed) {
+    console.log(`🌱 Seeding ${SEED_PASSPORTS.length} passports...`);
+    await seedPassports(provider, deployment);
+  }
+
+  const env = buildEnv();
+  await writeEnvFile(env);
+  // A new PoEP address makes the previous local index meaningless
+  await rm(path.join(process.cwd(), INDEXER_SQLITE_PATH), { force: true });
+  console.log(`📝 Wrote ${ENV_FILE}`);
+  console.log(`👛 App wallet: ${env.NEXT_PUBLIC_LOCALHOST_ACCOUNT} (Hardhat account #${WALLET_ACCOUNT})`);
+
+  if (startApp) {
+    await run('npx', ['next', 'dev'], { ...process.env, ...env });
+  } else if (node) {
+    console.log('⛏️  Hardhat node running - press Ctrl+C to stop');
+    await new Promise(resolve => node.on('exit', resolve));
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exit(1);
+  });
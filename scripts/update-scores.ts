@@ -0,0 +1,84 @@
+import './load-deployments.js';
+import { ethers } from 'ethers';
+import {
+  computeScores,
+  DEFAULT_BATCH_SIZE,
+  getPassportHolders,
+  submitScoreUpdates,
+  type ScoreBreakdown
+} from '../src/lib/scoreEngine';
+
+// Recompute trust scores and push the deltas to PoEP:
+//   npm run scores:update -- [--dry-run] [--batch-size N] [--min-delta N] [address ...]
+// Without addresses every passport holder is scored. Prints a per-address
+// breakdown, then the submitted batches.
+
+function parseArgs(argv: string[]) {
+  const options = { dryRun: false, batchSize: DEFAULT_BATCH_SIZE, minDelta: 1, addresses: [] as string[] };
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i];
+    if (arg === '--dry-run') {
+      options.dryRun = true;
+    } else if (arg === '--batch-size' || arg === '--min-delta') {
+      const value = Number(argv[++i]);
+      if (!Number.isInteger(value) || value < 1) {
+        throw new Error(`${arg} must be a positive integer`);
+      }
+      if (arg === '--batch-size') options.batchSize = value;
+      else options.minDelta = value;
+    } else if (ethers.isAddress(arg)) {
+      options.addresses.push(ethers.getAddress(arg));
+    } else {
+      throw new Error(`Unknown argument: ${arg}`);
+    }
+  }
+
+  return options;
+}
+
+function printBreakdown(breakdown: ScoreBreakdown) {
+  const change = breakdown.delta > 0 ? `+${breakdown.delta}` : `${breakdown.delta}`;
+  console.log(`\n${breakdown.address}  ${breakdown.status}${breakdown.reason ? ` (${breakdown.reason})` : ''}`);
+  if (breakdown.status === 'skipped') return;
+
+  console.log(`  score ${breakdown.currentScore} -> ${breakdown.targetScore} (${change})`);
+  for (const signal of breakdown.signals) {
+    const value = signal.value === null ? 'not configured' : Number(signal.value.toFixed(2));
+    console.log(`  ${signal.id.padEnd(20)} ${String(value).padStart(14)}  ${signal.points}/${signal.maxPoints}`);
+  }
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+
+  const addresses = options.addresses.length > 0 ? options.addresses : await getPassportHolders();
+  console.log(`📊 Scoring ${addresses.length} address(es)${options.dryRun ? ' (dry run)' : ''}`);
+
+  const breakdowns = await computeScores(addresses, { minDelta: options.minDelta });
+  breakdowns.forEach(printBreakdown);
+
+  const batches = await submitScoreUpdates(breakdowns, {
+    batchSize: options.batchSize,
+    dryRun: options.dryRun
+  });
+
+  console.log(`\n📦 ${batches.length} batch(es)`);
+  for (const batch of batches) {
+    const detail = batch.status === 'failed'
+      ? batch.error
+      : batch.txHashes.join(', ') || 'not sent';
+    console.log(`  ${batch.status} ${batch.mode} x${batch.users.length}: ${detail}${batch.gasUsed ? ` (gas ${batch.gasUsed})` : ''}`);
+  }
+
+  if (batches.some(batch => batch.status === 'failed')) {
+    process.exit(1);
+  }
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch(error => {
+    console.error('❌', error.message);
+    process.exit(1);
+  });
@@ -1,6 +1,6 @@
 // import type { Metadata } from 'next'; // Unused for now
 import '~/app/globals.css';
-import { Providers } from "./providers";
+import { Providers } from "~/app/providers";
 
 export default function RootLayout({
   children,
@@ -16,9 +16,6 @@ export default function RootLayout({
           <meta httpEquiv="X-XSS-Protection" content="1; mode=block" />
           <meta httpEquiv="Referrer-Policy" content="strict-origin-when-cross-origin" />
 
-          {/* Load snarkjs library */}
-          <script defer src="/snarkjs.min.js"></script>
-
           {/* Prevent ethereum property conflicts */}
           <script dangerouslySetInnerHTML={{
             __html: `
@@ -0,0 +1,109 @@
+import type { Metadata } from 'next';
+import { ethers } from 'ethers';
+import { APP_DEEP_LINK, APP_NAME } from '~/lib/constants';
+import { getPassportState } from '~/lib/passportState';
+import { formatScore, getRequiredScore, getTierForScore, type TierId } from '~/lib/tierPolicy';
+
+// Embeddable "Verified human" badge, framed by public/badge.js or an <iframe>:
+//   /badge/0x...?tier=silver or /badge/0x...?minScore=100
+// Drawn from on-chain state; sites cannot mark an address verified themselves.
+
+export const metadata: Metadata = {
+  title: `${APP_NAME} - Badge`,
+  robots: { index: false }
+};
+
+type BadgeState =
+  | { kind: 'verified'; tierName: string; trustScore: number }
+  | { kind: 'unverified'; message: string }
+  | { kind: 'invalid'; message: string };
+
+async function getBadgeState(
+  address: string,
+  query: { tier?: string; minScore?: string }
+): Promise<BadgeState> {
+  if (!ethers.isAddress(address)) {
+    return { kind: 'invalid', message: 'Invalid address' };
+  }
+
+  let requiredScore: number;
+  try {
+    requiredScore = getRequiredScore({
+      tier: query.tier as TierId | undefined,
+      minScore: query.minScore ? Number(query.minScore) : undefined
+    });
+  } catch (error: any) {
+    return { kind: 'invalid', message: error.message };
+  }
+  if (!Number.isFinite(requiredScore)) {
+    return { kind: 'invalid', message: 'Invalid minScore' };
+  }
+
+  try {
+    // Token ids are the owner's address, so the token is the passport
+    const state = await getPassportState(BigInt(ethers.getAddress(address)));
+    if (!state) {
+      return { kind: 'unverified', message: 'No passport yet' };
+    }
+    if (state.trustScore < requiredScore) {
+      return { kind: 'unverified', message: `Trust score below ${formatScore(requiredScore)}` };
+    }
+    return { kind: 'verified', tierName: getTierForScore(state.trustScore).name, trustScore: state.trustScore };
+  } catch (error: any) {
+    console.error('[BADGE] State lookup failed:', error.message);
+    return { kind: 'invalid', message: 'Verification unavailable' };
+  }
+}
+
+export default async function BadgePage({
+  params,
+  searchParams
+}: {
+  params: Promise<{ address: string }>;
+  searchParams: Promise<{ tier?: string; minScore?: string }>;
+}) {
+  const { address } = await params;
+  const state = await getBadgeState(address, await searchParams);
+
+  if (state.kind === 'verified') {
+    return (
+      <div className="card-primary m-1 flex items-center gap-3 rounded-xl border px-4 py-3">
+        <div className="w-9 h-9 bg-gradient-to-br from-primary-500 to-accent-500 rounded-lg flex items-center justify-center text-lg">
+          🛡️
+        </div>
+        <div className="flex-1 min-w-0">
+          <p className="text-sm font-semibold text-primary-800 dark:text-primary-200">✅ Verified human</p>
+          <p className="text-xs text-primary-600 dark:text-primary-300">
+            PoEP {state.tierName} · {formatScore(state.trustScore)}
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  // Misconfigured embeds and chain outages say so instead of asking for a passport
+  if (state.kind === 'invalid') {
+    return (
+      <div className="card m-1 flex items-center gap-3 rounded-xl border px-4 py-3">
+        <p className="text-sm text-neutral-500 dark:text-neutral-400">PoEP badge: {state.message}</p>
+      </div>
+    );
+  }
+
+  return (
+    <a
+      href={APP_DEEP_LINK}
+      target="_blank"
+      rel="noopener noreferrer"
+      className="card m-1 flex items-center gap-3 rounded-xl border px-4 py-3"
+    >
+      <div className="w-9 h-9 bg-neutral-100 dark:bg-neutral-800 rounded-lg flex items-center justify-center text-lg">
+        🛡️
+      </div>
+      <div className="flex-1 min-w-0">
+        <p className="text-sm font-semibold">{state.message}</p>
+        <p className="text-xs text-primary-600 dark:text-primary-300">Get your PoEP passport →</p>
+      </div>
+    </a>
+  );
+}
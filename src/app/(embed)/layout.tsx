@@ -0,0 +1,22 @@
+import '~/app/globals.css';
+
+// Root layout for pages other sites embed, such as the badge. They render on
+// the server from chain state, so none of the app's wallet providers,
+// snarkjs or passport event watchers are loaded here.
+export default function EmbedLayout({
+  children,
+}: {
+  children: React.ReactNode;
+}) {
+  return (
+    <html lang="en">
+      <head>
+        <meta httpEquiv="X-Content-Type-Options" content="nosniff" />
+        <meta httpEquiv="Referrer-Policy" content="strict-origin-when-cross-origin" />
+      </head>
+      <body className="bg-transparent text-gray-900 dark:text-gray-100">
+        {children}
+      </body>
+    </html>
+  );
+}
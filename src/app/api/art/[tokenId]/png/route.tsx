@@ -0,0 +1,82 @@
+import { ImageResponse } from "next/og";
+import { NextRequest, NextResponse } from "next/server";
+import {
+  buildIdenticon,
+  formatMintDate,
+  getNullifierFingerprint,
+  PASSPORT_ART_SIZE,
+  shortenAddress
+} from "~/lib/passportArt";
+import {
+  getPassportErrorHeaders,
+  getPassportEtag,
+  PASSPORT_CACHE_CONTROL,
+  resolvePassport
+} from "~/lib/passportState";
+import { formatScore, getTierForScore } from "~/lib/tierPolicy";
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Generated passport artwork (PNG) - same layout as the SVG route, for
+ * clients that cannot display SVG
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  const { tokenId } = await params;
+  const resolved = await resolvePassport(tokenId);
+
+  if ('error' in resolved) {
+    return NextResponse.json(
+      { error: resolved.error },
+      { status: resolved.status, headers: getPassportErrorHeaders(resolved.status) }
+    );
+  }
+
+  const { state } = resolved;
+  const etag = getPassportEtag(state, 'png');
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, {
+      status: 304,
+      headers: { 'Cache-Control': PASSPORT_CACHE_CONTROL, ETag: etag }
+    });
+  }
+
+  const { name, color: frame, background } = getTierForScore(state.trustScore);
+  const identicon = buildIdenticon(state.owner);
+
+  return new ImageResponse(
+    (
+      <div tw="flex h-full w-full flex-col items-center"
+           style={{ background, border: `12px solid ${frame}`, borderRadius: 24 }}>
+        <div tw="flex flex-col p-4 mt-12 rounded-2xl"
+             style={{ background: identicon.background, border: `4px solid ${frame}` }}>
+          {identicon.cells.map((row, y) => (
+            <div key={y} tw="flex">
+              {row.map((filled, x) => (
+                <div key={x} tw="w-8 h-8" style={{ background: filled ? identicon.color : 'transparent' }} />
+              ))}
+            </div>
+          ))}
+        </div>
+        <div tw="flex text-4xl font-bold mt-8" style={{ color: frame }}>{`PoEP ${name}`}</div>
+        <div tw="flex text-2xl mt-3 text-gray-700">{`Trust Score: ${formatScore(state.trustScore)}`}</div>
+        <div tw="flex text-lg mt-3 text-gray-600">{`Minted ${formatMintDate(state.mintedAt)}`}</div>
+        <div tw="flex text-lg mt-1 text-gray-600">{shortenAddress(state.owner)}</div>
+        <div tw="flex text-base mt-1 text-gray-500">{`Nullifier ${getNullifierFingerprint(state.nullifier)}`}</div>
+        <div tw="flex text-xl font-bold mt-auto mb-6" style={{ color: frame }}>Proof-of-Existence Passport</div>
+      </div>
+    ),
+    {
+      width: PASSPORT_ART_SIZE,
+      height: PASSPORT_ART_SIZE,
+      headers: {
+        'Cache-Control': PASSPORT_CACHE_CONTROL,
+        ETag: etag,
+        'Access-Control-Allow-Origin': '*'
+      }
+    }
+  );
+}
@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { renderPassportSvg } from '~/lib/passportArt';
+import {
+  getPassportErrorHeaders,
+  getPassportEtag,
+  PASSPORT_CACHE_CONTROL,
+  resolvePassport
+} from '~/lib/passportState';
+
+/**
+ * Generated passport artwork (SVG)
+ *
+ * Drawn from on-chain state on every request; the score query parameter set
+ * by the metadata route is only a cache-buster.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  const { tokenId } = await params;
+  const resolved = await resolvePassport(tokenId);
+
+  if ('error' in resolved) {
+    return NextResponse.json(
+      { error: resolved.error },
+      { status: resolved.status, headers: getPassportErrorHeaders(resolved.status) }
+    );
+  }
+
+  const etag = getPassportEtag(resolved.state, 'svg');
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, {
+      status: 304,
+      headers: { 'Cache-Control': PASSPORT_CACHE_CONTROL, ETag: etag }
+    });
+  }
+
+  return new NextResponse(renderPassportSvg(resolved.state), {
+    headers: {
+      'Cache-Control': PASSPORT_CACHE_CONTROL,
+      ETag: etag,
+      'Content-Type': 'image/svg+xml',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { SiweMessage } from 'siwe';
+import { getAppDomain } from '~/lib/auth';
+import { NETWORK } from '~/lib/networks';
+import { defaultRateLimit } from '~/lib/secureRateLimit';
+import {
+  consumeSiweNonce,
+  createSiweNonce,
+  createSiweSession,
+  deleteSiweSession
+} from '~/lib/siweSession';
+
+// Production logging utility
+function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
+  if (process.env.NODE_ENV === 'development') {
+    console[level](`[SIWE] ${message}`, data || '');
+  }
+}
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+// Smart contract wallets sign with ERC-1271, which SIWE checks on chain
+function getProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(NETWORK.rpcUrls[0], undefined, { staticNetwork: true });
+  }
+  return provider;
+}
+
+async function checkRateLimit(request: NextRequest, bucket: string, limit: number): Promise<NextResponse | null> {
+  const identifier = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'anonymous';
+
+  const rateLimitResult = await defaultRateLimit.check(`${bucket}:${identifier}`, limit, {
+    userAgent: request.headers.get('user-agent') || '',
+    ip: identifier
+  });
+
+  if (rateLimitResult.blocked || rateLimitResult.remaining < 0) {
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded. Please try again later.',
+        retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+      },
+      { status: 429 }
+    );
+  }
+  return null;
+}
+
+/**
+ * Sign-In with Ethereum
+ *
+ * GET returns a nonce for the SIWE message. POST takes the signed message and
+ * returns a session token for `Authorization: SIWE <token>`. DELETE ends the
+ * session in the Authorization header.
+ */
+export async function GET(request: NextRequest) {
+  // Every nonce is stored until it expires, so issuing them is limited too
+  const limited = await checkRateLimit(request, 'siwe-nonce', 20);
+  if (limited) return limited;
+
+  const nonce = await createSiweNonce();
+  return NextResponse.json({ nonce });
+}
+
+export async function POST(request: NextRequest) {
+  const limited = await checkRateLimit(request, 'siwe', 10);
+  if (limited) return limited;
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (_error) {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const { message, signature } = body || {};
+  if (typeof message !== 'string' || typeof signature !== 'string') {
+    return NextResponse.json(
+      { error: 'Request must include message and signature', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+
+  let siweMessage: SiweMessage;
+  try {
+    siweMessage = new SiweMessage(message);
+  } catch (_error) {
+    return NextResponse.json({ error: 'Malformed SIWE message', code: 'VALIDATION_ERROR' }, { status: 400 });
+  }
+
+  if (siweMessage.chainId !== NETWORK.chainId) {
+    return NextResponse.json(
+      { error: `SIWE message must be for chain ${NETWORK.chainId}`, code: 'WRONG_CHAIN' },
+      { status: 400 }
+    );
+  }
+
+  const { success, error } = await siweMessage.verify(
+    { signature, domain: getAppDomain(request), nonce: siweMessage.nonce },
+    { provider: getProvider(), suppressExceptions: true }
+  );
+  if (!success) {
+    secureLog('warn', 'SIWE verification failed', { reason: error?.type });
+    return NextResponse.json(
+      { error: error?.type || 'Invalid signature', code: 'AUTHENTICATION_FAILED' },
+      { status: 401 }
+    );
+  }
+
+  // Checked after the signature so a bad request cannot burn someone's nonce
+  if (!(await consumeSiweNonce(siweMessage.nonce))) {
+    return NextResponse.json(
+      { error: 'Unknown, expired or already used nonce', code: 'INVALID_NONCE' },
+      { status: 401 }
+    );
+  }
+
+  const { token, session } = await createSiweSession(
+    siweMessage.address as `0x${string}`,
+    siweMessage.chainId
+  );
+
+  secureLog('info', 'Session created', { address: session.address });
+  return NextResponse.json({
+    token,
+    address: session.address,
+    expiresAt: new Date(session.expiresAt).toISOString()
+  });
+}
+
+export async function DELETE(request: NextRequest) {
+  const [scheme, token] = (request.headers.get('authorization') || '').trim().split(/\s+/, 2);
+  if (scheme?.toLowerCase() === 'siwe' && token) {
+    await deleteSiweSession(token);
+  }
+  return new NextResponse(null, { status: 204 });
+}
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { validateQuickAuthToken } from '~/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
@@ -12,32 +13,16 @@ export async function POST(request: NextRequest) {
     }
 
     // Validate JWT token with Farcaster's auth server
-    const validationResponse = await fetch('https://auth.farcaster.xyz/v1/validate', {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-      },
-      body: JSON.stringify({ token }),
-    });
+    const user = await validateQuickAuthToken(token);
 
-    if (!validationResponse.ok) {
+    if (!user) {
       return NextResponse.json(
         { error: 'Token validation failed' },
         { status: 401 }
       );
     }
 
-    const validationData = await validationResponse.json();
-
-    // Extract user data from validated token
-    const payload = JSON.parse(atob(token.split('.')[1]));
-
-    return NextResponse.json({
-      user: {
-        fid: payload.sub,
-        ...validationData.user
-      }
-    });
+    return NextResponse.json({ user });
 
   } catch (error) {
     console.error('Token validation error:', error);
@@ -0,0 +1,80 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { getPassportStatuses, MAX_BATCH_ADDRESSES } from '~/lib/passportBatch';
+import { defaultRateLimit } from '~/lib/secureRateLimit';
+
+// Production logging utility
+function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
+  if (process.env.NODE_ENV === 'development') {
+    console[level](`[CHECK-POEP-BATCH] ${message}`, data || '');
+  }
+}
+
+/**
+ * Passport status for many addresses at once, for allowlist and airdrop
+ * tooling. Body: `{ addresses: string[] }` with up to MAX_BATCH_ADDRESSES
+ * entries. Results are keyed by checksummed address.
+ */
+export async function POST(request: NextRequest) {
+  const identifier = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'anonymous';
+
+  const rateLimitResult = await defaultRateLimit.check(`check-poep-batch:${identifier}`, 10, {
+    userAgent: request.headers.get('user-agent') || '',
+    ip: identifier
+  });
+
+  if (rateLimitResult.blocked || rateLimitResult.remaining < 0) {
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded. Please try again later.',
+        retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+      },
+      { status: 429 }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (_error) {
+    return NextResponse.json({ error: 'Invalid JSON payload' }, { status: 400 });
+  }
+
+  const addresses = body?.addresses;
+  if (!Array.isArray(addresses) || addresses.length === 0) {
+    return NextResponse.json(
+      { error: 'Request must include a non-empty addresses array', code: 'VALIDATION_ERROR' },
+      { status: 400 }
+    );
+  }
+  if (addresses.length > MAX_BATCH_ADDRESSES) {
+    return NextResponse.json(
+      { error: `At most ${MAX_BATCH_ADDRESSES} addresses per request`, code: 'BATCH_TOO_LARGE' },
+      { status: 400 }
+    );
+  }
+
+  const invalid = addresses.filter(address => typeof address !== 'string' || !ethers.isAddress(address));
+  if (invalid.length > 0) {
+    return NextResponse.json(
+      { error: 'Invalid address format', code: 'INVALID_ADDRESS', invalid },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const results = await getPassportStatuses(addresses);
+    const count = Object.keys(results).length;
+
+    secureLog('info', 'Batch resolved', { count });
+    return NextResponse.json({ results, count });
+  } catch (error) {
+    secureLog('error', 'Batch lookup failed', { error: (error as Error).message });
+    return NextResponse.json(
+      { error: 'Blockchain service temporarily unavailable', code: 'NETWORK_ERROR' },
+      { status: 503 }
+    );
+  }
+}
@@ -1,15 +1,49 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
+import { NETWORK } from '~/lib/networks';
+import { readThroughPassport, type CachedPassport } from '~/lib/passportCache';
+import { defaultRateLimit } from '~/lib/secureRateLimit';
 
-// Environment-specific contract addresses
-const isProduction = process.env.NODE_ENV === 'production' || process.env.NEXT_PUBLIC_ENVIRONMENT === 'production';
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep;
 
-const POEP_CONTRACT_ADDRESS = isProduction
-  ? process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_MAINNET
-  : process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_SEPOLIA;
+const RPC_URL = NETWORK.rpcUrls[0];
 
-const BASE_RPC_URL = process.env.BASE_MAINNET_RPC || 'https://mainnet.base.org';
+const contractABI = [
+  "function viewTrustScore(address user) external view returns (uint256)",
+  "function ownerOf(uint256 tokenId) external view returns (address)"
+];
 
+// Production logging utility
+function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
+  if (process.env.NODE_ENV === 'development') {
+    console[level](`[CHECK-POEP] ${message}`, data || '');
+  }
+}
+
+async function loadPassport(address: string): Promise<CachedPassport> {
+  const provider = new ethers.JsonRpcProvider(RPC_URL, undefined, { staticNetwork: true });
+  const contract = new ethers.Contract(POEP_CONTRACT_ADDRESS!, contractABI, provider);
+
+  // In PoEP contract, tokenId = uint256(uint160(userAddress))
+  let owner: string | null = null;
+  try {
+    owner = await contract.ownerOf(BigInt(address));
+  } catch (error: any) {
+    // ownerOf reverts for tokens that were never minted or were burned
+    if (error.code !== 'CALL_EXCEPTION') throw error;
+  }
+
+  const hasPassport = owner !== null && owner.toLowerCase() === address.toLowerCase();
+  const trustScore = hasPassport ? Number(await contract.viewTrustScore(address)) : 0;
+
+  return { hasPassport, trustScore };
+}
+
+/**
+ * Passport status of one address. Reads go through the passport cache;
+ * `fresh=1` skips it, e.g. right after a mint or score event. Fresh reads
+ * always hit the RPC, so they are rate limited per client.
+ */
 export async function GET(request: NextRequest) {
   try {
     const { searchParams } = new URL(request.url);
@@ -40,86 +74,45 @@ export async function GET(request: NextRequest) {
       );
     }
 
-    console.log('[CHECK-POEP] Checking PoEP status for:', normalizedAddress);
-    console.log('[CHECK-POEP] Contract address:', POEP_CONTRACT_ADDRESS);
-    console.log('[CHECK-POEP] RPC URL:', BASE_RPC_URL);
-
-    // Connect to Base network
-    const provider = new ethers.JsonRpcProvider(BASE_RPC_URL);
-
-    // Load contract ABI with correct function signatures
-    const contractABI = [
-      "function balanceOf(address owner) external view returns (uint256)",
-      "function viewTrustScore(address user) external view returns (uint256)",
-      "function tokenOfOwnerByIndex(address owner, uint256 index) external view returns (uint256)",
-      "function ownerOf(uint256 tokenId) external view returns (address)"
-    ];
-
-    const contract = new ethers.Contract(POEP_CONTRACT_ADDRESS, contractABI, provider);
-
-    // In PoEP contract, tokenId = uint256(uint160(userAddress))
-    // So we can directly check if the token exists for this address
-    const tokenId = BigInt(normalizedAddress);
-    console.log('[CHECK-POEP] Calculated tokenId:', tokenId.toString());
-
-    let hasPoEP = false;
-    let owner = null;
-    try {
-      // Try to get the owner of the tokenId derived from the address
-      owner = await contract.ownerOf(tokenId);
-      console.log('[CHECK-POEP] Owner of tokenId:', owner);
-      hasPoEP = owner.toLowerCase() === normalizedAddress.toLowerCase();
-      console.log('[CHECK-POEP] hasPoEP:', hasPoEP);
-    } catch (error) {
-      console.log('[CHECK-POEP] ownerOf failed (token does not exist):', error.message);
-      hasPoEP = false;
-    }
-
-    // Also check balanceOf for verification
-    console.log('[CHECK-POEP] Calling balanceOf...');
-    const balance = await contract.balanceOf(normalizedAddress);
-    console.log('[CHECK-POEP] Balance result:', balance.toString());
-
-    let trustScore = 0;
-    let returnTokenId = null;
-    if (hasPoEP) {
-      try {
-        // Get trust score using viewTrustScore (view function, no fee)
-        const score = await contract.viewTrustScore(normalizedAddress);
-        trustScore = parseInt(score.toString());
-        console.log('[CHECK-POEP] Trust score:', trustScore);
-
-        // Use the calculated tokenId (convert BigInt to string)
-        returnTokenId = tokenId.toString();
-      } catch (_error) {
-        console.log('[CHECK-POEP] Error fetching trust score:', _error.message);
-        // Default to 0 if can't fetch
-        trustScore = 0;
-        returnTokenId = null;
+    const fresh = searchParams.get('fresh') === '1';
+    if (fresh) {
+      const identifier = request.headers.get('x-forwarded-for') ||
+                        request.headers.get('x-real-ip') ||
+                        'anonymous';
+
+      const rateLimitResult = await defaultRateLimit.check(`check-poep-fresh:${identifier}`, 30, {
+        userAgent: request.headers.get('user-agent') || '',
+        ip: identifier
+      });
+
+      if (rateLimitResult.blocked || rateLimitResult.remaining < 0) {
+        return NextResponse.json(
+          {
+            error: 'Rate limit exceeded. Please try again later.',
+            retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+          },
+          { status: 429 }
+        );
       }
     }
 
+    const { hasPassport, trustScore } = await readThroughPassport(
+      normalizedAddress,
+      () => loadPassport(normalizedAddress),
+      { fresh }
+    );
+
     const result = {
-      hasPoEP,
+      hasPoEP: hasPassport,
       trustScore,
-      balance: balance.toString(),
-      tokenId: returnTokenId,
+      // Passports are soul-bound and one per address
+      balance: hasPassport ? '1' : '0',
+      tokenId: hasPassport ? BigInt(normalizedAddress).toString() : null,
       userAddress: normalizedAddress
     };
 
-    console.log('[CHECK-POEP] Final result:', JSON.stringify(result, (key, value) =>
-      typeof value === 'bigint' ? value.toString() : value
-    ));
-
-    // Serialize the result with BigInt handling
-    const jsonString = JSON.stringify(result, (key, value) =>
-      typeof value === 'bigint' ? value.toString() : value
-    );
-
-    return new Response(jsonString, {
-      status: 200,
-      headers: { 'Content-Type': 'application/json' }
-    });
+    secureLog('info', 'Checked PoEP status', result);
+    return NextResponse.json(result);
 
   } catch (error) {
     console.error('Check PoEP error:', error);
@@ -128,4 +121,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
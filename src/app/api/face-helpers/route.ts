@@ -0,0 +1,25 @@
+import { NextResponse } from 'next/server';
+import { listFaceHelpers } from '~/lib/faceHelperRegistry';
+import { FUZZY_EXTRACTOR_VERSION } from '~/lib/fuzzyExtractor';
+
+/**
+ * Face helpers published by confirmed relayed mints (see
+ * faceHelperRegistry.ts). The prover tries them before enrolling a face, so a
+ * face that already holds a passport derives its nullifier again on any
+ * device. New mints only add to the list, so it is cached briefly.
+ */
+export async function GET() {
+  try {
+    const helpers = await listFaceHelpers();
+    return NextResponse.json(
+      { version: FUZZY_EXTRACTOR_VERSION, helpers },
+      { headers: { 'Cache-Control': 'public, max-age=30, s-maxage=30, stale-while-revalidate=60' } }
+    );
+  } catch (error) {
+    console.error('Face helper list error:', error);
+    return NextResponse.json(
+      { error: 'Failed to load face helpers' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
@@ -1,7 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
-
-const BASESCAN_API_KEY = process.env.BASESCAN_API_KEY;
+import { BaseScanError, getFirstTransaction, isBaseScanConfigured } from '~/lib/walletActivity';
+
+async function getFallbackHash(address: string): Promise<string> {
+  const addressHash = Buffer.from(
+    await crypto.subtle.digest('SHA-256', new TextEncoder().encode(address.toLowerCase()))
+  );
+  return '0x' + Array.from(addressHash)
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('');
+}
 
 export async function POST(request: NextRequest) {
   try {
@@ -14,38 +22,26 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    if (!BASESCAN_API_KEY) {
+    if (!isBaseScanConfigured()) {
       // Fallback to address-based hash if no API key
-      const addressHash = Buffer.from(
-        await crypto.subtle.digest('SHA-256', new TextEncoder().encode(address.toLowerCase()))
-      );
-      const fallbackHash = '0x' + Array.from(addressHash)
-        .map(b => b.toString(16).padStart(2, '0'))
-        .join('');
-
-      return NextResponse.json({ txHash: fallbackHash });
+      return NextResponse.json({ txHash: await getFallbackHash(address) });
     }
 
     // Query BaseScan API for user's first transaction
-    const apiUrl = `https://api.basescan.org/api?module=account&action=txlist&address=${address}&startblock=0&endblock=99999999&page=1&offset=1&sort=asc&apikey=${BASESCAN_API_KEY}`;
-
-    const response = await fetch(apiUrl);
-    const data = await response.json();
+    let firstTx;
+    try {
+      firstTx = await getFirstTransaction(address);
+    } catch (error) {
+      if (!(error instanceof BaseScanError)) throw error;
+      firstTx = null;
+    }
 
-    if (data.status === '1' && data.result && data.result.length > 0) {
-      const firstTx = data.result[0];
+    if (firstTx) {
       return NextResponse.json({ txHash: firstTx.hash });
     }
 
     // Fallback: use deterministic hash based on address
-    const addressHash = Buffer.from(
-      await crypto.subtle.digest('SHA-256', new TextEncoder().encode(address.toLowerCase()))
-    );
-    const fallbackHash = '0x' + Array.from(addressHash)
-      .map(b => b.toString(16).padStart(2, '0'))
-      .join('');
-
-    return NextResponse.json({ txHash: fallbackHash });
+    return NextResponse.json({ txHash: await getFallbackHash(address) });
 
   } catch (error) {
     console.error('Error fetching first transaction:', error);
@@ -5,7 +5,16 @@
 
 import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import {
+  findMissingVerifierConstants,
+  matchesManifestEntry,
+  type CircuitArtifactManifest
+} from '~/lib/circuitManifest';
 import { validateEnvironment } from '~/lib/environmentValidator';
+import { getContractEnvName, NETWORK } from '~/lib/networks';
+import { getPassportCacheStats, pingPassportCache } from '~/lib/passportCache';
 import { logger, SecurityError } from '~/lib/secureErrorHandler';
 import { defaultRateLimit } from '~/lib/secureRateLimit';
 
@@ -23,6 +32,8 @@ interface HealthStatus {
     blockchain: HealthCheckResult;
     rateLimit: HealthCheckResult;
     circuitFiles: HealthCheckResult;
+    deployment: HealthCheckResult;
+    passportCache: HealthCheckResult;
   };
   uptime: number;
 }
@@ -118,7 +129,9 @@ export async function GET(request: NextRequest): Promise<NextResponse> {
         environment: { status: 'fail', message: 'Health check system failure' },
         blockchain: { status: 'fail', message: 'Not checked due to system error' },
         rateLimit: { status: 'fail', message: 'Not checked due to system error' },
-        circuitFiles: { status: 'fail', message: 'Not checked due to system error' }
+        circuitFiles: { status: 'fail', message: 'Not checked due to system error' },
+        deployment: { status: 'fail', message: 'Not checked due to system error' },
+        passportCache: { status: 'fail', message: 'Not checked due to system error' }
       }
     };
 
@@ -142,7 +155,9 @@ async function performHealthCheck(): Promise<HealthStatus> {
     environment: await checkEnvironment(),
     blockchain: await checkBlockchainConnectivity(),
     rateLimit: await checkRateLimitSystem(),
-    circuitFiles: await checkCircuitFiles()
+    circuitFiles: await checkCircuitFiles(),
+    deployment: await checkDeployment(),
+    passportCache: await checkPassportCache()
   };
 
   // Determine overall health status
@@ -230,7 +245,7 @@ async function checkBlockchainConnectivity(): Promise<HealthCheckResult> {
   const checkStart = Date.now();
   
   try {
-    const rpcUrl = process.env.BASE_MAINNET_RPC || 'https://mainnet.base.org';
+    const rpcUrl = NETWORK.rpcUrls[0];
 
     if (!rpcUrl) {
       return {
@@ -252,7 +267,7 @@ async function checkBlockchainConnectivity(): Promise<HealthCheckResult> {
     const responseTime = Date.now() - checkStart;
 
     // Check if we're connected to the expected network
-    const expectedChainId = process.env.NODE_ENV === 'production' ? 8453n : 84532n; // Base mainnet : Base Sepolia
+    const expectedChainId = BigInt(NETWORK.chainId);
 
     if (network.chainId !== expectedChainId) {
       return {
@@ -262,6 +277,7 @@ async function checkBlockchainConnectivity(): Promise<HealthCheckResult> {
         details: {
           chainId: network.chainId.toString(),
           expected: expectedChainId.toString(),
+          network: NETWORK.id,
           name: network.name
         }
       };
@@ -273,6 +289,7 @@ async function checkBlockchainConnectivity(): Promise<HealthCheckResult> {
       responseTime,
       details: {
         chainId: network.chainId.toString(),
+        network: NETWORK.id,
         name: network.name
       }
     };
@@ -327,7 +344,8 @@ async function checkRateLimitSystem(): Promise<HealthCheckResult> {
 }
 
 /**
- * Check ZK circuit files availability
+ * Check ZK circuit files: availability, hashes against the artifact manifest,
+ * and that the deployed PoEPVerifier was built from public/verification_key.json
  */
 async function checkCircuitFiles(): Promise<HealthCheckResult> {
   const checkStart = Date.now();
@@ -371,12 +389,39 @@ async function checkCircuitFiles(): Promise<HealthCheckResult> {
         details: results
       };
     }
+
+    // Hash the files on disk against the manifest
+    const publicDir = path.join(process.cwd(), 'public');
+    const manifest: CircuitArtifactManifest = JSON.parse(
+      await readFile(path.join(publicDir, 'circuit-manifest.json'), 'utf8')
+    );
+
+    const integrity = await Promise.all(
+      Object.entries(manifest.artifacts).map(async ([name, entry]) => ({
+        artifact: name,
+        matches: await matchesManifestEntry(new Uint8Array(await readFile(path.join(publicDir, entry.path))), entry)
+      }))
+    );
+    const tampered = integrity.filter(result => !result.matches).map(result => result.artifact);
+
+    if (tampered.length > 0) {
+      return {
+        status: 'fail',
+        message: `Circuit artifacts do not match the manifest: ${tampered.join(', ')}`,
+        responseTime: Date.now() - checkStart,
+        details: { files: results, integrity, circuitVersion: manifest.version }
+      };
+    }
+
+    const verifier = await checkDeployedVerifier(manifest, publicDir);
     
     return {
-      status: 'pass',
-      message: 'All circuit files are accessible',
+      status: verifier.status,
+      message: verifier.status === 'pass'
+        ? `Circuit v${manifest.version} artifacts match the manifest and deployed verifier`
+        : verifier.message,
       responseTime: Date.now() - checkStart,
-      details: results
+      details: { files: results, integrity, circuitVersion: manifest.version, verifier: verifier.details }
     };
   } catch (error) {
     return {
@@ -388,6 +433,186 @@ async function checkCircuitFiles(): Promise<HealthCheckResult> {
   }
 }
 
+/**
+ * Compare public/verification_key.json with the constants embedded in the
+ * configured PoEPVerifier, and the configured address with the manifest
+ */
+async function checkDeployedVerifier(
+  manifest: CircuitArtifactManifest,
+  publicDir: string
+): Promise<HealthCheckResult> {
+  const chainId = String(NETWORK.chainId);
+  const verifierAddress = NETWORK.contracts.verifier;
+
+  if (!verifierAddress || !ethers.isAddress(verifierAddress)) {
+    return {
+      status: 'warn',
+      message: 'PoEPVerifier address not configured',
+      details: { chainId, variable: getContractEnvName('verifier') }
+    };
+  }
+
+  const manifestAddress = manifest.verifiers[chainId];
+  if (manifestAddress && manifestAddress.toLowerCase() !== verifierAddress.toLowerCase()) {
+    return {
+      status: 'fail',
+      message: 'Configured PoEPVerifier differs from the artifact manifest',
+      details: { chainId, configured: verifierAddress, manifest: manifestAddress }
+    };
+  }
+
+  const provider = new ethers.JsonRpcProvider(NETWORK.rpcUrls[0]);
+  const bytecode = await Promise.race([
+    provider.getCode(verifierAddress),
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error('Verifier bytecode fetch timeout')), HEALTH_CHECK_TIMEOUT)
+    )
+  ]);
+
+  if (bytecode === '0x') {
+    return { status: 'fail', message: 'No PoEPVerifier deployed at the configured address', details: { chainId, address: verifierAddress } };
+  }
+
+  const verificationKey = JSON.parse(await readFile(path.join(publicDir, manifest.artifacts.verificationKey.path), 'utf8'));
+  const missing = findMissingVerifierConstants(bytecode, verificationKey);
+
+  if (missing.length > 0) {
+    return {
+      status: 'fail',
+      message: 'public/verification_key.json does not match the deployed PoEPVerifier',
+      details: { chainId, address: verifierAddress, mismatched: missing }
+    };
+  }
+
+  return {
+    status: manifestAddress ? 'pass' : 'warn',
+    message: manifestAddress
+      ? 'Deployed PoEPVerifier matches the verification key'
+      : 'Deployed PoEPVerifier matches the verification key but is not recorded in the manifest',
+    details: { chainId, address: verifierAddress }
+  };
+}
+
+/**
+ * Compare the selected network's deployment record with the environment, the
+ * artifact manifest and the chain
+ */
+async function checkDeployment(): Promise<HealthCheckResult> {
+  const checkStart = Date.now();
+  const chainId = NETWORK.chainId;
+  const deployment = NETWORK.deployment;
+  const registryFile = `deployments/${chainId}.json`;
+
+  if (!deployment) {
+    return {
+      status: 'warn',
+      message: `No deployment recorded in ${registryFile} - contract addresses come from the environment`,
+      responseTime: Date.now() - checkStart,
+      details: { chainId, contracts: NETWORK.contracts }
+    };
+  }
+
+  try {
+    const failures: string[] = [];
+    const warnings: string[] = [];
+
+    // Recorded addresses win; a different address in the environment is stale
+    for (const contract of ['poep', 'verifier'] as const) {
+      const variable = getContractEnvName(contract);
+      const fromEnv = process.env[variable];
+      const recorded = deployment.contracts[contract]?.address;
+      if (fromEnv && recorded && fromEnv.toLowerCase() !== recorded.toLowerCase()) {
+        warnings.push(`${variable} differs from ${registryFile} and is ignored`);
+      }
+    }
+
+    const manifest: CircuitArtifactManifest = JSON.parse(
+      await readFile(path.join(process.cwd(), 'public', 'circuit-manifest.json'), 'utf8')
+    );
+    if (deployment.circuit) {
+      if (deployment.circuit.verificationKeySha256 !== manifest.artifacts.verificationKey.sha256) {
+        failures.push('Recorded PoEPVerifier was built from a different verification key than the manifest');
+      }
+      if (deployment.circuit.zkeySha256 !== manifest.artifacts.zkey.sha256) {
+        failures.push('Recorded PoEPVerifier was built from a different zkey than the manifest');
+      }
+    }
+
+    const poepAddress = deployment.contracts.poep?.address;
+    const verifierAddress = deployment.contracts.verifier?.address;
+    if (poepAddress) {
+      const provider = new ethers.JsonRpcProvider(NETWORK.rpcUrls[0]);
+      const poep = new ethers.Contract(poepAddress, ['function zkVerifier() view returns (address)'], provider);
+      const [bytecode, zkVerifier] = await Promise.race([
+        Promise.all([
+          provider.getCode(poepAddress),
+          poep.zkVerifier().catch(() => null) as Promise<string | null>
+        ]),
+        new Promise<never>((_, reject) =>
+          setTimeout(() => reject(new Error('Deployment check timeout')), HEALTH_CHECK_TIMEOUT)
+        )
+      ]);
+
+      if (bytecode === '0x') {
+        failures.push(`No PoEP deployed at ${poepAddress}`);
+      } else if (verifierAddress && zkVerifier && zkVerifier.toLowerCase() !== verifierAddress.toLowerCase()) {
+        failures.push(`PoEP uses verifier ${zkVerifier}, not the recorded ${verifierAddress}`);
+      }
+    }
+
+    const issues = [...failures, ...warnings];
+    return {
+      status: failures.length > 0 ? 'fail' : warnings.length > 0 ? 'warn' : 'pass',
+      message: issues.length > 0 ? issues.join('; ') : `${registryFile} matches the chain and the artifact manifest`,
+      responseTime: Date.now() - checkStart,
+      details: {
+        chainId,
+        network: deployment.network,
+        contracts: deployment.contracts,
+        circuit: deployment.circuit,
+        updatedAt: deployment.updatedAt
+      }
+    };
+  } catch (error) {
+    return {
+      status: 'fail',
+      message: 'Deployment check failed',
+      responseTime: Date.now() - checkStart,
+      details: error instanceof Error ? error.message : 'Check failed'
+    };
+  }
+}
+
+/**
+ * Check the passport cache store and report hit/miss counts for this
+ * instance. An unreachable store only slows reads down, so it is a warning.
+ */
+async function checkPassportCache(): Promise<HealthCheckResult> {
+  const checkStart = Date.now();
+  const stats = getPassportCacheStats();
+
+  try {
+    await pingPassportCache();
+
+    return {
+      status: 'pass',
+      message: `Passport cache (${stats.store}) is operational`,
+      responseTime: Date.now() - checkStart,
+      details: stats
+    };
+  } catch (error) {
+    return {
+      status: 'warn',
+      message: 'Passport cache unreachable, reads go to the chain',
+      responseTime: Date.now() - checkStart,
+      details: {
+        ...stats,
+        error: error instanceof Error ? error.message : 'Cache error'
+      }
+    };
+  }
+}
+
 /**
  * OPTIONS handler for CORS preflight
  */
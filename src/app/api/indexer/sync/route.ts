@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { syncIndexer } from '~/lib/indexer';
+
+const CRON_SECRET = process.env.CRON_SECRET;
+
+// Leave headroom under the 10s function limit in vercel.json
+const SYNC_BUDGET_MS = 7000;
+
+// Production logging utility
+function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
+  if (process.env.NODE_ENV === 'development') {
+    console[level](`[INDEXER] ${message}`, data || '');
+  }
+}
+
+/**
+ * Advance the event indexer - for a scheduler such as Vercel Cron, which
+ * sends `Authorization: Bearer ${CRON_SECRET}`. Each call indexes as many
+ * block ranges as fit in its time budget and resumes from the stored cursor.
+ */
+export async function GET(request: NextRequest) {
+  if (!CRON_SECRET) {
+    return NextResponse.json(
+      { error: 'Indexer sync is not configured', code: 'NOT_CONFIGURED' },
+      { status: 503 }
+    );
+  }
+
+  if (request.headers.get('authorization') !== `Bearer ${CRON_SECRET}`) {
+    return NextResponse.json({ error: 'Unauthorized', code: 'UNAUTHORIZED' }, { status: 401 });
+  }
+
+  try {
+    const result = await syncIndexer({ deadline: Date.now() + SYNC_BUDGET_MS });
+    secureLog('info', 'Sync step complete', result);
+    return NextResponse.json(result, { headers: { 'Cache-Control': 'no-store' } });
+  } catch (error: any) {
+    secureLog('error', 'Sync step failed', error.message);
+    return NextResponse.json(
+      { error: 'Indexer sync failed', code: 'SYNC_FAILED' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
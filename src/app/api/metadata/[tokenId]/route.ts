@@ -0,0 +1,113 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  getPassportErrorHeaders,
+  getPassportEtag,
+  PASSPORT_CACHE_CONTROL,
+  resolvePassport
+} from '~/lib/passportState';
+import { getTierForScore, SCORE_MAX } from '~/lib/tierPolicy';
+
+/**
+ * PoEP token metadata
+ *
+ * Target of PoEP.tokenURI (baseURI + tokenId + "?score=" + score). The score
+ * and owner are always read from the contract - the score query parameter is
+ * only a cache-buster for marketplaces and is ignored.
+ */
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ tokenId: string }> }
+) {
+  const baseUrl = process.env.NEXT_PUBLIC_URL;
+  if (!baseUrl) {
+    throw new Error('NEXT_PUBLIC_URL environment variable is required');
+  }
+
+  const { tokenId } = await params;
+  const resolved = await resolvePassport(tokenId);
+
+  if ('error' in resolved) {
+    return NextResponse.json(
+      { error: resolved.error },
+      { status: resolved.status, headers: getPassportErrorHeaders(resolved.status) }
+    );
+  }
+
+  const { state } = resolved;
+
+  // Revalidation is cheap for clients that already have this score
+  const etag = getPassportEtag(state, 'metadata');
+  if (request.headers.get('if-none-match') === etag) {
+    return new NextResponse(null, {
+      status: 304,
+      headers: { 'Cache-Control': PASSPORT_CACHE_CONTROL, ETag: etag }
+    });
+  }
+
+  const tier = getTierForScore(state.trustScore);
+
+  const attributes: { trait_type: string; value: string | number; display_type?: string; max_value?: number }[] = [
+    {
+      trait_type: 'Trust Score',
+      value: state.trustScore,
+      display_type: 'number',
+      max_value: SCORE_MAX
+    },
+    {
+      trait_type: 'Tier',
+      value: tier.name
+    },
+    {
+      trait_type: 'Owner',
+      value: state.owner
+    },
+    {
+      trait_type: 'Type',
+      value: 'Soul-bound'
+    },
+    {
+      trait_type: 'Verification',
+      value: 'ZK Proof'
+    },
+    {
+      trait_type: 'Network',
+      value: 'Base'
+    },
+    {
+      trait_type: 'Privacy',
+      value: 'Preserved'
+    }
+  ];
+
+  if (state.mintedAt) {
+    attributes.push({
+      trait_type: 'Minted',
+      value: state.mintedAt,
+      display_type: 'date'
+    });
+  }
+
+  // Generated artwork; the score query makes image caches follow score updates
+  const artUrl = `${baseUrl}/api/art/${state.tokenId}`;
+
+  const metadata = {
+    name: `PoEP ${tier.name} #${state.tokenId}`,
+    description: `A soul-bound NFT proving unique human identity with a trust score of ${state.trustScore}/${SCORE_MAX}. ${tier.description}. Secured by zero-knowledge proofs and tied to Base transactions.`,
+    image: `${artUrl}?score=${state.trustScore}`,
+    image_png: `${artUrl}/png?score=${state.trustScore}`,
+    external_url: baseUrl,
+    // OpenSea expects hex without the leading #
+    background_color: tier.background.slice(1),
+    attributes
+  };
+
+  return NextResponse.json(metadata, {
+    headers: {
+      'Cache-Control': PASSPORT_CACHE_CONTROL,
+      ETag: etag,
+      'Content-Type': 'application/json',
+      'Access-Control-Allow-Origin': '*'
+    }
+  });
+}
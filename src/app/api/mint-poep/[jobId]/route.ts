@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { defaultRateLimit } from '~/lib/secureRateLimit';
+import { advanceMintJob, getMintErrorStatus, serializeMintJob } from '~/lib/relayer';
+
+const JOB_ID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// Production logging utility
+function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
+  if (process.env.NODE_ENV === 'development') {
+    console[level](`[MINT-JOB] ${message}`, data || '');
+  }
+}
+
+/**
+ * Mint job status. Each poll also advances the job: queued jobs are
+ * (re)submitted, submitted jobs are checked for a receipt and fee-bumped
+ * when stuck.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ jobId: string }> }
+) {
+  const { jobId } = await params;
+
+  if (!JOB_ID_PATTERN.test(jobId)) {
+    return NextResponse.json({ error: 'Invalid job id' }, { status: 400 });
+  }
+
+  const identifier = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'anonymous';
+
+  // Separate bucket from POST /api/mint-poep so polling does not eat the mint quota
+  const rateLimitResult = await defaultRateLimit.check(`mint-job:${identifier}`, 60, {
+    userAgent: request.headers.get('user-agent') || '',
+    ip: identifier
+  });
+
+  if (rateLimitResult.blocked || rateLimitResult.remaining < 0) {
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded. Please try again later.',
+        retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+      },
+      { status: 429 }
+    );
+  }
+
+  try {
+    const job = await advanceMintJob(jobId);
+
+    if (!job) {
+      return NextResponse.json({ error: 'Mint job not found' }, { status: 404 });
+    }
+
+    const pending = job.status === 'queued' || job.status === 'submitted';
+    return NextResponse.json(serializeMintJob(job), {
+      status: job.status === 'failed' ? getMintErrorStatus(job.errorCode) : 200,
+      headers: {
+        'Cache-Control': 'no-store',
+        ...(pending && { 'Retry-After': '3' })
+      }
+    });
+  } catch (error: any) {
+    secureLog('error', 'Failed to load mint job', { jobId, error: error.message });
+    return NextResponse.json(
+      { error: 'Mint job service temporarily unavailable' },
+      { status: 503 }
+    );
+  }
+}
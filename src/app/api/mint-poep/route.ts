@@ -1,10 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { ethers } from 'ethers';
 import { defaultRateLimit } from '~/lib/secureRateLimit';
-
-const POEP_CONTRACT_ADDRESS = process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS;
+import { verifyMintProof } from '~/lib/proofVerifier';
+import { toCalldataProof, toSolidityProof } from '~/lib/proofCodec';
+import { preflightMintFor } from '~/lib/contract';
+import { MintRevertError } from '~/lib/mintErrors';
+import { InputValidator } from '~/lib/secureErrorHandler';
+import { isFaceHelper } from '~/lib/fuzzyExtractor';
+import { advanceMintJob, getMintErrorStatus, getRelayer, getRelayerChainId, serializeMintJob } from '~/lib/relayer';
+import { enqueueMintJob, findMintJob, hashMintRequest, type MintJob, type MintJobRequest } from '~/lib/relayerQueue';
+import { NETWORK } from '~/lib/networks';
+
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep;
 const PRIVATE_KEY = process.env.PRIVATE_KEY;
-const BASE_RPC_URL = process.env.BASE_MAINNET_RPC || 'https://mainnet.base.org';
 
 // Production logging utility
 function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
@@ -14,6 +22,21 @@ function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any
   // In production, this would send to a secure logging service
 }
 
+// A job already registered under the request's idempotency key. A client key
+// reused with a different payload is rejected rather than answered with
+// someone else's job.
+function existingJobResponse(job: MintJob, mintRequest: MintJobRequest, clientKey: boolean): NextResponse {
+  if (clientKey && job.requestHash !== hashMintRequest(mintRequest)) {
+    return NextResponse.json(
+      { error: 'Idempotency-Key was already used for a different request', code: 'IDEMPOTENCY_KEY_REUSED' },
+      { status: 422 }
+    );
+  }
+
+  secureLog('info', 'Returning existing mint job', { jobId: job.id, status: job.status });
+  return NextResponse.json(serializeMintJob(job));
+}
+
 export async function POST(request: NextRequest) {
   try {
     secureLog('info', 'MINT POEP API request started');
@@ -75,18 +98,19 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    const { proof, nullifier, userAddress } = body;
+    const { proof, nullifier, userAddress, deadline, signature, faceHelper } = body;
 
     secureLog('info', 'Processing mint request', {
       hasProof: !!proof,
       hasNullifier: !!nullifier,
+      hasSignature: !!signature,
       hasValidAddress: !!userAddress && ethers.isAddress(userAddress)
     });
 
     // Comprehensive input validation with security checks
     const validationErrors = [];
 
-    if (!proof || typeof proof !== 'object') {
+    if (!proof || (typeof proof !== 'object' && typeof proof !== 'string')) {
       validationErrors.push('Invalid proof');
     }
 
@@ -98,6 +122,20 @@ export async function POST(request: NextRequest) {
       validationErrors.push('Invalid user address');
     }
 
+    // Signed EIP-712 MintIntent from userAddress (see PoEP.mintFor)
+    if (!deadline || typeof deadline !== 'string' || !/^\d+$/.test(deadline)) {
+      validationErrors.push('Invalid deadline format');
+    }
+
+    if (!signature || typeof signature !== 'string' || !ethers.isHexString(signature)) {
+      validationErrors.push('Invalid signature format');
+    }
+
+    // Fuzzy extractor helper of the proof, published once the mint confirms
+    if (faceHelper !== undefined && faceHelper !== null && !isFaceHelper(faceHelper)) {
+      validationErrors.push('Invalid face helper');
+    }
+
     // Additional security: check for potential injection attempts
     if (userAddress && (userAddress.includes('<') || userAddress.includes('>') || userAddress.includes('script'))) {
       validationErrors.push('Invalid address format');
@@ -119,9 +157,8 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Validate proof structure
-    if (!proof.pA || !proof.pB || !proof.pC ||
-        !Array.isArray(proof.pA) || !Array.isArray(proof.pB) || !Array.isArray(proof.pC)) {
+    // Validate proof structure (calldata, snarkjs JSON or compact - see proofCodec.ts)
+    if (!InputValidator.validateProofStructure(proof)) {
       return NextResponse.json(
         { error: 'Invalid proof structure' },
         { status: 400 }
@@ -148,44 +185,73 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Secure blockchain connection setup
-    secureLog('info', 'Initializing blockchain connection');
-    let provider, wallet, contract, normalizedAddress;
+    // Idempotency: retries with the same key return the existing job instead of
+    // submitting a second transaction. Without a header, the recipient and
+    // nullifier identify the mint, since each can only be minted once.
+    const idempotencyHeader = request.headers.get('idempotency-key');
+    if (idempotencyHeader !== null && !/^[A-Za-z0-9_.:-]{8,128}$/.test(idempotencyHeader)) {
+      return NextResponse.json(
+        { error: 'Invalid Idempotency-Key header' },
+        { status: 400 }
+      );
+    }
 
+    const normalizedAddress = ethers.getAddress(userAddress);
+
+    // Job payload for mintFor(recipient, pA, pB, pC, nullifier, deadline, signature).
+    // The relayer only pays gas - the passport is minted to the signing recipient.
+    // Proofs are stored as canonical decimal calldata whatever form they arrived in.
+    let calldata: ReturnType<typeof toCalldataProof>;
     try {
-      provider = new ethers.JsonRpcProvider(BASE_RPC_URL, undefined, {
-        staticNetwork: true // Performance optimization
-      });
+      calldata = toCalldataProof(proof);
+    } catch (_error) {
+      return NextResponse.json(
+        { error: 'Invalid proof structure' },
+        { status: 400 }
+      );
+    }
+    const { pA, pB, pC } = calldata;
+    const mintRequest: MintJobRequest = {
+      recipient: normalizedAddress,
+      pA,
+      pB,
+      pC,
+      nullifier,
+      deadline,
+      signature
+    };
+    const idempotencyKey = idempotencyHeader || `${normalizedAddress.toLowerCase()}:${nullifier}`;
 
-      wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    // A retry returns its job before any on-chain check: once the mint has
+    // confirmed, the deadline, balance and nullifier checks below would reject it
+    const existingJob = await findMintJob(idempotencyKey);
+    if (existingJob) {
+      return existingJobResponse(existingJob, mintRequest, idempotencyHeader !== null);
+    }
 
-      // Test network connection with timeout
-      const networkPromise = provider.getNetwork();
-      const timeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Network connection timeout')), 10000)
+    // Reject expired intents before spending gas on estimation
+    if (BigInt(deadline) <= BigInt(Math.floor(Date.now() / 1000))) {
+      return NextResponse.json(
+        { error: 'Mint intent expired', code: 'INTENT_EXPIRED' },
+        { status: 400 }
       );
+    }
 
-      const network = await Promise.race([networkPromise, timeoutPromise]);
-      secureLog('info', 'Connected to blockchain network', { chainId: network.chainId.toString() });
+    // Secure blockchain connection setup
+    secureLog('info', 'Initializing blockchain connection');
+    let relayerChainId: number;
 
-      // Load contract ABI securely
-      const { POEP_CONTRACT_ABI } = await import('~/lib/constants');
-      secureLog('info', 'Using contract address', { address: POEP_CONTRACT_ADDRESS });
-      contract = new ethers.Contract(POEP_CONTRACT_ADDRESS, POEP_CONTRACT_ABI, wallet);
+    try {
+      const { contract } = getRelayer();
 
-      // Normalize and validate the user address
-      try {
-        normalizedAddress = ethers.getAddress(userAddress);
-      } catch (_error) {
-        throw new Error('Invalid address format');
-      }
+      relayerChainId = await getRelayerChainId();
 
       // Check existing balance with timeout protection
       secureLog('info', 'Checking user balance');
 
       const balancePromise = contract.balanceOf(normalizedAddress);
       const balanceTimeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Balance check timeout')), 15000)
+        setTimeout(() => reject(new Error('Balance check timeout')), 5000)
       );
 
       const balance = await Promise.race([balancePromise, balanceTimeoutPromise]);
@@ -194,12 +260,12 @@ export async function POST(request: NextRequest) {
       if (hasExisting) {
         secureLog('info', 'User already has PoEP token');
         return NextResponse.json(
-          { error: 'PoEP already exists for this user' },
+          { error: 'PoEP already exists for this user', code: 'ALREADY_MINTED' },
           { status: 409 }
         );
       }
 
-      secureLog('info', 'Balance check passed, proceeding with mint');
+      secureLog('info', 'Balance check passed, queueing mint');
     } catch (networkError: any) {
       secureLog('error', 'Blockchain connection failed', { error: networkError.message });
 
@@ -217,131 +283,59 @@ export async function POST(request: NextRequest) {
       );
     }
 
-    // Proof is already validated above - format for contract call
-
-    // Format proof according to contract ABI: mint(uint256[2] _pA, uint256[2][2] _pB, uint256[2] _pC, uint256 _nullifier)
-    const pA = proof.pA; // [2] array
-    const pB = proof.pB; // [2][2] array
-    const pC = proof.pC; // [2] array
-    const nullifierBigInt = BigInt(nullifier); // Use the separate nullifier parameter
-
-    secureLog('info', 'Starting mint transaction');
-
-    // Execute mint transaction with comprehensive error handling
-    try {
-      secureLog('info', 'Estimating transaction gas');
-
-      // Gas estimation with timeout
-      const gasEstimatePromise = contract.mint.estimateGas(pA, pB, pC, nullifierBigInt);
-      const gasTimeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Gas estimation timeout')), 20000)
-      );
-
-      const gasEstimate = await Promise.race([gasEstimatePromise, gasTimeoutPromise]);
-      const gasLimit = gasEstimate * 125n / 100n; // 25% buffer for safety
-
-      secureLog('info', 'Submitting mint transaction');
-      const tx = await contract.mint(pA, pB, pC, nullifierBigInt, {
-        gasLimit: gasLimit,
-        // Add gas price for better transaction inclusion in production
-        ...(process.env.NODE_ENV === 'production' && {
-          maxFeePerGas: ethers.parseUnits('2', 'gwei'),
-          maxPriorityFeePerGas: ethers.parseUnits('1', 'gwei')
-        })
-      });
-
-      secureLog('info', 'Waiting for transaction confirmation', { txHash: tx.hash });
-
-      // Wait for confirmation with timeout
-      const receiptPromise = tx.wait();
-      const confirmTimeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Transaction confirmation timeout')), 60000)
+    // Verify the proof in-process before spending relayer gas on it
+    const verification = await verifyMintProof(proof, nullifier, normalizedAddress, relayerChainId);
+    if (!verification.valid) {
+      secureLog('warn', 'Proof verification failed', { reason: verification.reason });
+      return NextResponse.json(
+        { error: 'Invalid ZK proof', reason: verification.reason, code: 'INVALID_PROOF' },
+        { status: 400 }
       );
+    }
 
-      const receipt = await Promise.race([receiptPromise, confirmTimeoutPromise]);
-
-      // Verify the transaction was successful
-      if (!receipt || receipt.status !== 1) {
-        throw new Error('Transaction failed on-chain');
-      }
-
-      // Fetch post-mint data securely
-      secureLog('info', 'Fetching trust score');
-
-      const trustScorePromise = contract.viewTrustScore(normalizedAddress);
-      const scoreTimeoutPromise = new Promise((_, reject) =>
-        setTimeout(() => reject(new Error('Trust score fetch timeout')), 10000)
+    // Simulate mintFor so an expired deadline or a bad signature is reported
+    // with its mint error code instead of failing the job later
+    try {
+      await preflightMintFor(
+        normalizedAddress as `0x${string}`,
+        toSolidityProof(proof),
+        nullifier,
+        deadline,
+        signature
       );
-
-      const trustScore = await Promise.race([trustScorePromise, scoreTimeoutPromise]);
-
-      const result = {
-        success: true,
-        transactionHash: receipt.hash,
-        trustScore: trustScore.toString(),
-        blockNumber: receipt.blockNumber,
-        gasUsed: receipt.gasUsed?.toString()
-      };
-
-      secureLog('info', 'Mint completed successfully', { txHash: receipt.hash });
-      return NextResponse.json(result);
-    } catch (mintError: any) {
-      secureLog('error', 'Mint transaction failed', { error: mintError.message });
-
-      // Secure error classification
-      const isDevMode = process.env.NODE_ENV === 'development';
-
-      if (mintError.message?.includes('execution reverted')) {
-        const secureReason = isDevMode ? (mintError.reason || 'Contract rejection') : 'Transaction rejected';
-
-        // Special handling for "already minted" case
-        if (mintError.reason?.includes('Already minted')) {
-          return NextResponse.json(
-            {
-              error: 'PoEP already exists',
-              reason: 'You already have a PoEP passport for this wallet address',
-              code: 'ALREADY_MINTED'
-            },
-            { status: 409 }
-          );
-        }
-
+    } catch (error) {
+      if (error instanceof MintRevertError) {
+        secureLog('warn', 'Mint preflight rejected', { code: error.code });
         return NextResponse.json(
-          {
-            error: 'Smart contract rejected the transaction',
-            reason: secureReason,
-            code: 'CONTRACT_REVERT'
-          },
-          { status: 400 }
+          { error: error.message, guidance: error.guidance, code: error.code },
+          { status: getMintErrorStatus(error.code) }
         );
       }
+      throw error;
+    }
 
-      if (mintError.code === 'UNPREDICTABLE_GAS_LIMIT' || mintError.message?.includes('gas')) {
-        return NextResponse.json(
-          {
-            error: 'Transaction would fail',
-            reason: 'Invalid proof or insufficient funds',
-            code: 'SIMULATION_FAILED'
-          },
-          { status: 400 }
-        );
-      }
+    const { job, created } = await enqueueMintJob(idempotencyKey, mintRequest, faceHelper ?? null);
 
-      if (mintError.message?.includes('timeout')) {
-        return NextResponse.json(
-          {
-            error: 'Transaction timeout',
-            reason: 'Network congestion - please try again',
-            code: 'TIMEOUT'
-          },
-          { status: 408 }
-        );
-      }
+    if (!created) {
+      return existingJobResponse(job, mintRequest, idempotencyHeader !== null);
+    }
 
-      // Re-throw for general error handler
-      throw mintError;
+    // Submit right away; confirmation and fee bumps happen on status polls
+    secureLog('info', 'Submitting mint job', { jobId: job.id });
+    const advanced = (await advanceMintJob(job.id)) || job;
+
+    if (advanced.status === 'failed') {
+      secureLog('warn', 'Mint job rejected', { jobId: advanced.id, code: advanced.errorCode });
+      return NextResponse.json(serializeMintJob(advanced), {
+        status: getMintErrorStatus(advanced.errorCode)
+      });
     }
 
+    return NextResponse.json(serializeMintJob(advanced), {
+      status: 202,
+      headers: { Location: `/api/mint-poep/${advanced.id}` }
+    });
+
   } catch (error: any) {
     secureLog('error', 'Unhandled minting error', { error: error.message });
 
@@ -418,7 +412,7 @@ export async function OPTIONS(request: NextRequest) {
     headers: {
       'Access-Control-Allow-Origin': isDevelopment ? '*' : (origin || 'https://warpcast.com'),
       'Access-Control-Allow-Methods': 'POST, OPTIONS',
-      'Access-Control-Allow-Headers': 'Content-Type, Authorization, X-Requested-With, X-Real-IP, X-Forwarded-For',
+      'Access-Control-Allow-Headers': 'Content-Type, Authorization, Idempotency-Key, X-Requested-With, X-Real-IP, X-Forwarded-For',
       'Access-Control-Max-Age': '3600',
       'Vary': 'Origin',
     },
@@ -1,11 +1,13 @@
 import { ImageResponse } from "next/og";
 import { NextRequest } from "next/server";
+import { clampScore, formatScore, getTierForScore } from "~/lib/tierPolicy";
 
 export const dynamic = 'force-dynamic';
 
 export async function GET(request: NextRequest) {
   const { searchParams } = new URL(request.url);
-  const score = searchParams.get('score') || '1';
+  const score = clampScore(Number(searchParams.get('score') || '1'));
+  const tier = getTierForScore(score);
 
   return new ImageResponse(
     (
@@ -20,7 +22,10 @@ export async function GET(request: NextRequest) {
         <p tw="text-4xl text-white opacity-90 text-center">Proof-of-Existence Passport</p>
         <div tw="flex items-center mt-8 bg-white bg-opacity-20 rounded-full px-8 py-4">
           <span tw="text-3xl text-white mr-4">Trust Score:</span>
-          <span tw="text-5xl text-yellow-300 font-bold">{score}</span>
+          <span tw="text-5xl text-yellow-300 font-bold">{formatScore(score)}</span>
+        </div>
+        <div tw="flex items-center mt-4 rounded-full px-6 py-2" style={{ background: tier.background }}>
+          <span tw="text-3xl font-bold" style={{ color: tier.color }}>{`${tier.name} Tier`}</span>
         </div>
         <p tw="text-2xl mt-6 text-white opacity-80">Privacy-first human verification on Base</p>
       </div>
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { ethers } from 'ethers';
+import { isIndexerReady } from '~/lib/indexer';
+import { getScoreTimeline } from '~/lib/scoreHistory';
+import { defaultRateLimit } from '~/lib/secureRateLimit';
+
+// Production logging utility
+function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
+  if (process.env.NODE_ENV === 'development') {
+    console[level](`[SCORE-HISTORY] ${message}`, data || '');
+  }
+}
+
+/**
+ * Trust score history of a passport: every ScoreUpdated change since the
+ * current mint, with the reason where the score engine recorded one.
+ * Served from the event indexer, so it trails the chain by the indexer's
+ * confirmation depth.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ address: string }> }
+) {
+  const { address } = await params;
+
+  let normalizedAddress: string;
+  try {
+    normalizedAddress = ethers.getAddress(address);
+  } catch (_error) {
+    return NextResponse.json({ error: 'Invalid address format', code: 'INVALID_ADDRESS' }, { status: 400 });
+  }
+
+  const identifier = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'anonymous';
+
+  const rateLimitResult = await defaultRateLimit.check(`score-history:${identifier}`, 60, {
+    userAgent: request.headers.get('user-agent') || '',
+    ip: identifier
+  });
+
+  if (rateLimitResult.blocked || rateLimitResult.remaining < 0) {
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded. Please try again later.',
+        retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+      },
+      { status: 429 }
+    );
+  }
+
+  try {
+    if (!(await isIndexerReady())) {
+      return NextResponse.json(
+        { error: 'Score history is not available yet', code: 'INDEXER_NOT_READY' },
+        { status: 503, headers: { 'Retry-After': '60' } }
+      );
+    }
+
+    const history = await getScoreTimeline(normalizedAddress);
+    if (!history) {
+      return NextResponse.json(
+        { error: 'No passport for this address', code: 'NOT_FOUND' },
+        { status: 404, headers: { 'Cache-Control': 'public, max-age=60' } }
+      );
+    }
+
+    return NextResponse.json(history, {
+      headers: { 'Cache-Control': 'public, max-age=30, s-maxage=30, stale-while-revalidate=120' }
+    });
+  } catch (error: any) {
+    secureLog('error', 'History lookup failed', error.message);
+    return NextResponse.json(
+      { error: 'Score history temporarily unavailable', code: 'HISTORY_UNAVAILABLE' },
+      { status: 503, headers: { 'Cache-Control': 'no-store' } }
+    );
+  }
+}
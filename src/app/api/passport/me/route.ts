@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { withPoEP } from '~/lib/withPoEP';
+
+/**
+ * The authenticated caller's passport. Lets partners check their QuickAuth or
+ * SIWE setup against the same guard their own routes use.
+ */
+export const GET = withPoEP(async (_request, { poep }) => {
+  return NextResponse.json(poep, { headers: { 'Cache-Control': 'no-store' } });
+});
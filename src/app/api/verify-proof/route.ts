@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { defaultRateLimit } from '~/lib/secureRateLimit';
+import { verifyPoEPProof } from '~/lib/proofVerifier';
+
+// Partners call this from their own origins, so CORS is open
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Max-Age': '3600'
+};
+
+// Production logging utility
+function secureLog(level: 'info' | 'warn' | 'error', message: string, data?: any) {
+  if (process.env.NODE_ENV === 'development') {
+    console[level](`[VERIFY-PROOF] ${message}`, data || '');
+  }
+}
+
+/**
+ * Verify a PoEP Groth16 proof without a chain call.
+ *
+ * Accepts the proof in any form the proof codec decodes: snarkjs JSON
+ * ({pi_a, pi_b, pi_c}), contract calldata ({pA, pB, pC}) with decimal or hex
+ * elements, or the compact base64url string. publicSignals are in circuit
+ * order: [nullifier, recipient, chainId].
+ */
+export async function POST(request: NextRequest) {
+  const identifier = request.headers.get('x-forwarded-for') ||
+                    request.headers.get('x-real-ip') ||
+                    'anonymous';
+
+  const rateLimitResult = await defaultRateLimit.check(`verify-proof:${identifier}`, 30, {
+    userAgent: request.headers.get('user-agent') || '',
+    ip: identifier
+  });
+
+  if (rateLimitResult.blocked || rateLimitResult.remaining < 0) {
+    return NextResponse.json(
+      {
+        error: 'Rate limit exceeded. Please try again later.',
+        retryAfter: Math.ceil((rateLimitResult.resetTime - Date.now()) / 1000)
+      },
+      { status: 429, headers: CORS_HEADERS }
+    );
+  }
+
+  let body;
+  try {
+    body = await request.json();
+  } catch (_error) {
+    return NextResponse.json(
+      { error: 'Invalid JSON payload' },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  const { proof, publicSignals } = body || {};
+
+  if (!proof || (typeof proof !== 'object' && typeof proof !== 'string') || !Array.isArray(publicSignals)) {
+    return NextResponse.json(
+      { error: 'Request must include proof and publicSignals' },
+      { status: 400, headers: CORS_HEADERS }
+    );
+  }
+
+  try {
+    const result = await verifyPoEPProof(proof, publicSignals);
+
+    secureLog('info', 'Proof verified', { valid: result.valid, reason: result.reason });
+    return NextResponse.json(result, { headers: CORS_HEADERS });
+  } catch (error: any) {
+    secureLog('error', 'Proof verification error', { error: error.message });
+    return NextResponse.json(
+      { error: 'Proof verification service temporarily unavailable' },
+      { status: 503, headers: CORS_HEADERS }
+    );
+  }
+}
+
+export async function OPTIONS() {
+  return new NextResponse(null, { status: 204, headers: CORS_HEADERS });
+}
+
+// Disable other HTTP methods
+export async function GET() {
+  return NextResponse.json({ error: 'Method not allowed' }, { status: 405 });
+}
@@ -1,12 +1,10 @@
 'use client';
 import { ReactNode } from 'react';
 import { OnchainKitProvider } from '@coinbase/onchainkit';
-import { base, baseSepolia } from 'wagmi/chains';
+import { NETWORK } from '~/lib/networks';
 
 export function MiniKitContextProvider({ children }: { children: ReactNode }) {
-  // Use Sepolia for testing, mainnet for production
-  const isProduction = process.env.NODE_ENV === 'production' || process.env.NEXT_PUBLIC_ENVIRONMENT === 'production';
-  const chain = isProduction ? base : baseSepolia;
+  const chain = NETWORK.chain;
 
   return (
     <OnchainKitProvider
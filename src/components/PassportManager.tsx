@@ -1,51 +1,13 @@
 'use client';
 
-import { useAccount, useWatchContractEvent } from 'wagmi';
-import { useEffect, useState, useCallback } from 'react';
-import { hasPassport } from '~/lib/contract';
-import { POEP_CONTRACT_ABI } from '~/lib/constants';
-import { POEP_CONTRACT_ADDRESS } from '~/lib/config';
+import { useAccount } from 'wagmi';
+import { usePassport } from '~/hooks/usePassport';
 
 export default function PassportManager() {
   const { address } = useAccount();
-  const [hasPoep, setHasPoep] = useState<boolean | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  const checkPassport = useCallback(async () => {
-    if (!address) return;
-    setIsLoading(true);
-    try {
-      const userHasPassport = await hasPassport(address);
-      setHasPoep(userHasPassport);
-    } catch (error) {
-      console.error("Failed to check for passport:", error);
-      setHasPoep(false); // Assume no passport on error
-    } finally {
-      setIsLoading(false);
-    }
-  }, [address]);
-
-  useEffect(() => {
-    checkPassport();
-  }, [checkPassport]);
-
-  // Listen for on-chain mint event to refresh status immediately after mint
-  useWatchContractEvent({
-    address: POEP_CONTRACT_ADDRESS,
-    abi: POEP_CONTRACT_ABI,
-    eventName: 'PassportMinted',
-    enabled: !!address,
-    onLogs: (logs) => {
-      // If the mint event is for the connected user, mark as having a passport
-      const mintedForUser = logs?.some((log: any) =>
-        (log.args?.user as string)?.toLowerCase() === address?.toLowerCase()
-      );
-      if (mintedForUser) {
-        console.log('PassportMinted event received for current user. Refetching status...');
-        checkPassport(); // Directly re-check passport status
-      }
-    },
-  });
+  // Refetched by the shared PassportMinted watcher as soon as a mint lands
+  const { data: passport, isLoading } = usePassport(address);
+  const hasPoep = passport?.hasPassport ?? false;
 
   if (isLoading) {
     return (
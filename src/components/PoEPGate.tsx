@@ -0,0 +1,132 @@
+'use client';
+
+import { sdk } from '@farcaster/miniapp-sdk';
+import { MouseEvent, ReactNode } from 'react';
+import { useAccount } from 'wagmi';
+import { usePassport } from '~/hooks/usePassport';
+import { APP_DEEP_LINK } from '~/lib/constants';
+import { formatScore, getRequiredScore, getTierPolicy, type TierId } from '~/lib/tierPolicy';
+import { Button } from './ui/Button';
+
+/**
+ * PoEPGate Component
+ *
+ * Shows its children only when the connected wallet holds a PoEP passport
+ * with a high enough trust score. Otherwise it explains why and links into the
+ * PoEP mini app to get a passport. Where AuthGate checks for Farcaster
+ * context, this checks passport ownership.
+ *
+ * @example
+ * ```tsx
+ * <PoEPGate tier="silver">
+ *   <ClaimAirdrop />
+ * </PoEPGate>
+ * ```
+ */
+
+interface PoEPGateProps {
+  children: ReactNode;
+  // Lowest trust score that passes; combined with tier, the stricter wins
+  minScore?: number;
+  tier?: TierId;
+  // Replaces the default prompt when the check fails
+  fallback?: ReactNode;
+}
+
+type GateFailure = 'no-wallet' | 'no-passport' | 'low-score' | 'unavailable';
+
+// Inside a Farcaster client the mini app opens in place, elsewhere in a new tab
+async function openPoEPApp(event: MouseEvent<HTMLAnchorElement>) {
+  event.preventDefault();
+  try {
+    if (await sdk.isInMiniApp()) {
+      await sdk.actions.openMiniApp({ url: APP_DEEP_LINK });
+      return;
+    }
+  } catch (error) {
+    console.warn('Opening PoEP in Farcaster failed:', error);
+  }
+  window.open(APP_DEEP_LINK, '_blank', 'noopener,noreferrer');
+}
+
+export function PoEPGate({ children, minScore, tier, fallback }: PoEPGateProps) {
+  const { address, isConnected } = useAccount();
+  const { data: passport, isLoading, isError, refetch } = usePassport(isConnected ? address : undefined);
+
+  const requiredScore = getRequiredScore({ minScore, tier });
+  const tierName = tier ? getTierPolicy().find(candidate => candidate.id === tier)?.name : null;
+
+  if (isConnected && isLoading) {
+    return (
+      <div className="card p-4 text-center">
+        <div className="mx-auto mb-2 h-6 w-6 spinner" />
+        <div className="text-sm text-neutral-600 dark:text-neutral-300">Checking your passport...</div>
+      </div>
+    );
+  }
+
+  let failure: GateFailure | null = null;
+  if (!isConnected || !address) {
+    failure = 'no-wallet';
+  } else if (isError || !passport) {
+    failure = 'unavailable';
+  } else if (!passport.hasPassport) {
+    failure = 'no-passport';
+  } else if (passport.trustScore < requiredScore) {
+    failure = 'low-score';
+  }
+
+  if (!failure) {
+    return <>{children}</>;
+  }
+
+  if (fallback) {
+    return <>{fallback}</>;
+  }
+
+  const requirement = tierName ? `${tierName} tier (${formatScore(requiredScore)})` : `a trust score of ${formatScore(requiredScore)}`;
+
+  const prompts: Record<GateFailure, { title: string; message: string }> = {
+    'no-wallet': {
+      title: 'Connect Your Wallet',
+      message: 'This requires a Proof-of-Existence Passport. Connect the wallet that holds yours.'
+    },
+    'no-passport': {
+      title: 'Passport Required',
+      message: 'Prove you are a unique human with a PoEP passport to continue. It takes a selfie that never leaves your device.'
+    },
+    'low-score': {
+      title: 'Higher Trust Score Required',
+      message: `This requires ${requirement}. Your passport is at ${formatScore(passport?.trustScore ?? 0)}.`
+    },
+    'unavailable': {
+      title: 'Passport Check Failed',
+      message: 'We could not reach Base to check your passport. Please try again.'
+    }
+  };
+  const { title, message } = prompts[failure];
+
+  return (
+    <div className="card-primary p-6 text-center space-y-4">
+      <div className="w-14 h-14 mx-auto bg-gradient-to-br from-primary-500 to-accent-500 rounded-2xl flex items-center justify-center text-2xl">
+        🛡️
+      </div>
+      <div>
+        <h3 className="text-lg font-semibold text-primary-800 dark:text-primary-200">{title}</h3>
+        <p className="text-sm text-primary-600 dark:text-primary-300">{message}</p>
+      </div>
+
+      {failure === 'unavailable' ? (
+        <Button onClick={() => refetch()} className="w-full btn-secondary">
+          🔄 Try Again
+        </Button>
+      ) : (
+        <a href={APP_DEEP_LINK} onClick={openPoEPApp} className="btn btn-primary w-full">
+          {failure === 'low-score' ? '📈 View My Passport' : '🛡️ Get Your Passport'}
+        </a>
+      )}
+    </div>
+  );
+}
+
+export default PoEPGate;
@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { getExplorerUrl } from '~/lib/networks';
+import type { ScoreChange, ScoreHistory } from '~/lib/scoreHistory';
+import { formatScore, getTierForScore } from '~/lib/tierPolicy';
+
+const SPARKLINE_WIDTH = 300;
+const SPARKLINE_HEIGHT = 64;
+const SPARKLINE_PADDING = 6;
+const VISIBLE_CHANGES = 5;
+
+interface ScoreTimelineProps {
+  address?: string;
+  // Bump to refetch, e.g. after the user refreshes their score
+  refreshKey?: number;
+}
+
+/**
+ * Sparkline of a passport's trust score since mint, with the latest changes
+ * and their reasons. Data comes from /api/passport/[address]/history.
+ */
+export default function ScoreTimeline({ address, refreshKey }: ScoreTimelineProps) {
+  const [history, setHistory] = useState<ScoreHistory | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+
+  useEffect(() => {
+    if (!address) return;
+    let cancelled = false;
+
+    const loadHistory = async () => {
+      setIsLoading(true);
+      try {
+        const response = await fetch(`/api/passport/${address}/history`);
+        const data = await response.json();
+        if (cancelled) return;
+
+        if (response.ok) {
+          setHistory(data);
+          setMessage(null);
+        } else {
+          setHistory(null);
+          // The indexer trails the chain, so a fresh passport is not in it yet
+          setMessage(response.status === 404 || data.code === 'INDEXER_NOT_READY'
+            ? 'Your score history will appear here shortly.'
+            : 'Score history is temporarily unavailable.');
+        }
+      } catch (_error) {
+        if (!cancelled) setMessage('Score history is temporarily unavailable.');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    loadHistory();
+    return () => {
+      cancelled = true;
+    };
+  }, [address, refreshKey]);
+
+  if (!address) return null;
+
+  return (
+    <div className="card p-6">
+      <h4 className="font-semibold mb-4 text-center">Score History</h4>
+      {isLoading && !history ? (
+        <div className="mx-auto h-6 w-6 spinner" />
+      ) : history ? (
+        <>
+          <ScoreSparkline history={history} />
+          {history.changes.length === 0 ? (
+            <p className="text-sm text-center text-neutral-500 dark:text-neutral-400 mt-3">
+              No changes yet - your score started at 1 on {formatDate(history.mintedAt)}.
+            </p>
+          ) : (
+            <ul className="mt-4 space-y-3">
+              {history.changes.slice(-VISIBLE_CHANGES).reverse().map(change => (
+                <ScoreChangeItem key={`${change.transactionHash}:${change.blockNumber}`} change={change} />
+              ))}
+            </ul>
+          )}
+        </>
+      ) : (
+        <p className="text-sm text-center text-neutral-500 dark:text-neutral-400">{message}</p>
+      )}
+    </div>
+  );
+}
+
+function ScoreSparkline({ history }: { history: ScoreHistory }) {
+  const tier = getTierForScore(history.trustScore);
+
+  // Genesis score at mint, each change, then the current score today
+  const now = Math.floor(Date.now() / 1000);
+  const points = [
+    { time: history.mintedAt, score: 1 },
+    ...history.changes.map(change => ({ time: change.timestamp, score: change.newScore })),
+    { time: Math.max(now, history.mintedAt + 1), score: history.trustScore }
+  ];
+
+  const minTime = points[0].time;
+  const timeSpan = Math.max(points[points.length - 1].time - minTime, 1);
+  const minScore = Math.min(...points.map(point => point.score));
+  const scoreSpan = Math.max(Math.max(...points.map(point => point.score)) - minScore, 1);
+
+  const toX = (time: number) =>
+    SPARKLINE_PADDING + ((time - minTime) / timeSpan) * (SPARKLINE_WIDTH - 2 * SPARKLINE_PADDING);
+  const toY = (score: number) =>
+    SPARKLINE_HEIGHT - SPARKLINE_PADDING - ((score - minScore) / scoreSpan) * (SPARKLINE_HEIGHT - 2 * SPARKLINE_PADDING);
+
+  // Scores change in steps, so hold each value until the next change
+  const path = points
+    .map((point, index) => index === 0
+      ? `M ${toX(point.time)} ${toY(point.score)}`
+      : `H ${toX(point.time)} V ${toY(point.score)}`)
+    .join(' ');
+  const last = points[points.length - 1];
+
+  return (
+    <div>
+      <svg
+        viewBox={`0 0 ${SPARKLINE_WIDTH} ${SPARKLINE_HEIGHT}`}
+        className="w-full h-16"
+        role="img"
+        aria-label={`Trust score went from 1 to ${history.trustScore} since ${formatDate(history.mintedAt)}`}
+      >
+        <path d={path} fill="none" stroke={tier.color} strokeWidth={2} strokeLinejoin="round" />
+        <circle cx={toX(last.time)} cy={toY(last.score)} r={3.5} fill={tier.color} />
+      </svg>
+      <div className="flex justify-between text-xs text-neutral-500 dark:text-neutral-400">
+        <span>Minted {formatDate(history.mintedAt)}</span>
+        <span style={{ color: tier.color }}>{formatScore(history.trustScore)}</span>
+      </div>
+    </div>
+  );
+}
+
+function ScoreChangeItem({ change }: { change: ScoreChange }) {
+  const increased = change.delta >= 0;
+  const transactionUrl = getExplorerUrl('tx', change.transactionHash);
+
+  return (
+    <li className="flex items-start justify-between gap-3 text-sm">
+      <div className="min-w-0">
+        <p className="text-neutral-700 dark:text-neutral-200">
+          {change.oldScore} → {change.newScore}
+        </p>
+        <p className="text-xs text-neutral-500 dark:text-neutral-400 truncate" title={change.reason || undefined}>
+          {change.reason || 'Score updated'}
+        </p>
+      </div>
+      <div className="text-right shrink-0">
+        <p className={`font-semibold ${increased ? 'text-success-600 dark:text-success-400' : 'text-red-600 dark:text-red-400'}`}>
+          {increased ? '+' : ''}{change.delta}
+        </p>
+        {transactionUrl ? (
+          <a
+            href={transactionUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-xs text-primary-600 dark:text-primary-400 hover:underline"
+          >
+            {formatDate(change.timestamp)}
+          </a>
+        ) : (
+          <p className="text-xs text-neutral-500 dark:text-neutral-400">{formatDate(change.timestamp)}</p>
+        )}
+      </div>
+    </li>
+  );
+}
+
+function formatDate(timestamp: number): string {
+  return new Date(timestamp * 1000).toLocaleDateString(undefined, { month: 'short', day: 'numeric', year: 'numeric' });
+}
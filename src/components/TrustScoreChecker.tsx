@@ -3,6 +3,7 @@
 import { useState } from 'react';
 import { isAddress } from 'viem';
 import { getTrustScore } from '~/lib/contract';
+import { formatScore, getTierForScore } from '~/lib/tierPolicy';
 
 export default function TrustScoreChecker() {
   const [address, setAddress] = useState('');
@@ -35,11 +36,8 @@ export default function TrustScoreChecker() {
     }
   };
 
-  const getScoreColor = (score: number) => {
-    if (score >= 80) return 'text-green-600';
-    if (score >= 60) return 'text-yellow-600';
-    return 'text-red-600';
-  };
+  // viewTrustScore returns 0 for addresses without a passport
+  const tier = trustScore ? getTierForScore(trustScore) : null;
 
   return (
     <div className="p-4 rounded-lg border border-gray-200 bg-white dark:border-gray-700 dark:bg-gray-900">
@@ -67,9 +65,18 @@ export default function TrustScoreChecker() {
         {trustScore !== null && (
           <div className="text-center p-3 bg-white dark:bg-neutral-900 rounded-md border border-gray-200 dark:border-gray-700">
             <div className="text-sm text-gray-700 dark:text-gray-300">Trust Score</div>
-            <div className={`text-2xl font-bold ${getScoreColor(trustScore)}`}>
-              {trustScore}/100
-            </div>
+            {tier ? (
+              <>
+                <div className="text-2xl font-bold" style={{ color: tier.color }}>
+                  {formatScore(trustScore)}
+                </div>
+                <div className="text-sm font-semibold" style={{ color: tier.color }}>
+                  {tier.name} Tier
+                </div>
+              </>
+            ) : (
+              <div className="text-sm text-gray-500 dark:text-gray-400">No PoEP passport</div>
+            )}
           </div>
         )}
       </div>
@@ -2,10 +2,11 @@
 
 import { farcasterMiniApp } from '@farcaster/miniapp-wagmi-connector';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
-import { WagmiProvider, createConfig, http } from 'wagmi';
-import { base } from 'wagmi/chains';
+import { WagmiProvider, createConfig, fallback, http } from 'wagmi';
 import { useMemo, ReactNode } from 'react';
-import { coinbaseWallet, metaMask, walletConnect } from 'wagmi/connectors';
+import { coinbaseWallet, metaMask, mock, walletConnect } from 'wagmi/connectors';
+import { NETWORK } from '~/lib/networks';
+import { usePassportEvents } from '~/hooks/usePassport';
 
 // Environment validation
 const validateEnvironment = () => {
@@ -56,6 +57,15 @@ const getWagmiConfig = () => {
 
     // Add browser wallet connectors only in browser environment
     if (typeof window !== 'undefined') {
+      // Local development: a Hardhat account the node signs for, no extension needed
+      const localAccount = process.env.NEXT_PUBLIC_LOCALHOST_ACCOUNT;
+      if (NETWORK.id === 'localhost' && localAccount) {
+        connectors.push(mock({
+          accounts: [localAccount as `0x${string}`],
+          features: { reconnect: true }
+        }));
+      }
+
       // MetaMask connector
       connectors.push(metaMask({
         dappMetadata: {
@@ -87,8 +97,8 @@ const getWagmiConfig = () => {
       }
     }
 
-    // Production chain configuration - always use Base mainnet
-    const chains = [base] as const;
+    // Only the selected network - the app never acts on another chain
+    const chains = [NETWORK.chain] as const;
 
     wagmiConfigInstance = createConfig({
       chains,
@@ -96,7 +106,7 @@ const getWagmiConfig = () => {
       multiInjectedProviderDiscovery: false, // Prevent discovery conflicts
       ssr: true,
       transports: {
-        [base.id]: http(process.env.NEXT_PUBLIC_BASE_RPC_URL || 'https://mainnet.base.org'),
+        [NETWORK.chainId]: fallback(NETWORK.rpcUrls.map(url => http(url))),
       },
     });
 
@@ -107,6 +117,13 @@ const getWagmiConfig = () => {
   }
 };
 
+// Invalidates cached passports when the contract emits mint or score events,
+// while a passport is on screen
+function PassportEventSync() {
+  usePassportEvents();
+  return null;
+}
+
 interface WagmiProviderProps {
   children: ReactNode;
 }
@@ -119,6 +136,7 @@ export default function Provider({ children }: WagmiProviderProps) {
   return (
     <WagmiProvider config={config}>
       <QueryClientProvider client={queryClient}>
+        <PassportEventSync />
         {children}
       </QueryClientProvider>
     </WagmiProvider>
@@ -2,7 +2,11 @@
 
 import { useMiniKit } from '@coinbase/onchainkit/minikit';
 import { useAccount } from 'wagmi';
-import { useState, useEffect } from 'react';
+import { POEP_CONTRACT_ADDRESS } from '~/lib/config';
+import { NETWORK } from '~/lib/networks';
+import { formatScore, getTierForScore } from '~/lib/tierPolicy';
+import ScoreTimeline from '../../ScoreTimeline';
+import { usePassport } from '~/hooks/usePassport';
 
 /**
  * ContextTab component displays the current mini app context in JSON format.
@@ -24,51 +28,15 @@ import { useState, useEffect } from 'react';
 export function ContextTab() {
   const { context } = useMiniKit();
   const { address, isConnected } = useAccount();
-  const [poepStatus, setPoepStatus] = useState<{
-    hasPoEP: boolean;
-    trustScore: number;
-    tokenId: string | null;
-    loading: boolean;
-  }>({
-    hasPoEP: false,
-    trustScore: 0,
-    tokenId: null,
-    loading: false
-  });
+  const { data: passport, isLoading } = usePassport(isConnected ? address : undefined);
+  const poepStatus = {
+    hasPoEP: passport?.hasPassport ?? false,
+    trustScore: passport?.trustScore ?? 0,
+    tokenId: passport?.tokenId ?? null,
+    loading: isLoading
+  };
 
-  // Check PoEP status when wallet connects
-  useEffect(() => {
-    const checkPoepStatus = async () => {
-      if (!address || !isConnected) {
-        setPoepStatus(prev => ({
-          ...prev,
-          hasPoEP: false,
-          trustScore: 0,
-          tokenId: null,
-          loading: false
-        }));
-        return;
-      }
-
-      setPoepStatus(prev => ({ ...prev, loading: true }));
-      try {
-        const response = await fetch(`/api/check-poep?address=${address}`);
-        if (response.ok) {
-          const data = await response.json();
-          setPoepStatus({
-            hasPoEP: data.hasPoEP,
-            trustScore: data.trustScore || 0,
-            tokenId: data.tokenId,
-            loading: false
-          });
-        }
-      } catch (_error) {
-        setPoepStatus(prev => ({ ...prev, loading: false }));
-      }
-    };
-
-    checkPoepStatus();
-  }, [address, isConnected]);
+  const tier = getTierForScore(poepStatus.trustScore);
 
   return (
     <div className="space-y-6 px-6 w-full max-w-md mx-auto">
@@ -111,7 +79,17 @@ export function ContextTab() {
                 <div className="flex items-center justify-between">
                   <span className="text-neutral-600 dark:text-neutral-300 text-sm">Trust Score</span>
                   <span className="inline-flex items-center px-2 py-1 bg-success-100 dark:bg-success-900/20 rounded-full text-xs font-medium text-success-700 dark:text-success-300">
-                    {poepStatus.trustScore}
+                    {formatScore(poepStatus.trustScore)}
+                  </span>
+                </div>
+                <div className="flex items-center justify-between">
+                  <span className="text-neutral-600 dark:text-neutral-300 text-sm">Tier</span>
+                  <span
+                    className="inline-flex items-center px-2 py-1 rounded-full text-xs font-semibold"
+                    style={{ color: tier.color, background: tier.background }}
+                    title={tier.description}
+                  >
+                    {tier.name}
                   </span>
                 </div>
                 {poepStatus.tokenId && (
@@ -137,6 +115,11 @@ export function ContextTab() {
         </div>
       )}
 
+      {/* Score History */}
+      {isConnected && poepStatus.hasPoEP && (
+        <ScoreTimeline address={address} refreshKey={poepStatus.trustScore} />
+      )}
+
       {/* User Information */}
       {context?.user && (
         <div className="card-primary p-6 space-y-4">
@@ -198,13 +181,13 @@ export function ContextTab() {
           <div className="flex items-center justify-between">
             <span className="text-neutral-600 dark:text-neutral-300 text-sm">Blockchain</span>
             <span className="inline-flex items-center px-2 py-1 bg-primary-100 dark:bg-primary-900/20 rounded-full text-xs font-medium text-primary-700 dark:text-primary-300">
-              {process.env.NODE_ENV === 'production' ? 'Base Mainnet' : 'Base Sepolia'}
+              {NETWORK.name}
             </span>
           </div>
           <div className="flex items-center justify-between">
             <span className="text-neutral-600 dark:text-neutral-300 text-sm">Chain ID</span>
             <span className="font-mono text-xs text-neutral-500 dark:text-neutral-400">
-              {process.env.NODE_ENV === 'production' ? '8453' : '84532'}
+              {NETWORK.chainId}
             </span>
           </div>
           <div className="flex items-center justify-between">
@@ -222,11 +205,17 @@ export function ContextTab() {
           📄 Smart Contract
         </h3>
         <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <span className="text-neutral-600 dark:text-neutral-300 text-sm">Network</span>
+            <span className="text-xs text-neutral-500 dark:text-neutral-400">
+              {NETWORK.name} ({NETWORK.chainId})
+            </span>
+          </div>
           <div className="flex items-center justify-between">
             <span className="text-neutral-600 dark:text-neutral-300 text-sm">Contract Address</span>
             <span className="font-mono text-xs text-neutral-500 dark:text-neutral-400">
-              {process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS ?
-                `${process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS.substring(0, 6)}...${process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS.substring(process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS.length - 4)}`
+              {POEP_CONTRACT_ADDRESS ?
+                `${POEP_CONTRACT_ADDRESS.substring(0, 6)}...${POEP_CONTRACT_ADDRESS.substring(POEP_CONTRACT_ADDRESS.length - 4)}`
                 : 'Not configured'
               }
             </span>
@@ -1,17 +1,31 @@
 "use client";
 
 import { useState, useRef, useEffect } from 'react';
+import { useQueryClient } from '@tanstack/react-query';
 import { useAccount, useSwitchChain } from 'wagmi';
 import { useMiniKit } from '@coinbase/onchainkit/minikit';
-import { Transaction, TransactionButton, TransactionStatus, TransactionStatusLabel, TransactionStatusAction } from '@coinbase/onchainkit/transaction';
-import { encodeFunctionData } from 'viem';
 import { Button } from '../Button';
 import { WalletConnector } from '../../WalletConnector';
-import { generateFaceHash, generateZKProof, type ZKProofResult } from '~/lib/zkProof';
-import { generateZKProof as contractGenerateZKProof } from '~/lib/contract';
-import { POEP_CONTRACT_ABI } from '~/lib/constants';
+import ScoreTimeline from '../../ScoreTimeline';
+import type { ZKProofResult } from '~/lib/zkProof';
+import { RECOMMENDED_CAPTURES } from '~/lib/fuzzyExtractor';
+import { fetchPublishedFaceHelpers, loadFaceHelpers, saveFaceHelper } from '~/lib/faceHelperStore';
+import { toSolidityProof, type SolidityProof } from '~/lib/proofCodec';
+import { preflightMint } from '~/lib/contract';
+import { findMintRevert, MintRevertError } from '~/lib/mintErrors';
+import { formatScore, getTierForScore } from '~/lib/tierPolicy';
+import {
+  startProving,
+  PROVING_STAGES,
+  ProvingCancelledError,
+  type ProvingJob,
+  type ProvingProgress,
+  type ProvingStage
+} from '~/lib/proverClient';
 import { POEP_CONTRACT_ADDRESS } from '~/lib/config';
-import { base } from 'wagmi/chains';
+import { getExplorerUrl, NETWORK } from '~/lib/networks';
+import { refreshPassport, usePassport } from '~/hooks/usePassport';
+import { MintRelayError, useMintPassport, type MintMode } from '~/hooks/useMintPassport';
 
 /**
  * HomeTab component for PoEP (Proof-of-Existence Passport)
@@ -28,6 +42,9 @@ import { base } from 'wagmi/chains';
  * - Trust score tracking
  */
 
+// Delay between burst frames so each capture carries independent sensor noise
+const CAPTURE_FRAME_INTERVAL = 150;
+
 enum PoEPStep {
   Welcome = 'welcome',
   Camera = 'camera',
@@ -36,21 +53,27 @@ enum PoEPStep {
   Error = 'error'
 }
 
+const PROVING_STAGE_LABELS: Record<ProvingStage, { title: string; description: string }> = {
+  decode: { title: 'Reading Captures', description: 'Decoding your photos' },
+  features: { title: 'Analyzing Biometric Features', description: 'Deriving your stable face secret' },
+  witness: { title: 'Computing Witness', description: 'Evaluating the PoEP circuit' },
+  prove: { title: 'Generating ZK Proof', description: 'Creating privacy-preserving proof' }
+};
+
 export function HomeTab() {
   const [currentStep, setCurrentStep] = useState<PoEPStep>(PoEPStep.Welcome);
   const [_isCapturing, _setIsCapturing] = useState(false);
   const [_capturedImage, setCapturedImage] = useState<string | null>(null);
   const [error, setError] = useState<string | null>(null);
-  const [_zkProof, setZkProof] = useState<ZKProofResult | null>(null);
-  const [userTrustScore, setUserTrustScore] = useState<number>(0);
-  const [hasExistingPassport, setHasExistingPassport] = useState<boolean>(false);
-  const [tokenId, setTokenId] = useState<string | null>(null);
+  const [zkProof, setZkProof] = useState<ZKProofResult | null>(null);
   const [transactionHash, setTransactionHash] = useState<string | null>(null);
   const [mounted, setMounted] = useState(false);
   const [walletConnected, setWalletConnected] = useState(false);
   const videoRef = useRef<HTMLVideoElement>(null);
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const streamRef = useRef<MediaStream | null>(null);
+  const provingJobRef = useRef<ProvingJob | null>(null);
+  const [provingProgress, setProvingProgress] = useState<ProvingProgress | null>(null);
 
   // Base MiniKit integration
   const { context } = useMiniKit();
@@ -64,21 +87,26 @@ export function HomeTab() {
 
   const { switchChain } = useSwitchChain();
 
-  // Transaction state management for OnchainKit
-  const [contractCallData, setContractCallData] = useState<{
-    to: `0x${string}`;
-    data: `0x${string}`;
-    value: string;
-  } | null>(null);
+  // Passport state is shared with the other tabs and refetched on mint and score events.
+  // Manual refreshes skip the server's passport cache, which may predate the mint.
+  const queryClient = useQueryClient();
+  const { data: passport } = usePassport(isConnected ? address : undefined);
+  const hasExistingPassport = passport?.hasPassport ?? false;
+  const userTrustScore = passport?.trustScore ?? 0;
+  const tokenId = passport?.tokenId ?? null;
+
+  // Proven mint arguments, waiting for the user to send the transaction
+  const [mintArgs, setMintArgs] = useState<{ proof: SolidityProof; nullifier: string } | null>(null);
+  const mintPassport = useMintPassport();
+  // Set when the gasless relay could not mint; offers minting from the wallet instead
+  const [relayError, setRelayError] = useState<string | null>(null);
 
   // Helper function to get explorer URLs
   const getExplorerUrls = (tokenId: string | null, transactionHash: string | null) => {
-    const baseUrl = 'https://basescan.org'; // Always use mainnet explorer
-
     return {
-      token: tokenId && POEP_CONTRACT_ADDRESS ? `${baseUrl}/nft/${POEP_CONTRACT_ADDRESS}/${tokenId}` : null,
-      transaction: transactionHash ? `${baseUrl}/tx/${transactionHash}` : null,
-      contract: POEP_CONTRACT_ADDRESS ? `${baseUrl}/address/${POEP_CONTRACT_ADDRESS}` : null
+      token: tokenId ? getExplorerUrl('token', tokenId) : null,
+      transaction: transactionHash ? getExplorerUrl('tx', transactionHash) : null,
+      contract: POEP_CONTRACT_ADDRESS ? getExplorerUrl('address', POEP_CONTRACT_ADDRESS) : null
     };
   };
 
@@ -87,6 +115,14 @@ export function HomeTab() {
     setMounted(true);
   }, []);
 
+  // Stop any proof still running in the worker when leaving the tab
+  useEffect(() => {
+    return () => {
+      provingJobRef.current?.cancel();
+      provingJobRef.current = null;
+    };
+  }, []);
+
   // Update wallet connection state
   useEffect(() => {
     setWalletConnected(isConnected);
@@ -96,7 +132,7 @@ export function HomeTab() {
   useEffect(() => {
     const checkAndSwitchNetwork = async () => {
       if (address && isConnected && chain && !isInFarcaster) {
-        const requiredChain = base; // Always use Base mainnet for production
+        const requiredChain = NETWORK.chain;
 
         if (chain.id !== requiredChain.id) {
           try {
@@ -112,36 +148,6 @@ export function HomeTab() {
     checkAndSwitchNetwork();
   }, [address, isConnected, chain, isInFarcaster, switchChain]);
 
-  // Check for existing passport when component mounts or address changes
-  useEffect(() => {
-    const checkExistingPassport = async () => {
-      if (address && isConnected) {
-        try {
-          const response = await fetch(`/api/check-poep?address=${address}`);
-          if (response.ok) {
-            const data = await response.json();
-            setHasExistingPassport(data.hasPoEP);
-            setUserTrustScore(data.trustScore || 0);
-            setTokenId(data.tokenId);
-          }
-        } catch (_error) {
-          setHasExistingPassport(false);
-          setUserTrustScore(0);
-          setTokenId(null);
-        }
-      } else {
-        // Reset when wallet disconnected
-        setHasExistingPassport(false);
-        setUserTrustScore(0);
-        setTokenId(null);
-      }
-    };
-
-    checkExistingPassport();
-  }, [address, isConnected]);
-
-
-
   const startCamera = async () => {
     try {
       setError(null);
@@ -188,7 +194,7 @@ export function HomeTab() {
     }
   };
 
-  const capturePhoto = () => {
+  const capturePhoto = async () => {
     if (!videoRef.current || !canvasRef.current) return;
 
     const canvas = canvasRef.current;
@@ -198,10 +204,18 @@ export function HomeTab() {
     if (context) {
       canvas.width = video.videoWidth;
       canvas.height = video.videoHeight;
-      context.drawImage(video, 0, 0);
 
-      const imageData = canvas.toDataURL('image/jpeg', 0.8);
-      setCapturedImage(imageData);
+      // Capture a short burst - the fuzzy extractor majority-decodes across frames
+      const frames: string[] = [];
+      for (let i = 0; i < RECOMMENDED_CAPTURES; i++) {
+        if (i > 0) {
+          await new Promise(resolve => setTimeout(resolve, CAPTURE_FRAME_INTERVAL));
+        }
+        context.drawImage(video, 0, 0);
+        frames.push(canvas.toDataURL('image/jpeg', 0.8));
+      }
+
+      setCapturedImage(frames[0]);
 
       // Stop camera stream
       if (streamRef.current) {
@@ -209,38 +223,54 @@ export function HomeTab() {
         streamRef.current = null;
       }
 
-      // Process the image for ZK proof
-      processImage(imageData);
+      // Process the images for ZK proof
+      processImage(frames);
     }
   };
 
-  const processImage = async (imageData: string) => {
+  const processImage = async (frames: string[]) => {
     setCurrentStep(PoEPStep.Processing);
     setError(null);
+    setProvingProgress(null);
 
     try {
 
-      // Step 1: Convert image to face hash
-      let faceHash: string;
-      try {
-        faceHash = await generateFaceHash(imageData);
-      } catch (err) {
-        throw new Error(`Face analysis failed: ${(err as Error).message}`);
+      // Steps 1-2: Derive the face secret and generate a ZK proof bound to the
+      // connected wallet and Base, off the main thread
+      if (!address) {
+        throw new Error('Please connect your wallet before generating a proof');
       }
 
-      // Step 2: Generate ZK proof
+      provingJobRef.current?.cancel();
+      // Helpers from earlier mints on this device, then those published by
+      // relayed mints, let the same face reproduce its secret anywhere
+      const publishedHelpers = await fetchPublishedFaceHelpers();
+      const helpers = [...new Set([...loadFaceHelpers(), ...publishedHelpers])];
+      const job = startProving(frames, address, NETWORK.chainId, setProvingProgress, helpers);
+      provingJobRef.current = job;
+
       let proof: ZKProofResult;
       try {
-        proof = await generateZKProof(faceHash);
+        proof = await job.promise;
         setZkProof(proof);
       } catch (err) {
+        if (err instanceof ProvingCancelledError) {
+          return;
+        }
         throw new Error(`ZK proof generation failed: ${(err as Error).message}`);
+      } finally {
+        if (provingJobRef.current === job) {
+          provingJobRef.current = null;
+        }
       }
 
-      // Step 3: Prepare transaction data for OnchainKit
+      // Step 3: Preflight the mint and wait for the user to send it
       try {
         await prepareTransaction(proof);
       } catch (err) {
+        if (err instanceof MintRevertError) {
+          throw err;
+        }
         throw new Error(`Transaction preparation failed: ${(err as Error).message}`);
       }
     } catch (err: any) {
@@ -251,7 +281,9 @@ export function HomeTab() {
       }
 
       // Add helpful suggestions based on error type
-      if (err.message?.includes('Camera')) {
+      if (err instanceof MintRevertError) {
+        errorMessage += `\n\n${err.guidance}`;
+      } else if (err.message?.includes('Camera')) {
         errorMessage += '\n\nTip: Please allow camera permissions and ensure good lighting.';
       } else if (err.message?.includes('ZK proof')) {
         errorMessage += '\n\nTip: This may be due to network issues. Please check your connection and try again.';
@@ -267,14 +299,14 @@ export function HomeTab() {
 
   const prepareTransaction = async (proof: ZKProofResult) => {
     try {
-      // Generate contract-compatible ZK proof using the same face hash
+      // The proof is bound to the connected wallet
       if (!address) {
         throw new Error('Wallet address is required for contract proof generation');
       }
 
       // Check and switch network if needed
       if (!isInFarcaster && chain) {
-        const requiredChain = base; // Always use Base mainnet
+        const requiredChain = NETWORK.chain;
 
         if (chain.id !== requiredChain.id) {
           try {
@@ -285,38 +317,26 @@ export function HomeTab() {
         }
       }
 
-      const contractProof = await contractGenerateZKProof(proof.faceHash, proof.nonce, address);
+      // Reuse the worker's proof - it is already bound to this wallet and chain
+      const contractProof = toSolidityProof(proof.proof);
 
       // Get contract address from config (environment-aware)
       if (!POEP_CONTRACT_ADDRESS) {
         throw new Error('Contract address not configured for current environment');
       }
 
-      // Prepare transaction data for OnchainKit Transaction component
-      const data = encodeFunctionData({
-        abi: POEP_CONTRACT_ABI,
-        functionName: 'mint',
-        args: [
-          contractProof.pA,
-          contractProof.pB,
-          contractProof.pC,
-          BigInt(contractProof.nullifier)
-        ]
-      });
+      // Simulate the mint first so known reverts are explained before the wallet opens
+      await preflightMint(address, contractProof, proof.nullifier);
 
-      setContractCallData({
-        to: POEP_CONTRACT_ADDRESS,
-        data,
-        value: '0',
-      });
+      setMintArgs({ proof: contractProof, nullifier: proof.nullifier });
 
-      // Move to processing step to show Transaction component
+      // Stay on the processing step, which now shows the mint button
       setCurrentStep(PoEPStep.Processing);
     } catch (error: any) {
       if (error.message?.includes('User rejected')) {
         throw new Error('Transaction was cancelled. Please try again and approve the transaction.');
-      } else if (error.message?.includes('Already minted') || error.message?.includes('AlreadyMinted')) {
-        setHasExistingPassport(true);
+      } else if (error instanceof MintRevertError && error.code === 'ALREADY_MINTED') {
+        refreshPassport(queryClient, address);
         setCurrentStep(PoEPStep.Success);
         return;
       } else {
@@ -326,60 +346,67 @@ export function HomeTab() {
   };
 
   const resetFlow = () => {
+    provingJobRef.current?.cancel();
+    provingJobRef.current = null;
+    setProvingProgress(null);
     setCurrentStep(PoEPStep.Welcome);
     setCapturedImage(null);
     setError(null);
-    setContractCallData(null);
+    setMintArgs(null);
+    setRelayError(null);
+    mintPassport.reset();
     if (streamRef.current) {
       streamRef.current.getTracks().forEach(track => track.stop());
       streamRef.current = null;
     }
   };
 
-  const refreshTrustScore = async () => {
-    if (!address || !isConnected) return;
+  const userTier = getTierForScore(userTrustScore);
 
-    try {
-      const response = await fetch(`/api/check-poep?address=${address}`);
-      if (response.ok) {
-        const data = await response.json();
-        setUserTrustScore(data.trustScore || 0);
-        setHasExistingPassport(data.hasPoEP);
-        setTokenId(data.tokenId);
-      }
-    } catch (_error) {
-      // Silent fail - user can try again
-    }
+  const refreshTrustScore = () => {
+    refreshPassport(queryClient, address);
   };
 
-  // Handle successful transaction
-  const handleTransactionSuccess = async (txHash: string) => {
-    setTransactionHash(txHash);
-
-    // Set initial state immediately for better UX
-    setHasExistingPassport(true);
-    setUserTrustScore(1); // Start with contract's initial score of 1
-    setCurrentStep(PoEPStep.Success);
+  // Send the mint, relayed unless the user chose to pay gas after a relay
+  // failure; the cache switches every tab over once it confirms
+  const submitMint = (mode: MintMode = 'relay') => {
+    if (!mintArgs) return;
+    setRelayError(null);
 
-    // Background verification - get real score from blockchain
-    setTimeout(async () => {
-      try {
-        // Wait for blockchain confirmation
-        await new Promise(resolve => setTimeout(resolve, 5000));
-
-        const response = await fetch(`/api/check-poep?address=${address}`);
-        if (response.ok) {
-          const data = await response.json();
-          if (data.hasPoEP) {
-            // Update with actual trust score from blockchain
-            setUserTrustScore(data.trustScore || 1);
-            setTokenId(data.tokenId);
-          }
+    mintPassport.mutate({ ...mintArgs, faceHelper: zkProof?.faceHelper, mode }, {
+      onSuccess: ({ transactionHash }) => {
+        if (zkProof?.faceHelper) {
+          saveFaceHelper(zkProof.faceHelper);
         }
-      } catch (error) {
-        console.warn('Background verification failed:', error);
+        setTransactionHash(transactionHash);
+        setCurrentStep(PoEPStep.Success);
+      },
+      onError: (error) => {
+        let errorMessage = 'Transaction failed';
+        const revert = error instanceof MintRevertError ? error : findMintRevert(error.message);
+        if (error.message?.includes('User rejected')) {
+          errorMessage = mode === 'relay'
+            ? 'Please sign the mint request in your wallet to create your PoEP passport.'
+            : 'Please approve the transaction in your wallet to create your PoEP passport.';
+        } else if (error instanceof MintRelayError) {
+          // Keep the proof; the mint card offers the wallet fallback
+          setRelayError(error.message);
+          return;
+        } else if (revert?.code === 'ALREADY_MINTED') {
+          refreshPassport(queryClient, address);
+          setCurrentStep(PoEPStep.Success);
+          return;
+        } else if (revert) {
+          errorMessage = `${revert.message}\n\n${revert.guidance}`;
+        } else if (error.message?.includes('insufficient funds')) {
+          errorMessage = 'You need more ETH for gas fees. The cost is very low on Base (~$0.01).';
+        } else {
+          errorMessage = `Minting failed: ${error.message}`;
+        }
+        setError(errorMessage);
+        setCurrentStep(PoEPStep.Error);
       }
-    }, 100);
+    });
   };
 
   const renderExistingPassport = () => (
@@ -412,6 +439,11 @@ export function HomeTab() {
             <p className="text-xs text-primary-600 dark:text-primary-400">Trust Score</p>
           </div>
           <div className="w-px h-8 bg-primary-300 dark:bg-primary-600"></div>
+          <div className="text-center">
+            <p className="text-sm font-semibold" style={{ color: userTier.color }}>{userTier.name}</p>
+            <p className="text-xs text-primary-600 dark:text-primary-400">Tier</p>
+          </div>
+          <div className="w-px h-8 bg-primary-300 dark:bg-primary-600"></div>
           <div className="text-center">
             <p className="text-sm font-semibold text-primary-700 dark:text-primary-300">Verified</p>
             <p className="text-xs text-primary-600 dark:text-primary-400">Identity</p>
@@ -419,6 +451,9 @@ export function HomeTab() {
         </div>
       </div>
 
+      {/* Score History */}
+      <ScoreTimeline address={address} refreshKey={userTrustScore} />
+
       {/* Benefits Overview */}
       <div className="card p-6">
         <h4 className="font-semibold mb-4 text-center">How PoEP Grows</h4>
@@ -441,7 +476,7 @@ export function HomeTab() {
             </div>
           </div>
           <p className="text-xs text-neutral-500 dark:text-neutral-400 mt-3">
-            💡 Trust score updates require indexer service (coming soon)
+            💡 Scores are recomputed regularly from your wallet and Farcaster activity
           </p>
         </div>
       </div>
@@ -516,11 +551,11 @@ export function HomeTab() {
       {!isInFarcaster && chain && (
         <div className="card p-3 text-center">
           <p className="text-xs text-neutral-500 dark:text-neutral-400">
-            Network: <span className={`font-medium ${chain.id === base.id ? 'text-green-600' : 'text-red-600'}`}>
+            Network: <span className={`font-medium ${chain.id === NETWORK.chainId ? 'text-green-600' : 'text-red-600'}`}>
               {chain.name}
             </span>
-            {chain.id !== base.id && (
-              <span className="text-red-600 ml-2">⚠️ Please switch to Base Mainnet</span>
+            {chain.id !== NETWORK.chainId && (
+              <span className="text-red-600 ml-2">⚠️ Please switch to {NETWORK.name}</span>
             )}
           </p>
         </div>
@@ -663,40 +698,58 @@ export function HomeTab() {
         <div className="w-20 h-20 mx-auto bg-gradient-to-br from-primary-500 to-accent-500 rounded-full flex items-center justify-center">
           <div className="spinner-primary w-10 h-10"></div>
         </div>
-        <div>
-          <h3 className="text-2xl font-bold">Identity Verified ✅</h3>
-          <p className="text-neutral-500 dark:text-neutral-400">
-            Scroll down and click the button to mint your passport
-          </p>
-        </div>
+        {mintArgs ? (
+          <div>
+            <h3 className="text-2xl font-bold">Identity Verified ✅</h3>
+            <p className="text-neutral-500 dark:text-neutral-400">
+              Scroll down and click the button to mint your passport
+            </p>
+          </div>
+        ) : (
+          <div>
+            <h3 className="text-2xl font-bold">Verifying Identity</h3>
+            <p className="text-neutral-500 dark:text-neutral-400">
+              Your photos never leave this device
+            </p>
+          </div>
+        )}
       </div>
 
       <div className="space-y-4">
-        <div className="card-primary p-6">
-          <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-gradient-to-br from-primary-500 to-primary-600 rounded-xl flex items-center justify-center text-xl">
-              🔍
-            </div>
-            <div className="flex-1">
-              <h4 className="font-semibold text-primary-800 dark:text-primary-200">Analyzing Biometric Features</h4>
-              <p className="text-sm text-primary-600 dark:text-primary-300">Processing facial recognition data</p>
+        {PROVING_STAGES.map((stage, index) => {
+          const currentIndex = provingProgress ? PROVING_STAGES.indexOf(provingProgress.stage) : -1;
+          const done = Boolean(mintArgs) || index < currentIndex;
+          const active = !mintArgs && index === currentIndex;
+          const { title, description } = PROVING_STAGE_LABELS[stage];
+
+          return (
+            <div key={stage} className={active ? 'card-primary p-6' : 'card p-6'}>
+              <div className="flex items-center space-x-4">
+                <div className="flex-1">
+                  <h4 className={active ? 'font-semibold text-primary-800 dark:text-primary-200' : 'font-semibold'}>
+                    {title}
+                  </h4>
+                  <p className="text-sm text-neutral-500 dark:text-neutral-400">
+                    {active && provingProgress && provingProgress.total > 1
+                      ? `${description} (${provingProgress.completed + 1}/${provingProgress.total})`
+                      : description}
+                  </p>
+                </div>
+                {done ? (
+                  <span className="text-xl">✅</span>
+                ) : (
+                  <div className={`w-6 h-6 rounded-full ${active ? 'bg-primary-500 animate-pulse' : 'bg-neutral-300 dark:bg-neutral-600'}`}></div>
+                )}
+              </div>
             </div>
-            <div className="w-6 h-6 bg-primary-500 rounded-full animate-pulse"></div>
-          </div>
-        </div>
+          );
+        })}
 
-        <div className="card-accent p-6">
-          <div className="flex items-center space-x-4">
-            <div className="w-12 h-12 bg-gradient-to-br from-accent-500 to-accent-600 rounded-xl flex items-center justify-center text-xl">
-              🧮
-            </div>
-            <div className="flex-1">
-              <h4 className="font-semibold text-accent-800 dark:text-accent-200">Generating ZK Proof</h4>
-              <p className="text-sm text-accent-600 dark:text-accent-300">Creating privacy-preserving proof</p>
-            </div>
-            <div className="w-6 h-6 bg-accent-500 rounded-full animate-pulse animation-delay-200"></div>
-          </div>
-        </div>
+        {!mintArgs && (
+          <Button onClick={resetFlow} className="w-full btn-secondary">
+            Cancel
+          </Button>
+        )}
 
         <div className="card p-6">
           <div className="flex items-center space-x-4">
@@ -716,8 +769,8 @@ export function HomeTab() {
         </div>
       </div>
 
-      {/* Auto-Transaction Component - More User Friendly */}
-      {contractCallData && (
+      {/* Mint button, shown once the proof is ready */}
+      {mintArgs && (
         <div className="card-primary p-6">
           <div className="text-center space-y-4 mb-6">
             <div className="w-16 h-16 mx-auto bg-gradient-to-br from-success-500 to-success-600 rounded-full flex items-center justify-center text-2xl animate-pulse">
@@ -729,53 +782,35 @@ export function HomeTab() {
             </p>
           </div>
 
-          <Transaction
-            calls={[{
-              to: contractCallData.to,
-              data: contractCallData.data,
-              value: BigInt(contractCallData.value)
-            }]}
-            chainId={base.id}
-            onSuccess={(response) => {
-              const txHash = response.transactionReceipts?.[0]?.transactionHash;
-              if (txHash) {
-                handleTransactionSuccess(txHash);
-              } else {
-                setError('Transaction completed but hash not available');
-                setCurrentStep(PoEPStep.Error);
-              }
-            }}
-            onError={(error) => {
-              let errorMessage = 'Transaction failed';
-              if (error.message?.includes('User rejected')) {
-                errorMessage = 'Please approve the transaction in your wallet to create your PoEP passport.';
-              } else if (error.message?.includes('AlreadyMinted') || error.message?.includes('Already minted')) {
-                setHasExistingPassport(true);
-                setUserTrustScore(100);
-                setCurrentStep(PoEPStep.Success);
-                return;
-              } else if (error.message?.includes('insufficient funds')) {
-                errorMessage = 'You need more ETH for gas fees. The cost is very low on Base (~$0.01).';
-              } else {
-                errorMessage = `Minting failed: ${error.message}`;
-              }
-              setError(errorMessage);
-              setCurrentStep(PoEPStep.Error);
-            }}
+          <Button
+            onClick={() => submitMint()}
+            disabled={mintPassport.isPending}
+            className="w-full btn-primary text-lg py-4 bg-gradient-to-r from-success-500 to-success-600 hover:from-success-600 hover:to-success-700"
           >
-            <TransactionButton
-              className="w-full btn-primary text-lg py-4 bg-gradient-to-r from-success-500 to-success-600 hover:from-success-600 hover:to-success-700"
-              text="🚀 Create My PoEP Passport"
-            />
-            <TransactionStatus>
-              <TransactionStatusLabel />
-              <TransactionStatusAction />
-            </TransactionStatus>
-          </Transaction>
+            {mintPassport.isPending ? '⏳ Minting your passport...' : '🚀 Create My PoEP Passport'}
+          </Button>
+
+          {relayError && !mintPassport.isPending && (
+            <div className="mt-4 space-y-3 text-center">
+              <p className="text-sm text-error-600 dark:text-error-500">
+                {relayError}
+              </p>
+              <Button
+                onClick={() => submitMint('wallet')}
+                className="w-full btn-secondary"
+              >
+                Mint from my wallet instead (you pay gas)
+              </Button>
+              <p className="text-xs text-primary-500 dark:text-primary-400">
+                Wallet mints keep your face helper on this device only. Minting again from another
+                device or after clearing this browser&apos;s storage derives a different nullifier.
+              </p>
+            </div>
+          )}
 
           <div className="mt-4 text-center">
             <p className="text-xs text-primary-500 dark:text-primary-400">
-              💰 Gas cost: ~$0.01 • ⚡ Fast on Base • 🔒 Soul-bound forever
+              ✍️ Sign once, no gas • ⚡ Fast on Base • 🔒 Soul-bound forever
             </p>
           </div>
         </div>
@@ -826,6 +861,9 @@ export function HomeTab() {
               <span className="text-3xl font-bold text-white">{userTrustScore}</span>
             </div>
             <p className="font-semibold text-primary-800 dark:text-primary-200">Trust Score</p>
+            <p className="text-xs font-semibold" style={{ color: userTier.color }}>
+              {userTier.name} Tier · {formatScore(userTrustScore)}
+            </p>
             <p className="text-xs text-primary-600 dark:text-primary-300">Building with each transaction</p>
           </div>
           <div className="text-center">
@@ -0,0 +1,271 @@
+'use client';
+
+import { useMutation, useQueryClient } from '@tanstack/react-query';
+import { useAccount, useConfig, useSignTypedData, useWriteContract } from 'wagmi';
+import { waitForTransactionReceipt } from 'wagmi/actions';
+import { POEP_CONTRACT_ABI } from '~/lib/constants';
+import { POEP_CONTRACT_ADDRESS } from '~/lib/config';
+import { getMintIntentTypedData } from '~/lib/contract';
+import { findMintRevertByCode, MintRevertError } from '~/lib/mintErrors';
+import { NETWORK } from '~/lib/networks';
+import { toCalldataProof, type SolidityProof } from '~/lib/proofCodec';
+import { SCORE_MIN } from '~/lib/tierPolicy';
+import { passportQueryKey, refreshPassport, type PassportStatus } from './usePassport';
+
+/**
+ * How a passport is minted: `relay` signs a MintIntent and lets
+ * /api/mint-poep pay gas; `wallet` sends PoEP.mint from the connected wallet
+ */
+export type MintMode = 'relay' | 'wallet';
+
+/**
+ * Arguments of PoEP.mint for the connected wallet
+ */
+interface MintPassportVariables {
+  /** Groth16 proof bound to the connected wallet and chain */
+  proof: SolidityProof;
+  /** Nullifier public signal of the proof */
+  nullifier: string;
+  /** Fuzzy extractor helper of the proof; relayed mints publish it */
+  faceHelper?: string;
+  /** Defaults to `relay` */
+  mode?: MintMode;
+}
+
+/**
+ * A confirmed mint
+ */
+interface MintPassportResult {
+  /** Wallet the passport was minted to */
+  address: `0x${string}`;
+  transactionHash: `0x${string}`;
+  blockNumber: bigint;
+}
+
+/**
+ * Public view of a relayer job, as returned by /api/mint-poep
+ */
+interface MintJobResponse {
+  jobId: string;
+  status: 'queued' | 'submitted' | 'confirmed' | 'failed';
+  transactionHash: `0x${string}` | null;
+  blockNumber: number | null;
+  error: string | null;
+  code: string | null;
+  statusUrl: string;
+}
+
+/**
+ * The relayer could not mint, for a reason other than a contract revert:
+ * not configured, out of funds, unreachable or still pending. Minting from
+ * the wallet is the fallback.
+ */
+export class MintRelayError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MintRelayError';
+  }
+}
+
+const RELAY_SUBMIT_ATTEMPTS = 3;
+const RELAY_POLL_INTERVAL_MS = 3000;
+// Covers a few fee-bumped replacements
+const RELAY_TIMEOUT_MS = 5 * 60 * 1000;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+function toMintError(body: { error?: string | null; code?: string | null } | null, fallback: string): Error {
+  const revert = findMintRevertByCode(body?.code);
+  return revert ? new MintRevertError(revert) : new MintRelayError(body?.error || fallback);
+}
+
+async function readJson(response: Response): Promise<any> {
+  try {
+    return await response.json();
+  } catch (_error) {
+    return null;
+  }
+}
+
+// POST the signed request. Network errors and gateway failures are retried
+// with the same Idempotency-Key, so a request that did reach the relayer
+// returns its job instead of queueing a second one.
+async function submitRelayedMint(body: Record<string, unknown>): Promise<MintJobResponse> {
+  const idempotencyKey = crypto.randomUUID();
+  let lastError: Error = new MintRelayError('Mint relay is unavailable');
+
+  for (let attempt = 0; attempt < RELAY_SUBMIT_ATTEMPTS; attempt++) {
+    if (attempt > 0) await sleep(RELAY_POLL_INTERVAL_MS);
+
+    let response: Response;
+    try {
+      response = await fetch('/api/mint-poep', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', 'Idempotency-Key': idempotencyKey },
+        body: JSON.stringify(body)
+      });
+    } catch (_error) {
+      lastError = new MintRelayError('Could not reach the mint relay');
+      continue;
+    }
+
+    const json = await readJson(response);
+    if (response.ok && json?.jobId) {
+      return json as MintJobResponse;
+    }
+
+    lastError = toMintError(json, `Mint relay failed with status ${response.status}`);
+    if (![502, 503, 504].includes(response.status) || lastError instanceof MintRevertError) {
+      break;
+    }
+  }
+
+  throw lastError;
+}
+
+// Poll the job until it confirms or fails. Each poll also advances the job
+// on the server (submission, receipt check, fee bumps).
+async function waitForRelayedMint(job: MintJobResponse): Promise<MintJobResponse> {
+  const startedAt = Date.now();
+
+  while (job.status === 'queued' || job.status === 'submitted') {
+    if (Date.now() - startedAt > RELAY_TIMEOUT_MS) {
+      throw new MintRelayError('Your mint is taking longer than usual. Check your passport again in a few minutes.');
+    }
+    await sleep(RELAY_POLL_INTERVAL_MS);
+
+    let response: Response;
+    try {
+      response = await fetch(job.statusUrl, { cache: 'no-store' });
+    } catch (_error) {
+      continue;
+    }
+
+    const json = await readJson(response);
+    if (json?.jobId) {
+      job = json as MintJobResponse;
+    } else if (response.status === 404) {
+      throw new MintRelayError('Mint job not found');
+    }
+    // Rate limits and outages leave the job as it was; poll again
+  }
+
+  if (job.status === 'failed' || !job.transactionHash) {
+    throw toMintError(job, 'Mint transaction failed');
+  }
+  return job;
+}
+
+/**
+ * Mint a passport for the connected wallet
+ *
+ * By default the mint is relayed: the wallet signs an EIP-712 MintIntent, the
+ * proof and signature go to /api/mint-poep, and the job is polled until it
+ * confirms, so the user pays no gas; the relayer then publishes `faceHelper`
+ * so the face reproduces its nullifier on other devices. With `mode: 'wallet'`
+ * PoEP.mint is sent from the wallet instead and the helper is not published;
+ * use it only as an explicit fallback after a MintRelayError. Either way the new passport is then written into the shared
+ * cache, so every component using usePassport for the wallet switches over,
+ * and refreshed, so the real score replaces the genesis score. Reverts are
+ * not preflighted here; call preflightMint first for readable errors.
+ *
+ * @returns React Query mutation; `mutate({ proof, nullifier })` starts a mint
+ *
+ * @example
+ * ```tsx
+ * const mintPassport = useMintPassport();
+ *
+ * <Button
+ *   onClick={() => mintPassport.mutate({ proof, nullifier })}
+ *   isLoading={mintPassport.isPending}
+ * >
+ *   Mint
+ * </Button>
+ * ```
+ */
+export function useMintPassport() {
+  const { address } = useAccount();
+  const config = useConfig();
+  const queryClient = useQueryClient();
+  const { writeContractAsync } = useWriteContract();
+  const { signTypedDataAsync } = useSignTypedData();
+
+  const mintRelayed = async (
+    account: `0x${string}`,
+    proof: SolidityProof,
+    nullifier: string,
+    faceHelper?: string
+  ): Promise<MintPassportResult> => {
+    const typedData = await getMintIntentTypedData(account, nullifier);
+    const signature = await signTypedDataAsync({ ...typedData, account });
+
+    const job = await submitRelayedMint({
+      proof: toCalldataProof(proof),
+      nullifier,
+      userAddress: account,
+      deadline: typedData.message.deadline.toString(),
+      signature,
+      faceHelper
+    });
+    const confirmed = await waitForRelayedMint(job);
+
+    return {
+      address: account,
+      transactionHash: confirmed.transactionHash!,
+      blockNumber: BigInt(confirmed.blockNumber ?? 0)
+    };
+  };
+
+  const mintFromWallet = async (
+    account: `0x${string}`,
+    proof: SolidityProof,
+    nullifier: string
+  ): Promise<MintPassportResult> => {
+    const transactionHash = await writeContractAsync({
+      address: POEP_CONTRACT_ADDRESS,
+      abi: POEP_CONTRACT_ABI,
+      functionName: 'mint',
+      args: [proof.pA, proof.pB, proof.pC, BigInt(nullifier)],
+      // Required by the typings with strictNullChecks off; wagmi still
+      // sends from the connector to chainId
+      account,
+      chain: NETWORK.chain,
+      chainId: NETWORK.chainId
+    });
+
+    const receipt = await waitForTransactionReceipt(config, {
+      hash: transactionHash,
+      chainId: NETWORK.chainId
+    });
+    if (receipt.status !== 'success') {
+      throw new Error(`Mint transaction ${transactionHash} reverted`);
+    }
+
+    return { address: account, transactionHash, blockNumber: receipt.blockNumber };
+  };
+
+  return useMutation({
+    mutationFn: async ({ proof, nullifier, faceHelper, mode = 'relay' }: MintPassportVariables): Promise<MintPassportResult> => {
+      if (!address) {
+        throw new Error('Please connect your wallet before minting');
+      }
+      if (!POEP_CONTRACT_ADDRESS) {
+        throw new Error('Contract address not configured for current environment');
+      }
+
+      return mode === 'wallet'
+        ? await mintFromWallet(address, proof, nullifier)
+        : await mintRelayed(address, proof, nullifier, faceHelper);
+    },
+    onSuccess: ({ address }) => {
+      // New passports start at the contract's genesis score
+      const minted: PassportStatus = {
+        hasPassport: true,
+        trustScore: SCORE_MIN,
+        tokenId: BigInt(address).toString()
+      };
+      queryClient.setQueryData(passportQueryKey(address), minted);
+      refreshPassport(queryClient, address);
+    }
+  });
+}
@@ -0,0 +1,166 @@
+'use client';
+
+import { useSyncExternalStore } from 'react';
+import { useQuery, useQueryClient, type QueryClient } from '@tanstack/react-query';
+import type { WatchContractEventOnLogsParameter } from 'viem';
+import { useWatchContractEvent } from 'wagmi';
+import { POEP_CONTRACT_ABI } from '~/lib/constants';
+import { POEP_CONTRACT_ADDRESS } from '~/lib/config';
+
+/**
+ * Passport state of one address, as reported by /api/check-poep
+ */
+export interface PassportStatus {
+  /** Whether the address holds a PoEP */
+  hasPassport: boolean;
+  /** Current trust score, 0 without a passport */
+  trustScore: number;
+  /** Token id (the address as a decimal number), or null without a passport */
+  tokenId: string | null;
+}
+
+/**
+ * React Query key for an address's passport. Every hook below shares it, so a
+ * refetch or invalidation updates all components showing the same address.
+ *
+ * @param {string} address - Wallet address, any casing
+ */
+export function passportQueryKey(address: string) {
+  return ['poep', 'passport', address.toLowerCase()] as const;
+}
+
+type PassportEventLogs = WatchContractEventOnLogsParameter<
+  typeof POEP_CONTRACT_ABI,
+  'PassportMinted' | 'ScoreUpdated'
+>;
+
+async function fetchPassportStatus(address: string, fresh = false): Promise<PassportStatus> {
+  const response = await fetch(`/api/check-poep?address=${address}${fresh ? '&fresh=1' : ''}`);
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || `Passport check failed with status ${response.status}`);
+  }
+
+  return {
+    hasPassport: Boolean(data.hasPoEP),
+    trustScore: data.trustScore || 0,
+    tokenId: data.tokenId ?? null
+  };
+}
+
+/**
+ * Refetch an address's passport, skipping the server's passport cache
+ *
+ * For when the chain is known to have changed, e.g. after a mint or score
+ * event: a normal refetch could get the cached state from before it. Only
+ * addresses the QueryClient already holds are fetched.
+ *
+ * @param {QueryClient} queryClient - The app's shared QueryClient
+ * @param {string} address - Wallet address, any casing
+ */
+export async function refreshPassport(queryClient: QueryClient, address: string): Promise<void> {
+  const queryKey = passportQueryKey(address);
+  if (!queryClient.getQueryState(queryKey)) return;
+
+  await queryClient.prefetchQuery({
+    queryKey,
+    queryFn: () => fetchPassportStatus(address, true),
+    staleTime: 0
+  });
+}
+
+/**
+ * Passport state for an address, cached in the app's shared QueryClient
+ *
+ * The query is disabled while `address` is undefined, e.g. before the wallet
+ * connects. Data stays cached until a PassportMinted or ScoreUpdated event for
+ * the address refreshes it (see usePassportEvents) or a mint through
+ * useMintPassport confirms.
+ *
+ * @param {string} [address] - Wallet address to look up
+ * @returns React Query result with `data: PassportStatus`
+ *
+ * @example
+ * ```tsx
+ * const { address } = useAccount();
+ * const { data: passport, isLoading } = usePassport(address);
+ *
+ * if (isLoading) return <Spinner />;
+ * return passport?.hasPassport ? <Badge /> : <MintPrompt />;
+ * ```
+ */
+export function usePassport(address?: string) {
+  return useQuery({
+    queryKey: passportQueryKey(address ?? ''),
+    queryFn: () => fetchPassportStatus(address!),
+    enabled: Boolean(address)
+  });
+}
+
+/**
+ * Trust score for an address, 0 without a passport. Reads the same cache entry
+ * as usePassport, so both never disagree.
+ *
+ * @param {string} [address] - Wallet address to look up
+ * @returns React Query result with `data: number`
+ */
+export function useTrustScore(address?: string) {
+  return useQuery({
+    queryKey: passportQueryKey(address ?? ''),
+    queryFn: () => fetchPassportStatus(address!),
+    enabled: Boolean(address),
+    select: (status: PassportStatus) => status.trustScore
+  });
+}
+
+// Whether any mounted, enabled usePassport/useTrustScore is watching an address
+function useIsPassportObserved(queryClient: QueryClient): boolean {
+  const queryCache = queryClient.getQueryCache();
+
+  return useSyncExternalStore(
+    onChange => queryCache.subscribe(onChange),
+    () => queryCache
+      .findAll({ queryKey: ['poep', 'passport'] })
+      .some(query => query.getObserversCount() > 0 && !query.isDisabled()),
+    () => false
+  );
+}
+
+/**
+ * Keep cached passports in sync with the contract
+ *
+ * Watches PassportMinted and ScoreUpdated and refreshes the passport of each
+ * user named in the logs, so every mounted usePassport/useTrustScore for that
+ * address updates at once. Mount it once, below the QueryClientProvider;
+ * the app does this in the wagmi Provider. The watchers only poll while some
+ * component observes a passport, so screens without one cost no RPC calls.
+ */
+export function usePassportEvents(): void {
+  const queryClient = useQueryClient();
+  const enabled = useIsPassportObserved(queryClient) && Boolean(POEP_CONTRACT_ADDRESS);
+
+  const refresh = (logs: PassportEventLogs) => {
+    const users = new Set(
+      logs.map(log => log.args.user).filter(Boolean).map(user => user.toLowerCase())
+    );
+    users.forEach(user => {
+      refreshPassport(queryClient, user);
+    });
+  };
+
+  useWatchContractEvent({
+    address: POEP_CONTRACT_ADDRESS,
+    abi: POEP_CONTRACT_ABI,
+    eventName: 'PassportMinted',
+    enabled,
+    onLogs: refresh
+  });
+
+  useWatchContractEvent({
+    address: POEP_CONTRACT_ADDRESS,
+    abi: POEP_CONTRACT_ABI,
+    eventName: 'ScoreUpdated',
+    enabled,
+    onLogs: refresh
+  });
+}
@@ -0,0 +1,172 @@
+/**
+ * Caller authentication for API routes
+ *
+ * Callers send one of two schemes in the Authorization header:
+ *
+ *   Bearer <jwt>    Farcaster QuickAuth token (sdk.quickAuth.getToken())
+ *   SIWE <token>    session from POST /api/auth/siwe
+ *
+ * QuickAuth identifies an FID rather than a wallet, so the caller's address
+ * is one of the FID's verified Ethereum addresses, looked up through Neynar.
+ * A caller with several can pick one with the X-PoEP-Address header.
+ */
+
+import { ethers } from 'ethers';
+import type { NextRequest } from 'next/server';
+import { APP_URL } from './constants';
+import { AuthenticationError, NetworkError, SecurityError } from './secureErrorHandler';
+import { getSiweSession } from './siweSession';
+
+const QUICK_AUTH_VALIDATE_URL = 'https://auth.farcaster.xyz/v1/validate';
+const NEYNAR_BULK_BY_FID_URL = 'https://api.neynar.com/v2/farcaster/user/bulk';
+const NEYNAR_API_KEY = process.env.NEYNAR_API_KEY;
+
+const REQUEST_TIMEOUT = 8000;
+
+export interface AuthenticatedCaller {
+  address: `0x${string}`;
+  method: 'quickauth' | 'siwe';
+  // Null for SIWE callers
+  fid: number | null;
+}
+
+/**
+ * Validate a QuickAuth JWT with Farcaster's auth server. Returns the user, or
+ * null if the server rejects the token or, when `domain` is given, the token
+ * was issued for another domain. Throws NetworkError if the server cannot be
+ * reached.
+ */
+export async function validateQuickAuthToken(
+  token: string,
+  domain?: string
+): Promise<{ fid: number; [field: string]: any } | null> {
+  let validationResponse: Response;
+  try {
+    validationResponse = await fetch(QUICK_AUTH_VALIDATE_URL, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify({ token }),
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    });
+  } catch (_error) {
+    throw new NetworkError('Farcaster auth server unavailable');
+  }
+
+  if (!validationResponse.ok) {
+    return null;
+  }
+
+  const validationData = await validationResponse.json();
+
+  // Extract user data from validated token
+  const payload = JSON.parse(atob(token.split('.')[1]));
+
+  // Tokens are scoped to the mini app that requested them
+  if (domain && payload.aud !== domain) {
+    return null;
+  }
+
+  return {
+    fid: payload.sub,
+    ...validationData.user
+  };
+}
+
+/**
+ * Verified Ethereum addresses of an FID, primary first
+ */
+async function getVerifiedAddresses(fid: number): Promise<`0x${string}`[]> {
+  if (!NEYNAR_API_KEY) {
+    throw new Error('NEYNAR_API_KEY is required to resolve QuickAuth callers to addresses');
+  }
+
+  let response: Response;
+  try {
+    response = await fetch(`${NEYNAR_BULK_BY_FID_URL}?fids=${fid}`, {
+      headers: { 'x-api-key': NEYNAR_API_KEY, accept: 'application/json' },
+      signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+    });
+  } catch (_error) {
+    throw new NetworkError('Farcaster lookup unavailable');
+  }
+  if (!response.ok) {
+    throw new NetworkError(`Farcaster lookup failed: HTTP ${response.status}`);
+  }
+
+  const { users } = await response.json();
+  const verified = users?.[0]?.verified_addresses;
+  const addresses: string[] = [verified?.primary?.eth_address, ...(verified?.eth_addresses ?? [])]
+    .filter((address): address is string => typeof address === 'string' && ethers.isAddress(address));
+
+  return [...new Set(addresses.map(address => ethers.getAddress(address) as `0x${string}`))];
+}
+
+async function authenticateQuickAuth(
+  token: string,
+  domain: string,
+  requestedAddress: string | null
+): Promise<AuthenticatedCaller> {
+  const user = await validateQuickAuthToken(token, domain);
+  if (!user) {
+    throw new AuthenticationError('Invalid or expired QuickAuth token');
+  }
+
+  const fid = Number(user.fid);
+  const addresses = await getVerifiedAddresses(fid);
+  if (addresses.length === 0) {
+    throw new SecurityError('No verified Ethereum address for this Farcaster account', 'NO_VERIFIED_ADDRESS', 403);
+  }
+
+  if (!requestedAddress) {
+    return { address: addresses[0], method: 'quickauth', fid };
+  }
+
+  const address = ethers.isAddress(requestedAddress) ? ethers.getAddress(requestedAddress) : null;
+  if (!address || !addresses.includes(address as `0x${string}`)) {
+    throw new SecurityError('X-PoEP-Address is not verified for this Farcaster account', 'ADDRESS_NOT_VERIFIED', 403);
+  }
+  return { address: address as `0x${string}`, method: 'quickauth', fid };
+}
+
+/**
+ * Domain QuickAuth tokens must be issued for: NEXT_PUBLIC_URL's host, or the
+ * request's host when it is not set
+ */
+export function getAppDomain(request: NextRequest): string {
+  return APP_URL ? new URL(APP_URL).host : request.nextUrl.host;
+}
+
+/**
+ * Authenticate the caller of an API route from its Authorization header.
+ * Throws AuthenticationError (401) without valid credentials and
+ * SecurityError (403) when a QuickAuth caller has no usable address.
+ */
+export async function authenticateRequest(request: NextRequest): Promise<AuthenticatedCaller> {
+  const authorization = request.headers.get('authorization');
+  if (!authorization) {
+    throw new AuthenticationError('Authorization header required');
+  }
+
+  const [scheme, credentials] = authorization.trim().split(/\s+/, 2);
+  if (!credentials) {
+    throw new AuthenticationError('Malformed Authorization header');
+  }
+
+  switch (scheme.toLowerCase()) {
+    case 'bearer':
+      return authenticateQuickAuth(credentials, getAppDomain(request), request.headers.get('x-poep-address'));
+
+    case 'siwe': {
+      const session = await getSiweSession(credentials);
+      if (!session) {
+        throw new AuthenticationError('Invalid or expired SIWE session');
+      }
+      return { address: session.address, method: 'siwe', fid: null };
+    }
+
+    default:
+      throw new AuthenticationError('Unsupported authorization scheme');
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * Hash-pinned circuit artifact manifest
+ *
+ * public/circuit-manifest.json is generated by scripts/generate-artifact-manifest.js
+ * whenever the circuit is rebuilt. It pins the SHA-256 of the proving artifacts
+ * and the verification key, and records the PoEPVerifier deployed for them on
+ * each chain. next.config.ts inlines it into the bundle as POEP_CIRCUIT_MANIFEST,
+ * so the client checks downloads against the hashes it was built with rather
+ * than against a file served next to the artifacts. /api/health checks the
+ * files on disk and the deployed verifier.
+ */
+
+export interface CircuitArtifactEntry {
+  path: string;
+  sha256: string;
+  size: number;
+}
+
+export interface CircuitArtifactManifest {
+  circuit: string;
+  version: number;
+  nPublic: number;
+  publicSignals: string[];
+  artifacts: {
+    wasm: CircuitArtifactEntry;
+    zkey: CircuitArtifactEntry;
+    verificationKey: CircuitArtifactEntry;
+  };
+  // chainId => PoEPVerifier address built from this verification key
+  verifiers: Record<string, string>;
+  generatedAt: string;
+}
+
+export interface VerifiedCircuitArtifacts {
+  manifest: CircuitArtifactManifest;
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+}
+
+// Null outside a Next.js build, e.g. in Node scripts, which read the circuit from disk
+const BUNDLED_MANIFEST: CircuitArtifactManifest | null = process.env.POEP_CIRCUIT_MANIFEST
+  ? JSON.parse(process.env.POEP_CIRCUIT_MANIFEST)
+  : null;
+
+// Downloads are cached per page load once they pass the hash check
+let verifiedArtifactsPromise: Promise<VerifiedCircuitArtifacts> | null = null;
+
+/**
+ * SHA-256 of a buffer as lowercase hex (Web Crypto, so it runs in the
+ * browser and in Node)
+ */
+export async function sha256Hex(data: ArrayBuffer | Uint8Array): Promise<string> {
+  const digest = await globalThis.crypto.subtle.digest('SHA-256', data as BufferSource);
+  return Array.from(new Uint8Array(digest))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+}
+
+async function fetchBytes(url: string): Promise<Uint8Array> {
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Failed to download ${url}: ${response.status}`);
+  }
+  return new Uint8Array(await response.arrayBuffer());
+}
+
+/**
+ * Check downloaded bytes against a manifest entry
+ */
+export async function matchesManifestEntry(
+  data: Uint8Array,
+  entry: CircuitArtifactEntry
+): Promise<boolean> {
+  return data.byteLength === entry.size && (await sha256Hex(data)) === entry.sha256;
+}
+
+/**
+ * Download the proving artifacts and reject them if any hash differs from the
+ * bundled manifest. The verified bytes are handed to snarkjs directly so the
+ * files cannot change between the check and the proof.
+ */
+export function loadVerifiedCircuitArtifacts(baseUrl = ''): Promise<VerifiedCircuitArtifacts> {
+  if (!verifiedArtifactsPromise) {
+    verifiedArtifactsPromise = (async () => {
+      const manifest = BUNDLED_MANIFEST;
+      if (!manifest) {
+        throw new Error('No circuit manifest in this build - load the circuit from disk or memory instead');
+      }
+
+      const [wasm, zkey] = await Promise.all([
+        fetchBytes(`${baseUrl}${manifest.artifacts.wasm.path}`),
+        fetchBytes(`${baseUrl}${manifest.artifacts.zkey.path}`)
+      ]);
+
+      if (!(await matchesManifestEntry(wasm, manifest.artifacts.wasm))) {
+        throw new Error('Circuit WASM does not match the artifact manifest');
+      }
+      if (!(await matchesManifestEntry(zkey, manifest.artifacts.zkey))) {
+        throw new Error('Circuit zkey does not match the artifact manifest');
+      }
+
+      return { manifest, wasm, zkey };
+    })().catch(error => {
+      // Allow a fresh download on the next attempt
+      verifiedArtifactsPromise = null;
+      throw error;
+    });
+  }
+
+  return verifiedArtifactsPromise;
+}
+
+/**
+ * List the verification key constants that do not appear in a deployed
+ * PoEPVerifier's runtime bytecode. The snarkjs verifier embeds every curve
+ * point as a literal, so an empty result means the contract was built from
+ * this verification key.
+ */
+export function findMissingVerifierConstants(bytecode: string, verificationKey: any): string[] {
+  const code = bytecode.toLowerCase();
+  const constants: [string, string][] = [
+    ['vk_alpha_1', verificationKey.vk_alpha_1[0]],
+    ['vk_alpha_1', verificationKey.vk_alpha_1[1]],
+    ...(['vk_beta_2', 'vk_gamma_2', 'vk_delta_2'] as const).flatMap(name =>
+      verificationKey[name].slice(0, 2).flat().map((value: string) => [name, value] as [string, string])
+    ),
+    ...verificationKey.IC.flatMap((point: string[], i: number) =>
+      point.slice(0, 2).map(value => [`IC${i}`, value] as [string, string])
+    )
+  ];
+
+  const missing = new Set<string>();
+  for (const [name, value] of constants) {
+    // Constants are pushed with the minimal number of bytes
+    let hex = BigInt(value).toString(16);
+    if (hex.length % 2) hex = '0' + hex;
+    if (!code.includes(hex)) {
+      missing.add(name);
+    }
+  }
+
+  return Array.from(missing);
+}
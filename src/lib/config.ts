@@ -1,27 +1,24 @@
-// Environment-specific contract addresses
-const isProduction = process.env.NODE_ENV === 'production' || process.env.NEXT_PUBLIC_ENVIRONMENT === 'production';
+import { getContractEnvName, NETWORK } from './networks';
 
-export const POEP_CONTRACT_ADDRESS = (isProduction
-  ? process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_MAINNET
-  : process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_SEPOLIA
-) as `0x${string}`;
+// Contract addresses of the selected network, from deployments/<chainId>.json
+// or the NEXT_PUBLIC_*_CONTRACT_ADDRESS_* variables
+export const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep as `0x${string}`;
 
-export const POEP_VERIFIER_CONTRACT_ADDRESS = (isProduction
-  ? process.env.NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_MAINNET
-  : process.env.NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_SEPOLIA
-) as `0x${string}`;
+export const POEP_VERIFIER_CONTRACT_ADDRESS = NETWORK.contracts.verifier as `0x${string}`;
+
+// The selected network's deployment record, null if it has none
+export const POEP_DEPLOYMENT = NETWORK.deployment;
 
 if (!POEP_CONTRACT_ADDRESS) {
-  const requiredVar = isProduction
-    ? 'NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_MAINNET'
-    : 'NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_SEPOLIA';
+  const requiredVar = getContractEnvName('poep');
+  const registryFile = `deployments/${NETWORK.chainId}.json`;
 
   if (typeof window === 'undefined') {
     // Server-side: just warn, don't crash the build
-    console.warn(`Warning: ${requiredVar} environment variable is not set`);
+    console.warn(`Warning: no PoEP in ${registryFile} and ${requiredVar} environment variable is not set`);
   } else {
     // Client-side: throw error for user feedback
-    throw new Error(`${requiredVar} environment variable is required`);
+    throw new Error(`A PoEP deployment in ${registryFile} or the ${requiredVar} environment variable is required`);
   }
 }
 export const NEXT_PUBLIC_CDP_API_KEY = process.env.NEXT_PUBLIC_CDP_API_KEY || '';
@@ -42,6 +42,14 @@ export const APP_PRIMARY_CATEGORY: string = 'utility';
  */
 export const APP_TAGS: string[] = ['identity', 'zk', 'passport', 'base', 'onchain'];
 
+/**
+ * Link that opens the mini app, used by PoEPGate and the embeddable badge to
+ * send users without a passport to get one. Set NEXT_PUBLIC_MINI_APP_LINK to
+ * the Farcaster universal link (https://farcaster.xyz/miniapps/<id>/<slug>)
+ * so it opens inside Farcaster; defaults to the app URL.
+ */
+export const APP_DEEP_LINK: string = process.env.NEXT_PUBLIC_MINI_APP_LINK || APP_URL;
+
 // --- Asset URLs ---
 /**
  * URL for the app's icon image.
@@ -192,6 +200,100 @@ export const POEP_CONTRACT_ABI = [
         "stateMutability": "nonpayable",
         "type": "function"
     },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "recipient",
+                "type": "address"
+            },
+            {
+                "internalType": "uint256[2]",
+                "name": "_pA",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256[2][2]",
+                "name": "_pB",
+                "type": "uint256[2][2]"
+            },
+            {
+                "internalType": "uint256[2]",
+                "name": "_pC",
+                "type": "uint256[2]"
+            },
+            {
+                "internalType": "uint256",
+                "name": "_nullifier",
+                "type": "uint256"
+            },
+            {
+                "internalType": "uint256",
+                "name": "deadline",
+                "type": "uint256"
+            },
+            {
+                "internalType": "bytes",
+                "name": "signature",
+                "type": "bytes"
+            }
+        ],
+        "name": "mintFor",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "owner",
+                "type": "address"
+            }
+        ],
+        "name": "nonces",
+        "outputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "uint256",
+                "name": "",
+                "type": "uint256"
+            }
+        ],
+        "name": "nullifiers",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
+    {
+        "inputs": [],
+        "name": "paused",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
     {
         "inputs": [
             {
@@ -286,6 +388,43 @@ export const POEP_CONTRACT_ABI = [
         "stateMutability": "nonpayable",
         "type": "function"
     },
+    {
+        "inputs": [
+            {
+                "internalType": "address[]",
+                "name": "users",
+                "type": "address[]"
+            },
+            {
+                "internalType": "int256[]",
+                "name": "deltas",
+                "type": "int256[]"
+            }
+        ],
+        "name": "updateScores",
+        "outputs": [],
+        "stateMutability": "nonpayable",
+        "type": "function"
+    },
+    {
+        "inputs": [
+            {
+                "internalType": "address",
+                "name": "",
+                "type": "address"
+            }
+        ],
+        "name": "scoreUpdaters",
+        "outputs": [
+            {
+                "internalType": "bool",
+                "name": "",
+                "type": "bool"
+            }
+        ],
+        "stateMutability": "view",
+        "type": "function"
+    },
     {
         "anonymous": false,
         "inputs": [
@@ -335,6 +474,11 @@ export const POEP_CONTRACT_ABI = [
         ],
         "name": "ScoreUpdated",
         "type": "event"
+    },
+    {
+        "inputs": [],
+        "name": "EnforcedPause",
+        "type": "error"
     }
 ] as const;
 
@@ -391,3 +535,31 @@ export const SIGNED_KEY_REQUEST_TYPE = [
   { name: 'key', type: 'bytes' },
   { name: 'deadline', type: 'uint256' },
 ];
+
+/**
+ * EIP-712 domain for PoEP mint intents.
+ *
+ * chainId and verifyingContract are filled in per deployment, see
+ * getMintIntentTypedData in contract.ts. Must match the EIP712 constructor
+ * arguments in PoEP.sol.
+ */
+export const POEP_MINT_INTENT_EIP_712_DOMAIN = {
+  name: 'PoEP',
+  version: '1',
+};
+
+/**
+ * Typed-data struct the recipient signs so a relayer can call PoEP.mintFor.
+ * Field order must match MINT_INTENT_TYPEHASH in PoEP.sol.
+ */
+export const POEP_MINT_INTENT_TYPE = [
+  { name: 'recipient', type: 'address' },
+  { name: 'nullifier', type: 'uint256' },
+  { name: 'nonce', type: 'uint256' },
+  { name: 'deadline', type: 'uint256' },
+];
+
+/**
+ * How long a signed mint intent stays valid, in seconds.
+ */
+export const MINT_INTENT_TTL_SECONDS = 15 * 60;
@@ -1,31 +1,70 @@
-import { createPublicClient, http } from 'viem';
-import { base, baseSepolia } from 'viem/chains';
-import { POEP_CONTRACT_ABI } from './constants';
+import {
+  BaseError,
+  ContractFunctionRevertedError,
+  createPublicClient,
+  fallback,
+  http,
+  type ContractFunctionArgs,
+  type ContractFunctionName,
+  type ReadContractParameters,
+  type ReadContractReturnType,
+  type SimulateContractParameters,
+} from 'viem';
+import {
+  MINT_INTENT_TTL_SECONDS,
+  POEP_CONTRACT_ABI,
+  POEP_MINT_INTENT_EIP_712_DOMAIN,
+  POEP_MINT_INTENT_TYPE,
+} from './constants';
 import { POEP_CONTRACT_ADDRESS } from './config';
+import { decodeMintRevert, MintRevertError } from './mintErrors';
+import { NETWORK } from './networks';
+import { toCalldataProof, type SolidityProof } from './proofCodec';
 
-// Environment-specific chain configuration
-const isProduction = process.env.NODE_ENV === 'production' || process.env.NEXT_PUBLIC_ENVIRONMENT === 'production';
-const chain = isProduction ? base : baseSepolia;
-
-// Prefer explicit RPC URLs for stability if provided
-const rpcUrl = isProduction
-  ? (process.env.NEXT_PUBLIC_BASE_RPC_URL || undefined)
-  : (process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL || undefined);
+const chain = NETWORK.chain;
 
+// Configured RPC URLs first, then the network's public endpoint
 const publicClient = createPublicClient({
   chain,
-  transport: rpcUrl ? http(rpcUrl) : http(),
+  transport: fallback(NETWORK.rpcUrls.map(url => http(url))),
 });
 
+type PoEPAbi = typeof POEP_CONTRACT_ABI;
+type PoEPReadFunction = ContractFunctionName<PoEPAbi, 'pure' | 'view'>;
+type PoEPWriteFunction = ContractFunctionName<PoEPAbi, 'nonpayable' | 'payable'>;
+
+// Typed PoEP calls. With strictNullChecks off, as in this repo, viem's call
+// parameters make authorizationList required; PoEP calls never carry EIP-7702
+// authorizations, so it is filled in here once rather than by every caller.
+function readPoEP<
+  const functionName extends PoEPReadFunction,
+  const args extends ContractFunctionArgs<PoEPAbi, 'pure' | 'view', functionName>
+>(call: { functionName: functionName; args?: args }): Promise<ReadContractReturnType<PoEPAbi, functionName, args>> {
+  return publicClient.readContract({
+    ...call,
+    address: POEP_CONTRACT_ADDRESS,
+    abi: POEP_CONTRACT_ABI,
+    authorizationList: undefined,
+  } as ReadContractParameters<PoEPAbi, functionName, args>);
+}
+
+function simulatePoEP<
+  const functionName extends PoEPWriteFunction,
+  const args extends ContractFunctionArgs<PoEPAbi, 'nonpayable' | 'payable', functionName>
+>(call: { functionName: functionName; args: args; account: `0x${string}` | undefined }) {
+  return publicClient.simulateContract({
+    ...call,
+    address: POEP_CONTRACT_ADDRESS,
+    abi: POEP_CONTRACT_ABI,
+    chain,
+    authorizationList: undefined,
+  } as SimulateContractParameters<PoEPAbi, functionName, args, typeof chain>);
+}
+
 export async function hasPassport(address: string): Promise<boolean> {
   try {
-    const result = await (publicClient as any).readContract({
-      address: POEP_CONTRACT_ADDRESS,
-      abi: POEP_CONTRACT_ABI,
-      functionName: 'balanceOf',
-      args: [address as `0x${string}`],
-    });
-    return BigInt(result as any) > 0n;
+    const balance = await readPoEP({ functionName: 'balanceOf', args: [address as `0x${string}`] });
+    return balance > 0n;
   } catch (error) {
     console.error('Error checking passport:', error);
     return false;
@@ -34,12 +73,7 @@ export async function hasPassport(address: string): Promise<boolean> {
 
 export async function getTrustScore(address: `0x${string}`): Promise<number> {
   try {
-    const score = await (publicClient as any).readContract({
-      address: POEP_CONTRACT_ADDRESS,
-      abi: POEP_CONTRACT_ABI,
-      functionName: 'viewTrustScore',
-      args: [address],
-    });
+    const score = await readPoEP({ functionName: 'viewTrustScore', args: [address] });
     return Number(score);
   } catch (error) {
     console.error('Error getting trust score:', error);
@@ -47,49 +81,120 @@ export async function getTrustScore(address: `0x${string}`): Promise<number> {
   }
 }
 
-export const generateZKProof = async (faceHash: string, nonce?: string, _userAddress?: string) => {
-  // Real ZK proof generation using snarkjs (loaded via script tag in layout)
-  const snarkjs = (window as any).snarkjs;
-  if (!snarkjs) throw new Error('snarkjs not loaded');
-
-  // Generate nonce if not provided
-  const actualNonce = nonce || crypto.getRandomValues(new Uint8Array(32)).reduce(
-    (acc, byte) => acc + byte.toString(16).padStart(2, '0'), ''
-  );
-
-  // Generate timestamp for temporal binding
-  const timestamp = BigInt(Date.now());
-
-  // Prepare inputs for the 3-input circuit (faceHash, nonce, timestamp)
-  const fieldSize = BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
-
-  let faceHashBigInt = BigInt(faceHash);
-  let nonceBigInt = BigInt('0x' + actualNonce);
-  let timestampBigInt = timestamp;
-
-  // Reduce to field size if necessary
-  if (faceHashBigInt >= fieldSize) faceHashBigInt = faceHashBigInt % fieldSize;
-  if (nonceBigInt >= fieldSize) nonceBigInt = nonceBigInt % fieldSize;
-  if (timestampBigInt >= fieldSize) timestampBigInt = timestampBigInt % fieldSize;
-
-  const inputs = {
-    faceHash: faceHashBigInt.toString(),
-    nonce: nonceBigInt.toString(),
-    timestamp: timestampBigInt.toString(),
-  } as any;
-
-  const wasmPath = '/circuit.wasm';
-  const zkeyPath = '/circuit_final.zkey';
-
-  const { proof, publicSignals } = await snarkjs.groth16.fullProve(inputs, wasmPath, zkeyPath);
-
-  const pA = [proof.pi_a[0], proof.pi_a[1]] as const;
-  const pB = [
-    [proof.pi_b[0][1], proof.pi_b[0][0]],
-    [proof.pi_b[1][1], proof.pi_b[1][0]],
-  ] as const;
-  const pC = [proof.pi_c[0], proof.pi_c[1]] as const;
-  const nullifier = publicSignals[0];
+// Checks shared by both mint paths: paused() and nullifiers(), then the
+// simulated call. RPC failures are logged and skipped, never thrown.
+async function preflight(nullifier: string, simulate: () => Promise<unknown>): Promise<void> {
+  let paused: boolean;
+  let nullifierUsed: boolean;
+  try {
+    [paused, nullifierUsed] = await Promise.all([
+      readPoEP({ functionName: 'paused' }),
+      readPoEP({ functionName: 'nullifiers', args: [BigInt(nullifier)] }),
+    ]);
+  } catch (error) {
+    console.error('Mint preflight state check failed:', error);
+    return;
+  }
+
+  if (paused) {
+    throw new MintRevertError(decodeMintRevert('EnforcedPause'));
+  }
+  if (nullifierUsed) {
+    throw new MintRevertError(decodeMintRevert('PoEP: Nullifier already used'));
+  }
+
+  try {
+    await simulate();
+  } catch (error) {
+    const revert = error instanceof BaseError
+      ? error.walk(cause => cause instanceof ContractFunctionRevertedError)
+      : null;
+
+    if (revert instanceof ContractFunctionRevertedError) {
+      throw new MintRevertError(decodeMintRevert(revert.reason || revert.data?.errorName));
+    }
+
+    console.error('Mint preflight simulation failed:', error);
+  }
+}
+
+/**
+ * Preflight a PoEP.mint before the wallet opens: check paused() and
+ * nullifiers(), then simulate the call with eth_call from the minting account.
+ * Throws MintRevertError with a typed code if the mint would revert. RPC
+ * failures are not treated as reverts - the wallet still gets its own chance.
+ */
+export async function preflightMint(
+  account: `0x${string}`,
+  proof: SolidityProof,
+  nullifier: string
+): Promise<void> {
+  await preflight(nullifier, () => simulatePoEP({
+    functionName: 'mint',
+    args: [proof.pA, proof.pB, proof.pC, BigInt(nullifier)],
+    account,
+  }));
+}
+
+/**
+ * Preflight a relayed PoEP.mintFor before a job is queued, with the same
+ * checks as preflightMint. An expired deadline is caught locally; a bad
+ * MintIntent signature surfaces from the simulation. Throws MintRevertError.
+ */
+export async function preflightMintFor(
+  recipient: `0x${string}`,
+  proof: SolidityProof,
+  nullifier: string,
+  deadline: string,
+  signature: `0x${string}`
+): Promise<void> {
+  if (BigInt(deadline) < BigInt(Math.floor(Date.now() / 1000))) {
+    throw new MintRevertError(decodeMintRevert('PoEP: Mint intent expired'));
+  }
+
+  // mintFor does not depend on msg.sender, so the call needs no account
+  await preflight(nullifier, () => simulatePoEP({
+    functionName: 'mintFor',
+    args: [recipient, proof.pA, proof.pB, proof.pC, BigInt(nullifier), BigInt(deadline), signature],
+    account: undefined,
+  }));
+}
+
+/**
+ * Build the EIP-712 MintIntent the recipient signs for a relayed mint via
+ * /api/mint-poep. The nonce is read on-chain so each intent is single-use.
+ */
+export async function getMintIntentTypedData(recipient: `0x${string}`, nullifier: string) {
+  const nonce = await readPoEP({ functionName: 'nonces', args: [recipient] });
+  const deadline = BigInt(Math.floor(Date.now() / 1000) + MINT_INTENT_TTL_SECONDS);
+
+  return {
+    domain: {
+      ...POEP_MINT_INTENT_EIP_712_DOMAIN,
+      chainId: chain.id,
+      verifyingContract: POEP_CONTRACT_ADDRESS,
+    },
+    types: { MintIntent: POEP_MINT_INTENT_TYPE },
+    primaryType: 'MintIntent' as const,
+    message: {
+      recipient,
+      nullifier: BigInt(nullifier),
+      nonce,
+      deadline,
+    },
+  };
+}
+
+export const generateZKProof = async (faceSecret: string, recipient: string, chainId: number) => {
+  // Loaded on demand so pages that only read the contract do not bundle snarkjs
+  const { proveFaceSecret } = await import('./prover');
+
+  // The nullifier is Poseidon(faceSecret, domain), so it stays the same across
+  // mints by the same person. Recipient and chainId are public inputs that
+  // PoEP.mint compares with msg.sender and block.chainid.
+  const { proof, nullifier } = await proveFaceSecret(faceSecret, recipient, chainId);
+
+  const { pA, pB, pC } = toCalldataProof(proof);
 
   return { pA, pB, pC, nullifier };
 };
@@ -0,0 +1,44 @@
+/**
+ * Deployment registry
+ *
+ * deployments/<chainId>.json records the contracts deployed on a chain, with
+ * their transactions and blocks, the baseURI and the circuit they were built
+ * from. The deploy scripts write it (scripts/deployments.js). next.config.ts
+ * inlines the directory as POEP_DEPLOYMENTS so client and server read the same
+ * records without filesystem access; scripts load it with
+ * scripts/load-deployments.js.
+ */
+
+import type { NetworkContract } from './networks';
+
+export interface DeployedContract {
+  address: `0x${string}`;
+  // Null for contracts recorded after the fact rather than deployed by a script
+  transactionHash: string | null;
+  blockNumber: number | null;
+}
+
+export interface Deployment {
+  version: 1;
+  // Hardhat network name, the same value as NEXT_PUBLIC_NETWORK
+  network: string;
+  chainId: number;
+  deployer: string;
+  baseURI: string | null;
+  contracts: Partial<Record<NetworkContract, DeployedContract>>;
+  // Artifacts PoEPVerifier was generated from
+  circuit: {
+    verificationKeySha256: string;
+    zkeySha256: string;
+  } | null;
+  updatedAt: string;
+}
+
+const REGISTRY: Record<string, Deployment> = JSON.parse(process.env.POEP_DEPLOYMENTS || '{}');
+
+/**
+ * The recorded deployment on a chain, or null if there is none
+ */
+export function getDeployment(chainId: number): Deployment | null {
+  return REGISTRY[String(chainId)] ?? null;
+}
@@ -3,13 +3,13 @@
  * Ensures all required configuration is present and secure
  */
 
+import { getContractEnvName, NETWORK } from './networks';
 import { logger } from './secureErrorHandler';
 
 export interface EnvironmentConfig {
   NODE_ENV: string;
-  NEXT_PUBLIC_POEP_CONTRACT_ADDRESS: string;
   PRIVATE_KEY: string;
-  BASE_RPC_URL?: string;
+  BASE_MAINNET_RPC?: string;
   BASE_SEPOLIA_RPC?: string;
   NEXT_PUBLIC_BASE_RPC_URL?: string;
   NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL?: string;
@@ -28,7 +28,6 @@ export interface ValidationResult {
  */
 const REQUIRED_VARS: (keyof EnvironmentConfig)[] = [
   'NODE_ENV',
-  'NEXT_PUBLIC_POEP_CONTRACT_ADDRESS',
   'PRIVATE_KEY'
 ];
 
@@ -36,7 +35,7 @@ const REQUIRED_VARS: (keyof EnvironmentConfig)[] = [
  * Environment variables that should be present in production
  */
 const PRODUCTION_RECOMMENDED: (keyof EnvironmentConfig)[] = [
-  'BASE_RPC_URL',
+  'BASE_MAINNET_RPC',
   'RATE_LIMIT_SALT'
 ];
 
@@ -48,6 +47,16 @@ const DEVELOPMENT_VARS: (keyof EnvironmentConfig)[] = [
   'NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL'
 ];
 
+/**
+ * Variables the network registry replaced, with what to set instead. They are
+ * no longer read, so a deployment still setting them would silently run
+ * against another contract or RPC than intended.
+ */
+const REMOVED_VARS: Record<string, string> = {
+  NEXT_PUBLIC_POEP_CONTRACT_ADDRESS: `deployments/${NETWORK.chainId}.json or ${getContractEnvName('poep')}`,
+  BASE_RPC_URL: 'BASE_MAINNET_RPC or BASE_SEPOLIA_RPC'
+};
+
 /**
  * Validate environment configuration with security checks
  */
@@ -73,6 +82,21 @@ export function validateEnvironment(): ValidationResult {
     }
   }
 
+  for (const [varName, replacement] of Object.entries(REMOVED_VARS)) {
+    if (process.env[varName]) {
+      errors.push(`${varName} is no longer read - use ${replacement} instead and unset it`);
+    }
+  }
+
+  // The selected network's PoEP address
+  const contractError = validateContractAddress(NETWORK.contracts.poep);
+  if (contractError) {
+    const source = NETWORK.deployment?.contracts.poep
+      ? `deployments/${NETWORK.chainId}.json`
+      : getContractEnvName('poep');
+    errors.push(`${source}: ${contractError}`);
+  }
+
   // Check production recommendations
   if (config.NODE_ENV === 'production') {
     for (const varName of PRODUCTION_RECOMMENDED) {
@@ -129,9 +153,8 @@ export function validateEnvironment(): ValidationResult {
 function loadEnvironmentConfig(): EnvironmentConfig {
   return {
     NODE_ENV: process.env.NODE_ENV || 'development',
-    NEXT_PUBLIC_POEP_CONTRACT_ADDRESS: process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS || '',
     PRIVATE_KEY: process.env.PRIVATE_KEY || '',
-    BASE_RPC_URL: process.env.BASE_RPC_URL,
+    BASE_MAINNET_RPC: process.env.BASE_MAINNET_RPC,
     BASE_SEPOLIA_RPC: process.env.BASE_SEPOLIA_RPC,
     NEXT_PUBLIC_BASE_RPC_URL: process.env.NEXT_PUBLIC_BASE_RPC_URL,
     NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL: process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL,
@@ -150,19 +173,13 @@ function validateEnvironmentVariable(name: keyof EnvironmentConfig, value: strin
       }
       break;
 
-    case 'NEXT_PUBLIC_POEP_CONTRACT_ADDRESS':
-      if (!isValidEthereumAddress(value)) {
-        return 'Must be a valid Ethereum address';
-      }
-      break;
-
     case 'PRIVATE_KEY':
       if (!isValidPrivateKey(value)) {
         return 'Must be a valid Ethereum private key';
       }
       break;
 
-    case 'BASE_RPC_URL':
+    case 'BASE_MAINNET_RPC':
     case 'BASE_SEPOLIA_RPC':
     case 'NEXT_PUBLIC_BASE_RPC_URL':
     case 'NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL':
@@ -181,6 +198,19 @@ function validateEnvironmentVariable(name: keyof EnvironmentConfig, value: strin
   return null;
 }
 
+/**
+ * Validate the PoEP contract address of the selected network
+ */
+function validateContractAddress(address: string | undefined): string | null {
+  if (!address) {
+    return 'Missing required environment variable';
+  }
+  if (!isValidEthereumAddress(address)) {
+    return 'Must be a valid Ethereum address';
+  }
+  return null;
+}
+
 /**
  * Perform security checks for production environment
  */
@@ -196,7 +226,7 @@ function performSecurityChecks(config: EnvironmentConfig): string[] {
 
   // Check for insecure RPC URLs
   const rpcUrls = [
-    config.BASE_RPC_URL,
+    config.BASE_MAINNET_RPC,
     config.NEXT_PUBLIC_BASE_RPC_URL
   ].filter(Boolean);
 
@@ -209,7 +239,7 @@ function performSecurityChecks(config: EnvironmentConfig): string[] {
   }
 
   // Check contract address for known test addresses
-  if (config.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS && isTestContractAddress(config.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS)) {
+  if (NETWORK.contracts.poep && isTestContractAddress(NETWORK.contracts.poep)) {
     issues.push('Contract address appears to be a test address - ensure production deployment');
   }
 
@@ -225,14 +255,11 @@ function validateNetworkConfiguration(config: EnvironmentConfig): string[] {
   const isProduction = config.NODE_ENV === 'production';
 
   // Check for mixed network configurations
-  if (isProduction) {
-    if (config.BASE_SEPOLIA_RPC || config.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL) {
-      warnings.push('Sepolia (testnet) configuration detected in production environment');
-    }
-  } else {
-    if (!config.BASE_SEPOLIA_RPC && !config.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL) {
-      warnings.push('No testnet RPC configuration found for development environment');
-    }
+  if (isProduction && NETWORK.testnet) {
+    warnings.push(`Production environment is running on ${NETWORK.name} (NEXT_PUBLIC_NETWORK=${NETWORK.id})`);
+  }
+  if (NETWORK.id === 'baseSepolia' && !config.BASE_SEPOLIA_RPC && !config.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL) {
+    warnings.push('No Base Sepolia RPC configured - using the public endpoint');
   }
 
   return warnings;
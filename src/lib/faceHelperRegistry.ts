@@ -0,0 +1,64 @@
+/**
+ * Published fuzzy extractor helpers
+ *
+ * When a relayed mint confirms, the relayer publishes the helper its proof was
+ * made with, keyed by the recipient. Clients try the published helpers after
+ * the ones saved on their device (see faceHelperStore.ts), so the same face
+ * reproduces the same nullifier on another device or after its storage was
+ * cleared, whichever wallet is connected. Helper data is safe to publish by
+ * construction (see fuzzyExtractor.ts); the list never says which address a
+ * helper belongs to. Stored in Redis (Upstash, as in kv.ts) per deployment and
+ * extractor version, with an in-memory fallback for local runs. Server only.
+ */
+
+import { Redis } from '@upstash/redis';
+import { APP_NAME } from './constants';
+import { FUZZY_EXTRACTOR_VERSION, isFaceHelper } from './fuzzyExtractor';
+import { NETWORK } from './networks';
+
+const REGISTRY_KEY = [
+  APP_NAME,
+  'face-helpers',
+  NETWORK.chainId,
+  NETWORK.contracts.poep?.toLowerCase(),
+  `v${FUZZY_EXTRACTOR_VERSION}`
+].join(':');
+
+// In-memory fallback storage, on globalThis so every route sees the same helpers
+const globalRegistry = globalThis as typeof globalThis & { poepFaceHelpers?: Map<string, string> };
+globalRegistry.poepFaceHelpers ??= new Map();
+const localHelpers = globalRegistry.poepFaceHelpers;
+
+// Use Redis if KV env vars are present, otherwise use in-memory
+const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
+const redis = useRedis
+  ? new Redis({
+      url: process.env.KV_REST_API_URL!,
+      token: process.env.KV_REST_API_TOKEN!,
+    })
+  : null;
+
+/**
+ * Publish the helper of a confirmed mint. A passport minted again after a
+ * burn replaces its holder's earlier helper.
+ */
+export async function publishFaceHelper(recipient: string, helper: string): Promise<void> {
+  if (!isFaceHelper(helper)) {
+    throw new Error('Invalid face helper');
+  }
+
+  const field = recipient.toLowerCase();
+  if (redis) {
+    await redis.hset(REGISTRY_KEY, { [field]: helper });
+  } else {
+    localHelpers.set(field, helper);
+  }
+}
+
+/**
+ * Every published helper for the current deployment and extractor version
+ */
+export async function listFaceHelpers(): Promise<string[]> {
+  const helpers = redis ? (await redis.hvals(REGISTRY_KEY)) as string[] : [...localHelpers.values()];
+  return [...new Set(helpers)].filter(isFaceHelper);
+}
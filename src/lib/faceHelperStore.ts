@@ -0,0 +1,80 @@
+/**
+ * Fuzzy extractor helper data kept on this device
+ *
+ * A helper is saved once a mint made with it confirms, and every later capture
+ * is tried against the saved helpers first (see extractStableSecret), so the
+ * same face reproduces the same secret - and the same nullifier - whichever
+ * wallet is connected. Helper data is safe to store in the clear by
+ * construction. localStorage does not follow the user to another device, so
+ * relayed mints also publish their helper (see faceHelperRegistry.ts) and
+ * captures are tried against the published helpers next. A wallet-paid mint
+ * is not published, so its face only reproduces on the device it was minted
+ * from. Browser only.
+ */
+
+import { FUZZY_EXTRACTOR_VERSION } from './fuzzyExtractor';
+
+const STORAGE_KEY = 'poep:face-helpers';
+
+// One per face enrolled on this device; more than a handful is never expected
+const MAX_HELPERS = 8;
+
+interface StoredFaceHelper {
+  version: number;
+  helper: string;
+}
+
+function readStoredHelpers(): StoredFaceHelper[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Helpers saved for the current extractor version, most recent first
+ */
+export function loadFaceHelpers(): string[] {
+  if (typeof localStorage === 'undefined') return [];
+
+  return readStoredHelpers()
+    .filter(entry => entry?.version === FUZZY_EXTRACTOR_VERSION && typeof entry.helper === 'string')
+    .map(entry => entry.helper);
+}
+
+/**
+ * Save the helper of a confirmed mint
+ */
+export function saveFaceHelper(helper: string): void {
+  if (typeof localStorage === 'undefined') return;
+
+  const helpers = [
+    { version: FUZZY_EXTRACTOR_VERSION, helper },
+    ...readStoredHelpers().filter(entry => entry?.helper !== helper)
+  ].slice(0, MAX_HELPERS);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(helpers));
+  } catch {
+    // Storage full or disabled - the next capture enrolls again
+  }
+}
+
+/**
+ * Helpers published by confirmed relayed mints. Empty if the list cannot be
+ * loaded; the capture then enrolls again unless a saved helper matches.
+ */
+export async function fetchPublishedFaceHelpers(): Promise<string[]> {
+  try {
+    const response = await fetch('/api/face-helpers');
+    if (!response.ok) return [];
+
+    const { version, helpers } = await response.json();
+    return version === FUZZY_EXTRACTOR_VERSION && Array.isArray(helpers) ? helpers : [];
+  } catch (error) {
+    console.warn('Could not load published face helpers:', error);
+    return [];
+  }
+}
@@ -0,0 +1,87 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  enrollStableSecret,
+  extractStableSecret,
+  isFaceHelper,
+  reproduceStableSecret,
+  FUZZY_EXTRACTOR_VERSION
+} from './fuzzyExtractor';
+
+// Same size as the embeddings zkProof.ts produces
+const DIMENSIONS = 256;
+
+// Deterministic generator so failures reproduce
+function seeded(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (Math.imul(state, 1664525) + 1013904223) >>> 0;
+    return state / 4294967296;
+  };
+}
+
+function randomEmbedding(random: () => number): number[] {
+  return Array.from({ length: DIMENSIONS }, () => random() * 2 - 1);
+}
+
+// Adds uniform noise of the given size relative to the embedding's spread
+function perturb(embedding: number[], amount: number, random: () => number): number[] {
+  return embedding.map(value => value + (random() * 2 - 1) * amount);
+}
+
+function burst(embedding: number[], amount: number, random: () => number): number[][] {
+  return [0, 1, 2].map(() => perturb(embedding, amount, random));
+}
+
+test('reproduces the enrolled secret from perturbed captures', () => {
+  const random = seeded(1);
+  const face = randomEmbedding(random);
+  const enrolled = enrollStableSecret(burst(face, 0.1, random));
+
+  for (let attempt = 0; attempt < 20; attempt++) {
+    const reproduced = extractStableSecret(burst(face, 0.2, random), [enrolled.helper]);
+    assert.equal(reproduced.secret, enrolled.secret);
+    assert.equal(reproduced.enrolled, false);
+    assert.equal(reproduced.helper, enrolled.helper);
+  }
+});
+
+test('rejects the helper of another face and enrolls instead', () => {
+  const random = seeded(2);
+  const enrolled = enrollStableSecret(burst(randomEmbedding(random), 0.1, random));
+  const otherFace = burst(randomEmbedding(random), 0.1, random);
+
+  assert.equal(reproduceStableSecret(otherFace, enrolled.helper), null);
+
+  const other = extractStableSecret(otherFace, [enrolled.helper]);
+  assert.equal(other.enrolled, true);
+  assert.notEqual(other.secret, enrolled.secret);
+});
+
+test('picks the matching helper among several', () => {
+  const random = seeded(3);
+  const face = randomEmbedding(random);
+  const helpers = [0, 1, 2].map(() => enrollStableSecret(burst(randomEmbedding(random), 0.1, random)).helper);
+  const enrolled = enrollStableSecret(burst(face, 0.1, random));
+
+  const reproduced = extractStableSecret(burst(face, 0.2, random), [...helpers, enrolled.helper]);
+  assert.equal(reproduced.secret, enrolled.secret);
+  assert.equal(reproduced.version, FUZZY_EXTRACTOR_VERSION);
+});
+
+test('ignores malformed helpers', () => {
+  const random = seeded(4);
+  const captures = burst(randomEmbedding(random), 0.1, random);
+
+  assert.equal(reproduceStableSecret(captures, 'not-hex'), null);
+  assert.equal(reproduceStableSecret(captures, 'ab'), null);
+  assert.equal(extractStableSecret(captures, ['', 'zz']).enrolled, true);
+  assert.equal(isFaceHelper('not-hex'), false);
+  assert.equal(isFaceHelper(enrollStableSecret(captures).helper), true);
+});
+
+test('rejects empty and mismatched embeddings', () => {
+  assert.throws(() => enrollStableSecret([]));
+  assert.throws(() => enrollStableSecret([[1, 2, 3], [1, 2]]));
+  assert.throws(() => enrollStableSecret([[1, NaN, 3]]));
+});
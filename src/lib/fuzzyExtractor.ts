@@ -0,0 +1,305 @@
+/**
+ * Fuzzy Extractor for PoEP Face Embeddings
+ *
+ * Turns noisy FaceFeatures.embedding captures into a stable secret so that the
+ * same face derives the same nullifier on every mint:
+ * 1. Random-hyperplane (SimHash) quantization with a fixed, public projection seed
+ *    to SECRET_BITS * REPETITION bits. Small embedding drift only flips the few
+ *    bits whose hyperplane margin is tiny. The frames of one capture burst are
+ *    majority-voted per bit first.
+ * 2. Code-offset secure sketch over a repetition code. Enrollment decodes the
+ *    quantized bits to the nearest codeword - one secret bit per block of
+ *    REPETITION bits - and keeps the offset to it as public helper data.
+ *    Reproduction shifts a new capture by the helper and decodes again, which
+ *    corrects up to floor((REPETITION - 1) / 2) flipped bits in every block.
+ * 3. Packing of the decoded bits into a BN254-safe field element.
+ *
+ * The helper reveals which bits of a block disagree with its majority, never
+ * the majority itself, so it can be stored in the clear (see faceHelperStore.ts).
+ * Without a helper, enrollment alone still yields the same secret unless a
+ * block's majority flips. Changing any of the constants below changes every
+ * derived nullifier and requires a new FUZZY_EXTRACTOR_VERSION; changing
+ * SECRET_BITS also needs a matching facehash.circom revision.
+ */
+
+export interface StableFaceSecret {
+  secret: string;
+  bits: number[];
+  // Mean vote margin of the burst, 1 when every frame agreed on every bit
+  confidence: number;
+  // Hex code offset for reproducing this secret from later captures
+  helper: string;
+  // Share of quantized bits the code corrected (0 on enrollment)
+  errorRate: number;
+  // False when the secret was reproduced from an existing helper
+  enrolled: boolean;
+  version: number;
+}
+
+export const FUZZY_EXTRACTOR_VERSION = 2;
+
+// Must match the Num2Bits range check on faceSecret in facehash.circom
+export const SECRET_BITS = 128;
+
+// Quantized bits per secret bit; odd, so block majorities never tie
+export const REPETITION = 7;
+
+// Number of frames the camera step captures for burst voting
+export const RECOMMENDED_CAPTURES = 3;
+
+// Reproduction rejects a helper when more bits than this needed correcting.
+// The right face stays well below it; an unrelated face lands near 0.3.
+export const MAX_ERROR_RATE = 0.15;
+
+const CODE_BITS = SECRET_BITS * REPETITION;
+
+const PROJECTION_SEED = 0x504f4550; // "POEP"
+
+interface QuantizedBurst {
+  bits: number[];
+  confidence: number;
+}
+
+// Projection matrices are deterministic per embedding size, so cache them
+const projectionCache = new Map<number, Float64Array[]>();
+
+/**
+ * Derive the stable face secret from a capture burst. Each helper is tried in
+ * turn and the first one the burst reproduces wins; without a match the burst
+ * is enrolled and a new helper returned. The burst is quantized once, so
+ * trying every published helper stays cheap.
+ */
+export function extractStableSecret(embeddings: number[][], helpers: string[] = []): StableFaceSecret {
+  const quantized = quantizeBurst(embeddings);
+  for (const helper of helpers) {
+    const reproduced = reproduceQuantized(quantized, helper);
+    if (reproduced) return reproduced;
+  }
+  return enrollQuantized(quantized);
+}
+
+/**
+ * Enroll a capture burst: decode it to the nearest codeword and return the
+ * secret together with the helper data for reproducing it
+ */
+export function enrollStableSecret(embeddings: number[][]): StableFaceSecret {
+  return enrollQuantized(quantizeBurst(embeddings));
+}
+
+/**
+ * Reproduce an enrolled secret from a new capture burst and its helper data.
+ * Returns null when the helper belongs to another face, or the capture is too
+ * noisy, i.e. more than MAX_ERROR_RATE of the bits needed correcting.
+ */
+export function reproduceStableSecret(embeddings: number[][], helper: string): StableFaceSecret | null {
+  return reproduceQuantized(quantizeBurst(embeddings), helper);
+}
+
+/**
+ * Whether a value is well-formed helper data for the current extractor
+ */
+export function isFaceHelper(value: unknown): value is string {
+  return hexToBits(value as string) !== null;
+}
+
+function enrollQuantized({ bits: quantized, confidence }: QuantizedBurst): StableFaceSecret {
+  const { bits, codeword } = decodeRepetition(quantized);
+
+  return {
+    secret: packSecret(bits),
+    bits,
+    confidence,
+    helper: bitsToHex(xorBits(quantized, codeword)),
+    errorRate: 0,
+    enrolled: true,
+    version: FUZZY_EXTRACTOR_VERSION
+  };
+}
+
+function reproduceQuantized({ bits: quantized, confidence }: QuantizedBurst, helper: string): StableFaceSecret | null {
+  const offset = hexToBits(helper);
+  if (!offset) return null;
+
+  const shifted = xorBits(quantized, offset);
+  const { bits, corrected } = decodeRepetition(shifted);
+
+  const errorRate = corrected / CODE_BITS;
+  if (errorRate > MAX_ERROR_RATE) return null;
+
+  return {
+    secret: packSecret(bits),
+    bits,
+    confidence,
+    helper,
+    errorRate,
+    enrolled: false,
+    version: FUZZY_EXTRACTOR_VERSION
+  };
+}
+
+/**
+ * Quantize every capture of a burst and majority-vote each bit across them.
+ * Ties resolve to 0, so bursts should use an odd number of captures.
+ * Confidence is the mean vote margin (1 = every bit unanimous, 0 = all ties).
+ */
+function quantizeBurst(embeddings: number[][]): QuantizedBurst {
+  if (!Array.isArray(embeddings) || embeddings.length === 0) {
+    throw new Error('At least one face embedding is required');
+  }
+
+  const dimensions = embeddings[0]?.length;
+  for (const embedding of embeddings) {
+    if (!Array.isArray(embedding) || embedding.length === 0 || embedding.length !== dimensions) {
+      throw new Error('Face embeddings must be non-empty and of equal size');
+    }
+    if (embedding.some(value => !Number.isFinite(value))) {
+      throw new Error('Face embedding contains invalid values');
+    }
+  }
+
+  const captures = embeddings.map(quantizeEmbedding);
+  const bits: number[] = [];
+  let marginSum = 0;
+
+  for (let i = 0; i < CODE_BITS; i++) {
+    let ones = 0;
+    for (const capture of captures) {
+      ones += capture[i];
+    }
+    bits.push(ones * 2 > captures.length ? 1 : 0);
+    marginSum += Math.abs(ones * 2 - captures.length) / captures.length;
+  }
+
+  return { bits, confidence: marginSum / CODE_BITS };
+}
+
+/**
+ * Quantize an embedding to SECRET_BITS * REPETITION sign bits using random
+ * hyperplanes drawn from the public projection seed
+ */
+export function quantizeEmbedding(embedding: number[]): number[] {
+  const centered = centerEmbedding(embedding);
+  const hyperplanes = getProjection(centered.length);
+
+  return hyperplanes.map(plane => {
+    let dot = 0;
+    for (let i = 0; i < centered.length; i++) {
+      dot += centered[i] * plane[i];
+    }
+    return dot >= 0 ? 1 : 0;
+  });
+}
+
+/**
+ * Decode a word of the repetition code: each block of REPETITION bits becomes
+ * its majority bit. Returns the decoded bits, the codeword they encode and how
+ * many bits differ between that codeword and the input.
+ */
+export function decodeRepetition(word: number[]): { bits: number[]; codeword: number[]; corrected: number } {
+  if (word.length !== CODE_BITS) {
+    throw new Error(`Repetition codewords must have ${CODE_BITS} bits`);
+  }
+
+  const bits: number[] = [];
+  const codeword: number[] = [];
+  let corrected = 0;
+
+  for (let block = 0; block < SECRET_BITS; block++) {
+    let ones = 0;
+    for (let i = block * REPETITION; i < (block + 1) * REPETITION; i++) {
+      ones += word[i];
+    }
+    const bit = ones * 2 > REPETITION ? 1 : 0;
+    bits.push(bit);
+    codeword.push(...new Array(REPETITION).fill(bit));
+    corrected += bit ? REPETITION - ones : ones;
+  }
+
+  return { bits, codeword, corrected };
+}
+
+function packSecret(bits: number[]): string {
+  let secret = 0n;
+  for (const bit of bits) {
+    secret = (secret << 1n) | BigInt(bit);
+  }
+
+  // An all-zero secret means the embedding carried no usable signal
+  if (secret === 0n) {
+    throw new Error('Face embedding does not contain enough entropy');
+  }
+
+  return secret.toString();
+}
+
+function xorBits(a: number[], b: number[]): number[] {
+  return a.map((bit, i) => bit ^ b[i]);
+}
+
+function bitsToHex(bits: number[]): string {
+  let hex = '';
+  for (let i = 0; i < bits.length; i += 4) {
+    hex += ((bits[i] << 3) | (bits[i + 1] << 2) | (bits[i + 2] << 1) | bits[i + 3]).toString(16);
+  }
+  return hex;
+}
+
+// Null for anything that is not a helper of this extractor version
+function hexToBits(hex: string): number[] | null {
+  if (typeof hex !== 'string' || !new RegExp(`^[0-9a-f]{${CODE_BITS / 4}}$`).test(hex)) {
+    return null;
+  }
+
+  const bits: number[] = [];
+  for (const digit of hex) {
+    const value = parseInt(digit, 16);
+    bits.push((value >> 3) & 1, (value >> 2) & 1, (value >> 1) & 1, value & 1);
+  }
+  return bits;
+}
+
+function centerEmbedding(embedding: number[]): number[] {
+  const mean = embedding.reduce((sum, value) => sum + value, 0) / embedding.length;
+  const centered = embedding.map(value => value - mean);
+  const magnitude = Math.sqrt(centered.reduce((sum, value) => sum + value * value, 0));
+
+  return magnitude > 1e-12 ? centered.map(value => value / magnitude) : centered;
+}
+
+function getProjection(dimensions: number): Float64Array[] {
+  const cached = projectionCache.get(dimensions);
+  if (cached) return cached;
+
+  const random = mulberry32(PROJECTION_SEED ^ dimensions);
+  const hyperplanes: Float64Array[] = [];
+
+  for (let p = 0; p < CODE_BITS; p++) {
+    const plane = new Float64Array(dimensions);
+    for (let i = 0; i < dimensions; i++) {
+      plane[i] = gaussian(random);
+    }
+    hyperplanes.push(plane);
+  }
+
+  projectionCache.set(dimensions, hyperplanes);
+  return hyperplanes;
+}
+
+// Box-Muller transform over the seeded generator
+function gaussian(random: () => number): number {
+  const u = Math.max(random(), Number.EPSILON);
+  const v = random();
+  return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * v);
+}
+
+// Small deterministic PRNG - projection planes must be identical on every device
+function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
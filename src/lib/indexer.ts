@@ -0,0 +1,310 @@
+/**
+ * PoEP contract event indexer
+ *
+ * Backfills PassportMinted, ScoreUpdated, QueryFeePaid and burn Transfer
+ * events from the deployment block, then follows the chain CONFIRMATIONS
+ * blocks behind the head, so indexed data is never rolled back by a reorg.
+ * Events and the passport records derived from them go to the store from
+ * indexerStore.ts; the query functions below let API routes read history
+ * without hitting the RPC on every request. Server only.
+ */
+
+import { ethers } from 'ethers';
+import {
+  getIndexerStore,
+  type EventQuery,
+  type IndexedEvent,
+  type IndexedPassport
+} from './indexerStore';
+import { NETWORK } from './networks';
+import { invalidatePassports } from './passportCache';
+
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep;
+
+const RPC_URL = NETWORK.rpcUrls[0];
+
+// First block to scan (POEP_DEPLOYMENT_BLOCK)
+const DEPLOYMENT_BLOCK = NETWORK.startBlock;
+
+// Blocks behind the head before an event is indexed
+const CONFIRMATIONS = Number(process.env.INDEXER_CONFIRMATIONS || 10);
+
+// eth_getLogs range per request; public RPCs reject large ranges
+const BLOCK_RANGE = Number(process.env.INDEXER_BLOCK_RANGE || 2000);
+
+const poepInterface = new ethers.Interface([
+  'event PassportMinted(address indexed user, uint256 indexed tokenId, uint256 nullifier)',
+  'event ScoreUpdated(address indexed user, uint256 oldScore, uint256 newScore)',
+  'event QueryFeePaid(address indexed app, address indexed user, uint256 fee)',
+  'event Transfer(address indexed from, address indexed to, uint256 indexed tokenId)'
+]);
+
+const EVENT_TOPICS = ['PassportMinted', 'ScoreUpdated', 'QueryFeePaid', 'Transfer']
+  .map(name => poepInterface.getEvent(name)!.topicHash);
+
+export interface IndexerSyncResult {
+  // Range indexed by this call; null if there was nothing new
+  fromBlock: number | null;
+  toBlock: number | null;
+  events: number;
+  // Highest block old enough to index
+  safeHead: number;
+  caughtUp: boolean;
+}
+
+export interface IndexerStatus {
+  store: string;
+  cursor: number | null;
+  deploymentBlock: number;
+  confirmations: number;
+}
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+function getProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(RPC_URL, undefined, { staticNetwork: true });
+  }
+  return provider;
+}
+
+/**
+ * Token id of an address's passport (PoEP uses uint160(holder))
+ */
+export function getPassportTokenId(address: string): string {
+  return BigInt(address).toString();
+}
+
+/**
+ * Decode a raw log into an indexed event. Returns null for logs the indexer
+ * does not keep (mint and ordinary Transfers).
+ */
+function decodeLog(log: ethers.Log, timestamp: number): IndexedEvent | null {
+  const parsed = poepInterface.parseLog(log);
+  if (!parsed) return null;
+
+  const base = {
+    id: `${log.transactionHash}:${log.index}`,
+    blockNumber: log.blockNumber,
+    logIndex: log.index,
+    transactionHash: log.transactionHash,
+    timestamp
+  };
+
+  switch (parsed.name) {
+    case 'PassportMinted':
+      return {
+        ...base,
+        type: 'PassportMinted',
+        user: parsed.args.user.toLowerCase(),
+        tokenId: parsed.args.tokenId.toString(),
+        nullifier: parsed.args.nullifier.toString()
+      };
+    case 'ScoreUpdated':
+      return {
+        ...base,
+        type: 'ScoreUpdated',
+        user: parsed.args.user.toLowerCase(),
+        oldScore: Number(parsed.args.oldScore),
+        newScore: Number(parsed.args.newScore)
+      };
+    case 'QueryFeePaid':
+      return {
+        ...base,
+        type: 'QueryFeePaid',
+        user: parsed.args.user.toLowerCase(),
+        app: parsed.args.app.toLowerCase(),
+        fee: parsed.args.fee.toString()
+      };
+    case 'Transfer':
+      // Passports are soul-bound, so the only Transfers are mints and burns
+      if (parsed.args.to !== ethers.ZeroAddress) return null;
+      return {
+        ...base,
+        type: 'PassportBurned',
+        user: parsed.args.from.toLowerCase(),
+        tokenId: parsed.args.tokenId.toString()
+      };
+    default:
+      return null;
+  }
+}
+
+/**
+ * Apply one event to the passport record it belongs to. Replaying an event
+ * gives the same record, so re-indexing a range is harmless.
+ */
+export function applyIndexedEvent(
+  passport: IndexedPassport | null,
+  event: IndexedEvent
+): IndexedPassport | null {
+  switch (event.type) {
+    case 'PassportMinted':
+      // A burned passport can be minted again; the new mint starts fresh
+      return {
+        tokenId: event.tokenId,
+        owner: event.user,
+        nullifier: event.nullifier,
+        trustScore: 1,
+        mintedAt: event.timestamp,
+        mintBlock: event.blockNumber,
+        burned: false,
+        burnedAt: null,
+        updatedBlock: event.blockNumber
+      };
+    case 'ScoreUpdated':
+      return passport && { ...passport, trustScore: event.newScore, updatedBlock: event.blockNumber };
+    case 'PassportBurned':
+      return passport && { ...passport, burned: true, burnedAt: event.timestamp, updatedBlock: event.blockNumber };
+    default:
+      return passport;
+  }
+}
+
+async function getBlockTimestamps(blockNumbers: number[]): Promise<Map<number, number>> {
+  const timestamps = new Map<number, number>();
+  for (const blockNumber of blockNumbers) {
+    const block = await getProvider().getBlock(blockNumber);
+    if (!block) {
+      throw new Error(`Block ${blockNumber} not found`);
+    }
+    timestamps.set(blockNumber, block.timestamp);
+  }
+  return timestamps;
+}
+
+/**
+ * Index one block range and commit it to the store
+ */
+async function indexRange(fromBlock: number, toBlock: number): Promise<number> {
+  const store = getIndexerStore();
+
+  const logs = await getProvider().getLogs({
+    address: POEP_CONTRACT_ADDRESS,
+    fromBlock,
+    toBlock,
+    topics: [EVENT_TOPICS]
+  });
+
+  const timestamps = await getBlockTimestamps([...new Set(logs.map(log => log.blockNumber))]);
+  const events = logs
+    .map(log => decodeLog(log, timestamps.get(log.blockNumber)!))
+    .filter((event): event is IndexedEvent => !!event);
+
+  // Fold events into the passport records they touch, in chain order
+  const passports = new Map<string, IndexedPassport | null>();
+  for (const event of events) {
+    const tokenId = getPassportTokenId(event.user);
+    if (!passports.has(tokenId)) {
+      passports.set(tokenId, await store.getPassport(tokenId));
+    }
+    passports.set(tokenId, applyIndexedEvent(passports.get(tokenId) ?? null, event));
+  }
+
+  await store.commit({
+    events,
+    passports: [...passports.values()].filter((passport): passport is IndexedPassport => !!passport),
+    cursor: toBlock
+  });
+
+  // Mints, score updates and burns change what the passport cache holds
+  await invalidatePassports(
+    events.filter(event => event.type !== 'QueryFeePaid').map(event => event.user)
+  );
+
+  return events.length;
+}
+
+/**
+ * Index from the stored cursor up to the safe head, one BLOCK_RANGE at a
+ * time. Stops early once the deadline (ms timestamp) has passed, so a
+ * serverless invocation can make progress without timing out; the next call
+ * resumes from the cursor.
+ */
+export async function syncIndexer(options: { deadline?: number } = {}): Promise<IndexerSyncResult> {
+  if (!POEP_CONTRACT_ADDRESS) {
+    throw new Error('Contract configuration missing');
+  }
+
+  const store = getIndexerStore();
+  const head = await getProvider().getBlockNumber();
+  const safeHead = head - CONFIRMATIONS;
+
+  const cursor = await store.getCursor();
+  const startBlock = cursor === null ? DEPLOYMENT_BLOCK : cursor + 1;
+
+  let fromBlock: number | null = null;
+  let toBlock: number | null = null;
+  let events = 0;
+
+  for (let from = startBlock; from <= safeHead; from += BLOCK_RANGE) {
+    if (options.deadline && Date.now() > options.deadline) break;
+
+    const to = Math.min(from + BLOCK_RANGE - 1, safeHead);
+    events += await indexRange(from, to);
+    fromBlock ??= from;
+    toBlock = to;
+  }
+
+  return {
+    fromBlock,
+    toBlock,
+    events,
+    safeHead,
+    caughtUp: (toBlock ?? cursor ?? DEPLOYMENT_BLOCK - 1) >= safeHead
+  };
+}
+
+export async function getIndexerStatus(): Promise<IndexerStatus> {
+  const store = getIndexerStore();
+  return {
+    store: store.kind,
+    cursor: await store.getCursor(),
+    deploymentBlock: DEPLOYMENT_BLOCK,
+    confirmations: CONFIRMATIONS
+  };
+}
+
+/**
+ * Whether the indexer has synced at least once - until then callers should
+ * read the chain directly
+ */
+export async function isIndexerReady(): Promise<boolean> {
+  return (await getIndexerStore().getCursor()) !== null;
+}
+
+/**
+ * Indexed passport of an address, including burned ones
+ */
+export async function getIndexedPassport(address: string): Promise<IndexedPassport | null> {
+  return getIndexedPassportByTokenId(getPassportTokenId(address));
+}
+
+export async function getIndexedPassportByTokenId(tokenId: string): Promise<IndexedPassport | null> {
+  return getIndexerStore().getPassport(tokenId);
+}
+
+/**
+ * Holders of passports that have not been burned
+ */
+export async function getIndexedHolders(): Promise<IndexedPassport[]> {
+  const passports = await getIndexerStore().listPassports();
+  return passports.filter(passport => !passport.burned);
+}
+
+export async function getIndexedEvents(query: EventQuery = {}): Promise<IndexedEvent[]> {
+  return getIndexerStore().getEvents(query);
+}
+
+/**
+ * Score changes of an address, oldest first
+ */
+export async function getScoreHistory(
+  address: string,
+  limit?: number
+): Promise<Extract<IndexedEvent, { type: 'ScoreUpdated' }>[]> {
+  const events = await getIndexerStore().getEvents({ type: 'ScoreUpdated', user: address, limit });
+  return events.filter((event): event is Extract<IndexedEvent, { type: 'ScoreUpdated' }> =>
+    event.type === 'ScoreUpdated'
+  );
+}
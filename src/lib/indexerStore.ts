@@ -0,0 +1,453 @@
+/**
+ * Storage for the PoEP event indexer
+ *
+ * The indexer (indexer.ts) writes decoded contract events and the passport
+ * records derived from them through the IndexerStore interface. Three stores
+ * ship with it:
+ *  - redis: Upstash, as in kv.ts - for deployments
+ *  - sqlite: a local database file via sql.js - for development and scripts
+ *  - memory: per-process maps - for one-off runs
+ * Another backend (e.g. Postgres) only has to implement IndexerStore.
+ * Server only.
+ */
+
+import { Redis } from '@upstash/redis';
+import type { Database } from 'sql.js';
+import { APP_NAME } from './constants';
+import { NETWORK } from './networks';
+
+export type IndexedEventType = 'PassportMinted' | 'ScoreUpdated' | 'QueryFeePaid' | 'PassportBurned';
+
+interface IndexedEventBase {
+  // `${transactionHash}:${logIndex}` - writes are idempotent on it
+  id: string;
+  blockNumber: number;
+  logIndex: number;
+  transactionHash: string;
+  // Block timestamp, unix seconds
+  timestamp: number;
+  // Lowercase passport holder the event is about
+  user: string;
+}
+
+export type IndexedEvent =
+  | IndexedEventBase & { type: 'PassportMinted'; tokenId: string; nullifier: string }
+  | IndexedEventBase & { type: 'ScoreUpdated'; oldScore: number; newScore: number }
+  | IndexedEventBase & { type: 'QueryFeePaid'; app: string; fee: string }
+  | IndexedEventBase & { type: 'PassportBurned'; tokenId: string };
+
+export interface IndexedPassport {
+  tokenId: string;
+  owner: string;
+  nullifier: string;
+  trustScore: number;
+  mintedAt: number;
+  mintBlock: number;
+  burned: boolean;
+  burnedAt: number | null;
+  // Block of the last event that changed this record
+  updatedBlock: number;
+}
+
+export interface EventQuery {
+  type?: IndexedEventType;
+  user?: string;
+  fromBlock?: number;
+  // Oldest first; defaults to 100
+  limit?: number;
+}
+
+/**
+ * Signal points behind a score update, recorded by the score engine when it
+ * submits, so score history can say why a score changed
+ */
+export interface ScoreSnapshot {
+  // Lowercase passport holder
+  user: string;
+  transactionHash: string;
+  points: Record<string, number>;
+  // Unix seconds
+  recordedAt: number;
+}
+
+export interface IndexerCommit {
+  events: IndexedEvent[];
+  passports: IndexedPassport[];
+  // Last block fully covered by this commit
+  cursor: number;
+}
+
+export interface IndexerStore {
+  readonly kind: 'redis' | 'sqlite' | 'memory';
+  // Last indexed block, or null before the first sync
+  getCursor(): Promise<number | null>;
+  getPassport(tokenId: string): Promise<IndexedPassport | null>;
+  listPassports(): Promise<IndexedPassport[]>;
+  getEvents(query: EventQuery): Promise<IndexedEvent[]>;
+  // Persist a synced block range; the cursor only moves once the data is in
+  commit(batch: IndexerCommit): Promise<void>;
+  saveScoreSnapshots(snapshots: ScoreSnapshot[]): Promise<void>;
+  // Oldest first
+  getScoreSnapshots(user: string): Promise<ScoreSnapshot[]>;
+}
+
+const DEFAULT_EVENT_LIMIT = 100;
+// The chain and PoEP address, as in passportCache.ts, so a redeploy, another
+// network or a shared KV never picks up this deployment's cursor or events
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep?.toLowerCase();
+const DEPLOYMENT_NAMESPACE = `${NETWORK.chainId}:${POEP_CONTRACT_ADDRESS}`;
+const DEFAULT_SQLITE_PATH = `.indexer/poep-${NETWORK.chainId}-${POEP_CONTRACT_ADDRESS}.sqlite`;
+
+// Event position in the chain; fits in a double for any realistic block height
+function getEventPosition(event: { blockNumber: number; logIndex: number }): number {
+  return event.blockNumber * 100000 + event.logIndex;
+}
+
+function compareEvents(a: IndexedEvent, b: IndexedEvent): number {
+  return getEventPosition(a) - getEventPosition(b);
+}
+
+function matchesQuery(event: IndexedEvent, query: EventQuery): boolean {
+  return (!query.type || event.type === query.type)
+    && (!query.user || event.user === query.user.toLowerCase())
+    && (query.fromBlock === undefined || event.blockNumber >= query.fromBlock);
+}
+
+/**
+ * Per-process store; contents are lost on restart
+ */
+export function createMemoryIndexerStore(): IndexerStore {
+  let cursor: number | null = null;
+  const events = new Map<string, IndexedEvent>();
+  const passports = new Map<string, IndexedPassport>();
+  const snapshots = new Map<string, ScoreSnapshot>();
+
+  return {
+    kind: 'memory',
+    async getCursor() {
+      return cursor;
+    },
+    async getPassport(tokenId) {
+      return passports.get(tokenId) || null;
+    },
+    async listPassports() {
+      return [...passports.values()];
+    },
+    async getEvents(query) {
+      return [...events.values()]
+        .filter(event => matchesQuery(event, query))
+        .sort(compareEvents)
+        .slice(0, query.limit ?? DEFAULT_EVENT_LIMIT);
+    },
+    async commit(batch) {
+      batch.events.forEach(event => events.set(event.id, event));
+      batch.passports.forEach(passport => passports.set(passport.tokenId, passport));
+      cursor = batch.cursor;
+    },
+    async saveScoreSnapshots(entries) {
+      entries.forEach(snapshot => snapshots.set(`${snapshot.user}:${snapshot.transactionHash}`, snapshot));
+    },
+    async getScoreSnapshots(user) {
+      return [...snapshots.values()]
+        .filter(snapshot => snapshot.user === user.toLowerCase())
+        .sort((a, b) => a.recordedAt - b.recordedAt);
+    }
+  };
+}
+
+/**
+ * Upstash Redis store. Events live in sorted sets ordered by chain position:
+ * one for all events, one per type and one per holder.
+ */
+export function createRedisIndexerStore(redis: Redis): IndexerStore {
+  const prefix = `${APP_NAME}:indexer:${DEPLOYMENT_NAMESPACE}`;
+  const cursorKey = `${prefix}:cursor`;
+  const passportsKey = `${prefix}:passports`;
+  const eventsKey = `${prefix}:events`;
+  const getPassportKey = (tokenId: string) => `${prefix}:passport:${tokenId}`;
+  const getTypeKey = (type: string) => `${prefix}:events:type:${type}`;
+  const getUserKey = (user: string) => `${prefix}:events:user:${user.toLowerCase()}`;
+  const getSnapshotsKey = (user: string) => `${prefix}:score-snapshots:${user.toLowerCase()}`;
+
+  return {
+    kind: 'redis',
+    async getCursor() {
+      const cursor = await redis.get<number>(cursorKey);
+      return cursor ?? null;
+    },
+    async getPassport(tokenId) {
+      return await redis.get<IndexedPassport>(getPassportKey(tokenId));
+    },
+    async listPassports() {
+      const tokenIds = await redis.smembers(passportsKey);
+      if (tokenIds.length === 0) return [];
+      const passports = await redis.mget<(IndexedPassport | null)[]>(...tokenIds.map(getPassportKey));
+      return passports.filter((passport): passport is IndexedPassport => !!passport);
+    },
+    async getEvents(query) {
+      const limit = query.limit ?? DEFAULT_EVENT_LIMIT;
+      const min = query.fromBlock === undefined ? '-inf' : getEventPosition({ blockNumber: query.fromBlock, logIndex: 0 });
+
+      // Read the narrowest set; a user + type query filters the user's events
+      const key = query.user ? getUserKey(query.user) : query.type ? getTypeKey(query.type) : eventsKey;
+      const needsFilter = !!(query.user && query.type);
+      const events = await redis.zrange<IndexedEvent[]>(
+        key,
+        min,
+        '+inf',
+        needsFilter ? { byScore: true } : { byScore: true, offset: 0, count: limit }
+      );
+
+      return events.filter(event => matchesQuery(event, query)).slice(0, limit);
+    },
+    async commit(batch) {
+      const tx = redis.multi();
+      for (const event of batch.events) {
+        const entry = { score: getEventPosition(event), member: JSON.stringify(event) };
+        tx.zadd(eventsKey, entry);
+        tx.zadd(getTypeKey(event.type), entry);
+        tx.zadd(getUserKey(event.user), entry);
+      }
+      for (const passport of batch.passports) {
+        tx.set(getPassportKey(passport.tokenId), passport);
+        tx.sadd(passportsKey, passport.tokenId);
+      }
+      tx.set(cursorKey, batch.cursor);
+      await tx.exec();
+    },
+    async saveScoreSnapshots(snapshots) {
+      if (snapshots.length === 0) return;
+      const tx = redis.multi();
+      for (const snapshot of snapshots) {
+        tx.hset(getSnapshotsKey(snapshot.user), { [snapshot.transactionHash]: snapshot });
+      }
+      await tx.exec();
+    },
+    async getScoreSnapshots(user) {
+      const snapshots = await redis.hgetall<Record<string, ScoreSnapshot>>(getSnapshotsKey(user));
+      return Object.values(snapshots || {}).sort((a, b) => a.recordedAt - b.recordedAt);
+    }
+  };
+}
+
+/**
+ * SQLite store in a local file, through sql.js (SQLite compiled to
+ * WebAssembly, so nothing native to build). The file is reloaded when another
+ * process - e.g. the indexer script next to the dev server - has written it.
+ * A file records the deployment it indexes and is refused for any other.
+ */
+export function createSqliteIndexerStore(filePath: string = DEFAULT_SQLITE_PATH): IndexerStore {
+  let db: Database | null = null;
+  let loadedAt = 0;
+
+  async function getDatabase(): Promise<Database> {
+    // Dynamic imports keep sql.js and fs out of client and edge bundles
+    const fs = await import(/* webpackIgnore: true */ 'fs/promises');
+    const stat = await fs.stat(filePath).catch(() => null);
+
+    if (db && (!stat || stat.mtimeMs <= loadedAt)) {
+      return db;
+    }
+
+    const initSqlJs = (await import(/* webpackIgnore: true */ 'sql.js')).default;
+    const SQL = await initSqlJs();
+
+    db?.close();
+    db = new SQL.Database(stat ? await fs.readFile(filePath) : undefined);
+    loadedAt = stat?.mtimeMs ?? 0;
+
+    db.run(`
+      CREATE TABLE IF NOT EXISTS events (
+        id TEXT PRIMARY KEY,
+        type TEXT NOT NULL,
+        user TEXT NOT NULL,
+        position INTEGER NOT NULL,
+        block_number INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS events_by_user ON events (user, position);
+      CREATE INDEX IF NOT EXISTS events_by_type ON events (type, position);
+      CREATE TABLE IF NOT EXISTS passports (
+        token_id TEXT PRIMARY KEY,
+        data TEXT NOT NULL
+      );
+      CREATE TABLE IF NOT EXISTS score_snapshots (
+        user TEXT NOT NULL,
+        tx_hash TEXT NOT NULL,
+        recorded_at INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        PRIMARY KEY (user, tx_hash)
+      );
+      CREATE TABLE IF NOT EXISTS meta (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `);
+
+    const deployment = db.exec(`SELECT value FROM meta WHERE key = 'deployment'`);
+    const indexed = deployment.length > 0 ? String(deployment[0].values[0][0]) : null;
+    if (indexed === null) {
+      db.run(`INSERT INTO meta (key, value) VALUES ('deployment', ?)`, [DEPLOYMENT_NAMESPACE]);
+    } else if (indexed !== DEPLOYMENT_NAMESPACE) {
+      db.close();
+      db = null;
+      throw new Error(
+        `${filePath} indexes ${indexed}, not ${DEPLOYMENT_NAMESPACE} - delete it or set another INDEXER_SQLITE_PATH`
+      );
+    }
+    return db;
+  }
+
+  async function save(database: Database): Promise<void> {
+    const fs = await import(/* webpackIgnore: true */ 'fs/promises');
+    const path = await import(/* webpackIgnore: true */ 'path');
+
+    // Write then rename, so readers never see a half-written file
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+    const tempPath = `${filePath}.tmp`;
+    await fs.writeFile(tempPath, database.export());
+    await fs.rename(tempPath, filePath);
+    loadedAt = (await fs.stat(filePath)).mtimeMs;
+  }
+
+  function selectJson<T>(database: Database, sql: string, params: (string | number)[] = []): T[] {
+    const statement = database.prepare(sql);
+    const rows: T[] = [];
+    try {
+      statement.bind(params);
+      while (statement.step()) {
+        rows.push(JSON.parse(statement.get()[0] as string));
+      }
+    } finally {
+      statement.free();
+    }
+    return rows;
+  }
+
+  return {
+    kind: 'sqlite',
+    async getCursor() {
+      const database = await getDatabase();
+      const result = database.exec(`SELECT value FROM meta WHERE key = 'cursor'`);
+      return result.length > 0 ? Number(result[0].values[0][0]) : null;
+    },
+    async getPassport(tokenId) {
+      const database = await getDatabase();
+      return selectJson<IndexedPassport>(database, 'SELECT data FROM passports WHERE token_id = ?', [tokenId])[0] || null;
+    },
+    async listPassports() {
+      return selectJson<IndexedPassport>(await getDatabase(), 'SELECT data FROM passports');
+    },
+    async getEvents(query) {
+      const conditions: string[] = [];
+      const params: (string | number)[] = [];
+      if (query.type) {
+        conditions.push('type = ?');
+        params.push(query.type);
+      }
+      if (query.user) {
+        conditions.push('user = ?');
+        params.push(query.user.toLowerCase());
+      }
+      if (query.fromBlock !== undefined) {
+        conditions.push('block_number >= ?');
+        params.push(query.fromBlock);
+      }
+      params.push(query.limit ?? DEFAULT_EVENT_LIMIT);
+
+      return selectJson<IndexedEvent>(
+        await getDatabase(),
+        `SELECT data FROM events ${conditions.length ? `WHERE ${conditions.join(' AND ')}` : ''} ORDER BY position LIMIT ?`,
+        params
+      );
+    },
+    async commit(batch) {
+      const database = await getDatabase();
+      database.run('BEGIN');
+      try {
+        for (const event of batch.events) {
+          database.run(
+            'INSERT OR REPLACE INTO events (id, type, user, position, block_number, data) VALUES (?, ?, ?, ?, ?, ?)',
+            [event.id, event.type, event.user, getEventPosition(event), event.blockNumber, JSON.stringify(event)]
+          );
+        }
+        for (const passport of batch.passports) {
+          database.run(
+            'INSERT OR REPLACE INTO passports (token_id, data) VALUES (?, ?)',
+            [passport.tokenId, JSON.stringify(passport)]
+          );
+        }
+        database.run(`INSERT OR REPLACE INTO meta (key, value) VALUES ('cursor', ?)`, [String(batch.cursor)]);
+        database.run('COMMIT');
+      } catch (error) {
+        database.run('ROLLBACK');
+        throw error;
+      }
+      await save(database);
+    },
+    async saveScoreSnapshots(snapshots) {
+      if (snapshots.length === 0) return;
+      const database = await getDatabase();
+      for (const snapshot of snapshots) {
+        database.run(
+          'INSERT OR REPLACE INTO score_snapshots (user, tx_hash, recorded_at, data) VALUES (?, ?, ?, ?)',
+          [snapshot.user, snapshot.transactionHash, snapshot.recordedAt, JSON.stringify(snapshot)]
+        );
+      }
+      await save(database);
+    },
+    async getScoreSnapshots(user) {
+      return selectJson<ScoreSnapshot>(
+        await getDatabase(),
+        'SELECT data FROM score_snapshots WHERE user = ? ORDER BY recorded_at',
+        [user.toLowerCase()]
+      );
+    }
+  };
+}
+
+let store: IndexerStore | null = null;
+
+// Serverless functions get a fresh, read-only filesystem per instance, so a
+// file or in-process store there would lose every sync
+const SERVERLESS = Boolean(process.env.VERCEL);
+
+/**
+ * The configured store: INDEXER_STORE=redis|sqlite|memory. Defaults to Redis
+ * when the KV env vars are present, otherwise SQLite at INDEXER_SQLITE_PATH.
+ * On Vercel only Redis is accepted.
+ */
+export function getIndexerStore(): IndexerStore {
+  if (store) return store;
+
+  const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
+  const kind = process.env.INDEXER_STORE || (useRedis || SERVERLESS ? 'redis' : 'sqlite');
+
+  if (SERVERLESS && kind !== 'redis') {
+    throw new Error(`INDEXER_STORE=${kind} does not persist on Vercel - use redis`);
+  }
+
+  switch (kind) {
+    case 'redis':
+      if (!useRedis) {
+        throw new Error(SERVERLESS
+          ? 'The indexer needs Redis on Vercel - set KV_REST_API_URL and KV_REST_API_TOKEN'
+          : 'INDEXER_STORE=redis requires KV_REST_API_URL and KV_REST_API_TOKEN');
+      }
+      store = createRedisIndexerStore(new Redis({
+        url: process.env.KV_REST_API_URL!,
+        token: process.env.KV_REST_API_TOKEN!,
+      }));
+      break;
+    case 'sqlite':
+      store = createSqliteIndexerStore(process.env.INDEXER_SQLITE_PATH || DEFAULT_SQLITE_PATH);
+      break;
+    case 'memory':
+      store = createMemoryIndexerStore();
+      break;
+    default:
+      throw new Error(`Unknown INDEXER_STORE: ${kind}`);
+  }
+
+  return store;
+}
@@ -0,0 +1,118 @@
+/**
+ * PoEP mint revert reasons
+ *
+ * Maps every revert PoEP.mint and PoEP.mintFor can raise to a typed code,
+ * a short message and user-facing guidance. Shared by the client preflight
+ * (contract.ts), the mint UI and the relayer, so the same revert is reported
+ * the same way wherever it is caught.
+ */
+
+export type MintRevertCode =
+  | 'ALREADY_MINTED'
+  | 'NULLIFIER_USED'
+  | 'INVALID_PROOF'
+  | 'INTENT_EXPIRED'
+  | 'INVALID_SIGNATURE'
+  | 'CONTRACT_PAUSED'
+  | 'CONTRACT_REVERT';
+
+export interface MintRevertInfo {
+  code: MintRevertCode;
+  message: string;
+  guidance: string;
+  retryable: boolean;
+}
+
+// Revert strings from contracts/PoEP.sol, plus OpenZeppelin's Pausable error
+export const POEP_MINT_REVERTS: Record<string, MintRevertInfo> = {
+  'PoEP: Already minted for this address': {
+    code: 'ALREADY_MINTED',
+    message: 'You already have a PoEP passport for this wallet address',
+    guidance: 'Each wallet holds one passport - yours is already on Base.',
+    retryable: false
+  },
+  'PoEP: Nullifier already used': {
+    code: 'NULLIFIER_USED',
+    message: 'This face has already been used to mint a passport',
+    guidance: 'Each person can mint one passport. Connect the wallet you minted with before.',
+    retryable: false
+  },
+  'PoEP: Invalid ZK proof': {
+    code: 'INVALID_PROOF',
+    message: 'Proof verification failed',
+    guidance: 'Keep the same wallet connected, retake your photos and try again.',
+    retryable: false
+  },
+  'PoEP: Mint intent expired': {
+    code: 'INTENT_EXPIRED',
+    message: 'Your mint request expired',
+    guidance: 'Please sign a new mint request.',
+    retryable: false
+  },
+  'PoEP: Invalid mint intent signature': {
+    code: 'INVALID_SIGNATURE',
+    message: 'The mint request must be signed by the receiving wallet',
+    guidance: 'Sign the request with the wallet that will hold the passport.',
+    retryable: false
+  },
+  EnforcedPause: {
+    code: 'CONTRACT_PAUSED',
+    message: 'Minting is temporarily paused',
+    guidance: 'Please try again later. Your proof stays valid.',
+    retryable: true
+  }
+};
+
+const UNKNOWN_REVERT: MintRevertInfo = {
+  code: 'CONTRACT_REVERT',
+  message: 'Smart contract rejected the transaction',
+  guidance: 'Please try again. If it keeps failing, reload the app and start over.',
+  retryable: false
+};
+
+/**
+ * Thrown by the mint preflight when the call would revert
+ */
+export class MintRevertError extends Error {
+  public readonly code: MintRevertCode;
+  public readonly guidance: string;
+  public readonly retryable: boolean;
+
+  constructor(info: MintRevertInfo) {
+    super(info.message);
+    this.name = 'MintRevertError';
+    this.code = info.code;
+    this.guidance = info.guidance;
+    this.retryable = info.retryable;
+  }
+}
+
+/**
+ * Find a known PoEP revert in an error message or decoded reason
+ */
+export function findMintRevert(text: string | undefined | null): MintRevertInfo | null {
+  if (!text) return null;
+
+  for (const [reason, info] of Object.entries(POEP_MINT_REVERTS)) {
+    if (text.includes(reason)) {
+      return info;
+    }
+  }
+  return null;
+}
+
+/**
+ * The revert for a mint error code, as the relayer and /api/mint-poep
+ * report them
+ */
+export function findMintRevertByCode(code: string | undefined | null): MintRevertInfo | null {
+  if (!code) return null;
+  return Object.values(POEP_MINT_REVERTS).find(info => info.code === code) || null;
+}
+
+/**
+ * Decode a revert reason, falling back to a generic contract revert
+ */
+export function decodeMintRevert(text: string | undefined | null): MintRevertInfo {
+  return findMintRevert(text) || UNKNOWN_REVERT;
+}
@@ -0,0 +1,183 @@
+/**
+ * Network registry
+ *
+ * One typed profile per chain PoEP runs on: Base mainnet, Base Sepolia and a
+ * local Hardhat node. NEXT_PUBLIC_NETWORK picks the profile once, and every
+ * route, hook and component reads chain, RPC, contract addresses and explorer
+ * links from NETWORK instead of switching on NODE_ENV. Shared by client and
+ * server, so NEXT_PUBLIC_* variables are referenced literally for Next.js to
+ * inline them; server-only RPC URLs are simply absent in the browser.
+ * Contract addresses and the start block come from the deployment registry
+ * (deployments.ts) when the chain has a record, and from the environment
+ * otherwise.
+ */
+
+import type { Chain } from 'viem';
+import { base, baseSepolia, hardhat } from 'viem/chains';
+import { getDeployment, type Deployment } from './deployments';
+
+// Same names as the hardhat.config.js networks, so `--network` and
+// NEXT_PUBLIC_NETWORK take the same value
+export type NetworkId = 'baseMainnet' | 'baseSepolia' | 'localhost';
+
+export type NetworkContract = 'poep' | 'verifier';
+
+export interface NetworkExplorer {
+  url: string;
+  // Etherscan-compatible API, used for first-transaction lookups
+  apiUrl: string;
+}
+
+export interface Network {
+  id: NetworkId;
+  name: string;
+  chain: Chain;
+  chainId: number;
+  // Tried in order
+  rpcUrls: string[];
+  contracts: Partial<Record<NetworkContract, `0x${string}`>>;
+  // First block scanned for PoEP events
+  startBlock: number;
+  // Null when the chain has no block explorer
+  explorer: NetworkExplorer | null;
+  testnet: boolean;
+  // Suffix of the NEXT_PUBLIC_*_CONTRACT_ADDRESS_* variables
+  envSuffix: string;
+  // deployments/<chainId>.json, null when addresses come from the environment
+  deployment: Deployment | null;
+}
+
+const LOCALHOST_RPC_URL = 'http://127.0.0.1:8545';
+
+function rpcList(...urls: (string | undefined)[]): string[] {
+  return urls.filter((url): url is string => !!url);
+}
+
+/**
+ * Apply the chain's recorded deployment over the environment's addresses
+ */
+function withDeployment(profile: Omit<Network, 'deployment'>): Network {
+  const deployment = getDeployment(profile.chainId);
+  if (!deployment) {
+    return { ...profile, deployment };
+  }
+
+  return {
+    ...profile,
+    contracts: {
+      poep: deployment.contracts.poep?.address ?? profile.contracts.poep,
+      verifier: deployment.contracts.verifier?.address ?? profile.contracts.verifier
+    },
+    startBlock: deployment.contracts.poep?.blockNumber ?? profile.startBlock,
+    deployment
+  };
+}
+
+export const NETWORKS: Record<NetworkId, Network> = {
+  baseMainnet: withDeployment({
+    id: 'baseMainnet',
+    name: 'Base',
+    chain: base,
+    chainId: base.id,
+    rpcUrls: rpcList(process.env.BASE_MAINNET_RPC, process.env.NEXT_PUBLIC_BASE_RPC_URL, 'https://mainnet.base.org'),
+    contracts: {
+      poep: process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_MAINNET as `0x${string}` | undefined,
+      verifier: process.env.NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_MAINNET as `0x${string}` | undefined
+    },
+    startBlock: 0,
+    explorer: { url: 'https://basescan.org', apiUrl: 'https://api.basescan.org/api' },
+    testnet: false,
+    envSuffix: 'MAINNET'
+  }),
+  baseSepolia: withDeployment({
+    id: 'baseSepolia',
+    name: 'Base Sepolia',
+    chain: baseSepolia,
+    chainId: baseSepolia.id,
+    rpcUrls: rpcList(process.env.BASE_SEPOLIA_RPC, process.env.NEXT_PUBLIC_BASE_SEPOLIA_RPC_URL, 'https://sepolia.base.org'),
+    contracts: {
+      poep: process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_SEPOLIA as `0x${string}` | undefined,
+      verifier: process.env.NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_SEPOLIA as `0x${string}` | undefined
+    },
+    startBlock: 0,
+    explorer: { url: 'https://sepolia.basescan.org', apiUrl: 'https://api-sepolia.basescan.org/api' },
+    testnet: true,
+    envSuffix: 'SEPOLIA'
+  }),
+  localhost: withDeployment({
+    id: 'localhost',
+    name: 'Hardhat',
+    chain: hardhat,
+    chainId: hardhat.id,
+    rpcUrls: rpcList(process.env.NEXT_PUBLIC_LOCALHOST_RPC_URL, LOCALHOST_RPC_URL),
+    contracts: {
+      poep: process.env.NEXT_PUBLIC_POEP_CONTRACT_ADDRESS_LOCALHOST as `0x${string}` | undefined,
+      verifier: process.env.NEXT_PUBLIC_POEPVERIFIER_CONTRACT_ADDRESS_LOCALHOST as `0x${string}` | undefined
+    },
+    startBlock: 0,
+    explorer: null,
+    testnet: true,
+    envSuffix: 'LOCALHOST'
+  })
+};
+
+export function isNetworkId(value: string): value is NetworkId {
+  return Object.prototype.hasOwnProperty.call(NETWORKS, value);
+}
+
+/**
+ * NEXT_PUBLIC_NETWORK, or mainnet for production builds and Sepolia otherwise
+ */
+function resolveNetwork(): Network {
+  const requested = process.env.NEXT_PUBLIC_NETWORK;
+  const isProduction = process.env.NODE_ENV === 'production' || process.env.NEXT_PUBLIC_ENVIRONMENT === 'production';
+  const id = requested || (isProduction ? 'baseMainnet' : 'baseSepolia');
+
+  if (!isNetworkId(id)) {
+    throw new Error(`Unknown NEXT_PUBLIC_NETWORK "${id}" - expected one of ${Object.keys(NETWORKS).join(', ')}`);
+  }
+
+  const network = NETWORKS[id];
+  if (network.deployment?.contracts.poep?.blockNumber != null) {
+    return network;
+  }
+  // POEP_DEPLOYMENT_BLOCK is server only; the browser never scans logs
+  const startBlock = Number(process.env.POEP_DEPLOYMENT_BLOCK || network.startBlock);
+  return { ...network, startBlock };
+}
+
+/**
+ * The network this deployment runs on
+ */
+export const NETWORK: Network = resolveNetwork();
+
+/**
+ * Environment variable holding a contract address on a network, for
+ * configuration error messages
+ */
+export function getContractEnvName(contract: NetworkContract, network: Network = NETWORK): string {
+  const name = contract === 'poep' ? 'POEP' : 'POEPVERIFIER';
+  return `NEXT_PUBLIC_${name}_CONTRACT_ADDRESS_${network.envSuffix}`;
+}
+
+/**
+ * Block explorer link for a transaction, an address or a passport token.
+ * Null on networks without an explorer, or for a token when PoEP is not
+ * configured.
+ */
+export function getExplorerUrl(
+  kind: 'tx' | 'address' | 'token',
+  value: string,
+  network: Network = NETWORK
+): string | null {
+  if (!network.explorer) return null;
+
+  switch (kind) {
+    case 'tx':
+      return `${network.explorer.url}/tx/${value}`;
+    case 'address':
+      return `${network.explorer.url}/address/${value}`;
+    case 'token':
+      return network.contracts.poep ? `${network.explorer.url}/nft/${network.contracts.poep}/${value}` : null;
+  }
+}
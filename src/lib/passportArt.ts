@@ -0,0 +1,126 @@
+/**
+ * Generated PoEP passport artwork
+ *
+ * Every passport gets its own image: a deterministic identicon from the
+ * holder address inside a frame in its tier color, with the current trust
+ * score, mint date and a short nullifier fingerprint. renderPassportSvg draws the SVG; the PNG
+ * route draws the same layout with next/og from the same helpers.
+ */
+
+import type { PassportState } from './passportState';
+import { formatScore, getTierForScore } from './tierPolicy';
+
+export const PASSPORT_ART_SIZE = 512;
+
+export const IDENTICON_GRID = 5;
+
+export interface Identicon {
+  cells: boolean[][];
+  color: string;
+  background: string;
+}
+
+/**
+ * Mirror-symmetric identicon seeded from the holder address. The same
+ * address always produces the same pattern and color, and addresses with
+ * long zero runs still get a full pattern.
+ */
+export function buildIdenticon(address: string): Identicon {
+  const random = seededRandom(address.toLowerCase());
+
+  const hue = Math.floor(random() * 360);
+  const saturation = 55 + Math.floor(random() * 30);
+  const lightness = 40 + Math.floor(random() * 15);
+
+  // Left half plus the middle column is random, then mirrored
+  const half = Math.ceil(IDENTICON_GRID / 2);
+  const cells = Array.from({ length: IDENTICON_GRID }, () => {
+    const left = Array.from({ length: half }, () => random() < 0.5);
+    return [...left, ...left.slice(0, IDENTICON_GRID - half).reverse()];
+  });
+
+  return {
+    cells,
+    color: `hsl(${hue}, ${saturation}%, ${lightness}%)`,
+    background: `hsl(${hue}, ${saturation}%, 95%)`
+  };
+}
+
+// FNV-1a hash of the seed feeding a small deterministic PRNG (mulberry32)
+function seededRandom(seed: string): () => number {
+  let state = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(state ^ seed.charCodeAt(i), 0x01000193) >>> 0;
+  }
+
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Short display form of the nullifier: first and last bytes of its hex
+ */
+export function getNullifierFingerprint(nullifier: string | null): string {
+  if (!nullifier) return 'unknown';
+  const hex = BigInt(nullifier).toString(16).padStart(64, '0');
+  return `0x${hex.slice(0, 6)}…${hex.slice(-4)}`;
+}
+
+export function formatMintDate(mintedAt: number | null): string {
+  return mintedAt ? new Date(mintedAt * 1000).toISOString().slice(0, 10) : 'unknown';
+}
+
+export function shortenAddress(address: string): string {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Render the passport as a standalone SVG document
+ */
+export function renderPassportSvg(state: PassportState): string {
+  const { name, color: frame, background } = getTierForScore(state.trustScore);
+  const identicon = buildIdenticon(state.owner);
+
+  const cellSize = 32;
+  const gridSize = cellSize * IDENTICON_GRID;
+  const gridX = (PASSPORT_ART_SIZE - gridSize) / 2;
+  const gridY = 72;
+
+  const cells = identicon.cells.flatMap((row, y) =>
+    row.map((filled, x) => filled
+      ? `<rect x="${gridX + x * cellSize}" y="${gridY + y * cellSize}" width="${cellSize}" height="${cellSize}" fill="${identicon.color}" />`
+      : ''
+    )
+  ).join('');
+
+  const text = (y: number, size: number, value: string, color = '#374151', weight = 'normal') =>
+    `<text x="256" y="${y}" font-family="Arial, sans-serif" font-size="${size}" font-weight="${weight}" text-anchor="middle" fill="${color}">${escapeXml(value)}</text>`;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg width="${PASSPORT_ART_SIZE}" height="${PASSPORT_ART_SIZE}" viewBox="0 0 ${PASSPORT_ART_SIZE} ${PASSPORT_ART_SIZE}" xmlns="http://www.w3.org/2000/svg">
+  <rect width="512" height="512" fill="${background}" />
+  <rect x="6" y="6" width="500" height="500" rx="24" stroke="${frame}" stroke-width="12" fill="none" />
+  <rect x="${gridX - 16}" y="${gridY - 16}" width="${gridSize + 32}" height="${gridSize + 32}" rx="16" fill="${identicon.background}" stroke="${frame}" stroke-width="4" />
+  ${cells}
+  ${text(300, 34, `PoEP ${name}`, frame, 'bold')}
+  ${text(340, 24, `Trust Score: ${formatScore(state.trustScore)}`)}
+  ${text(374, 18, `Minted ${formatMintDate(state.mintedAt)}`, '#4b5563')}
+  ${text(402, 18, shortenAddress(state.owner), '#4b5563')}
+  ${text(430, 16, `Nullifier ${getNullifierFingerprint(state.nullifier)}`, '#6b7280')}
+  ${text(482, 20, 'Proof-of-Existence Passport', frame, 'bold')}
+</svg>
+`;
+}
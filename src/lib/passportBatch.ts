@@ -0,0 +1,164 @@
+/**
+ * Batched passport lookups for /api/check-poep/batch
+ *
+ * Packs ownerOf and viewTrustScore for many addresses into Multicall3
+ * aggregate3 calls, so a few hundred addresses take a handful of RPC
+ * round-trips instead of three calls each. Addresses in the passport cache
+ * are not read at all. Chains without Multicall3 (a bare Hardhat node) fall
+ * back to one eth_call per read. Server only.
+ */
+
+import { ethers } from 'ethers';
+import { NETWORK } from './networks';
+import { readThroughPassports, type CachedPassport } from './passportCache';
+
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep;
+
+const RPC_URL = NETWORK.rpcUrls[0];
+
+// Multicall3 from the viem chain definition (the same address on every chain that has it)
+const MULTICALL3_ADDRESS = NETWORK.chain.contracts?.multicall3?.address;
+
+export const MAX_BATCH_ADDRESSES = 500;
+
+// Two reads per address; 250 reads stay far below eth_call gas caps
+const READS_PER_MULTICALL = 250;
+
+const RPC_TIMEOUT = 15000;
+
+const poepInterface = new ethers.Interface([
+  'function ownerOf(uint256 tokenId) external view returns (address)',
+  'function viewTrustScore(address user) external view returns (uint256)'
+]);
+
+const multicallInterface = new ethers.Interface([
+  'function aggregate3((address target, bool allowFailure, bytes callData)[] calls) payable returns ((bool success, bytes returnData)[] returnData)'
+]);
+
+export interface BatchPassportStatus {
+  hasPoEP: boolean;
+  trustScore: number;
+  // The address as a decimal number, null without a passport
+  tokenId: string | null;
+}
+
+interface Read {
+  callData: string;
+  decode: (returnData: string) => ethers.Result;
+}
+
+interface ReadResult {
+  success: boolean;
+  returnData: string;
+}
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+function getProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(RPC_URL, undefined, { staticNetwork: true });
+  }
+  return provider;
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error(message)), RPC_TIMEOUT)
+    )
+  ]);
+}
+
+async function multicall(reads: Read[]): Promise<ReadResult[]> {
+  const calls = reads.map(read => ({ target: POEP_CONTRACT_ADDRESS, allowFailure: true, callData: read.callData }));
+  const data = multicallInterface.encodeFunctionData('aggregate3', [calls]);
+  const result = await withTimeout(getProvider().call({ to: MULTICALL3_ADDRESS, data }), 'Multicall timeout');
+  const [returnData] = multicallInterface.decodeFunctionResult('aggregate3', result);
+  return returnData.map((entry: ethers.Result) => ({ success: entry.success, returnData: entry.returnData }));
+}
+
+// One eth_call per read; a revert is a failed read, an RPC error fails the batch
+async function callEach(reads: Read[]): Promise<ReadResult[]> {
+  return Promise.all(reads.map(async read => {
+    try {
+      const returnData = await withTimeout(
+        getProvider().call({ to: POEP_CONTRACT_ADDRESS, data: read.callData }),
+        'Read timeout'
+      );
+      return { success: true, returnData };
+    } catch (error: any) {
+      if (error.code === 'CALL_EXCEPTION') {
+        return { success: false, returnData: '0x' };
+      }
+      throw error;
+    }
+  }));
+}
+
+// Reads the chain for addresses the passport cache does not have
+async function loadPassports(addresses: string[]): Promise<Record<string, CachedPassport>> {
+  const reads: Read[] = addresses.flatMap(address => [
+    {
+      // Token ids are the owner's address; ownerOf reverts when there is no token
+      callData: poepInterface.encodeFunctionData('ownerOf', [BigInt(address)]),
+      decode: returnData => poepInterface.decodeFunctionResult('ownerOf', returnData)
+    },
+    {
+      callData: poepInterface.encodeFunctionData('viewTrustScore', [address]),
+      decode: returnData => poepInterface.decodeFunctionResult('viewTrustScore', returnData)
+    }
+  ]);
+
+  const chunks: Read[][] = [];
+  for (let i = 0; i < reads.length; i += READS_PER_MULTICALL) {
+    chunks.push(reads.slice(i, i + READS_PER_MULTICALL));
+  }
+  const results = (await Promise.all(chunks.map(chunk => MULTICALL3_ADDRESS ? multicall(chunk) : callEach(chunk)))).flat();
+
+  const passports: Record<string, CachedPassport> = {};
+  addresses.forEach((address, index) => {
+    const ownerRead = results[index * 2];
+    const scoreRead = results[index * 2 + 1];
+
+    const owner = ownerRead.success ? reads[index * 2].decode(ownerRead.returnData)[0] as string : null;
+    const hasPassport = owner !== null && owner.toLowerCase() === address.toLowerCase();
+
+    if (hasPassport && !scoreRead.success) {
+      throw new Error(`Trust score read failed for ${address}`);
+    }
+
+    passports[address] = {
+      hasPassport,
+      trustScore: hasPassport ? Number(reads[index * 2 + 1].decode(scoreRead.returnData)[0]) : 0
+    };
+  });
+
+  return passports;
+}
+
+/**
+ * Passport status of every address, keyed by checksummed address. Addresses
+ * must be valid; duplicates are looked up once and cached ones not at all.
+ * Throws if the chain cannot be reached.
+ */
+export async function getPassportStatuses(addresses: string[]): Promise<Record<string, BatchPassportStatus>> {
+  if (!POEP_CONTRACT_ADDRESS) {
+    throw new Error('Contract configuration missing');
+  }
+
+  const unique = [...new Set(addresses.map(address => ethers.getAddress(address)))];
+  const passports = await readThroughPassports(unique, loadPassports);
+
+  const statuses: Record<string, BatchPassportStatus> = {};
+  for (const address of unique) {
+    const { hasPassport, trustScore } = passports[address];
+    statuses[address] = {
+      hasPoEP: hasPassport,
+      trustScore,
+      tokenId: hasPassport ? BigInt(address).toString() : null
+    };
+  }
+
+  return statuses;
+}
@@ -0,0 +1,212 @@
+/**
+ * Read-through cache for on-chain passport reads
+ *
+ * check-poep, the metadata and artwork routes, the batch lookup and withPoEP
+ * all need the same two facts about an address: whether it holds a passport
+ * and its trust score. They read them through this cache, so a page load no
+ * longer costs fresh ownerOf/viewTrustScore calls against a rate-limited
+ * public RPC. Entries live in Redis (Upstash, as in kv.ts) with an in-memory
+ * fallback, keyed by chain, contract and address, and expire after
+ * PASSPORT_CACHE_TTL seconds. The indexer, the relayer and the score engine
+ * invalidate an address as soon as they see its mint, score update or burn.
+ * Hit and miss counts are per instance and reported by /api/health. Server
+ * only.
+ */
+
+import { Redis } from '@upstash/redis';
+import { APP_NAME } from './constants';
+import { NETWORK } from './networks';
+
+export interface CachedPassport {
+  hasPassport: boolean;
+  // 0 without a passport
+  trustScore: number;
+}
+
+export interface PassportCacheStats {
+  store: 'redis' | 'memory';
+  ttlSeconds: number;
+  hits: number;
+  misses: number;
+  invalidations: number;
+  // Store failures; the read went to the chain instead
+  errors: number;
+  // Null before the first read
+  hitRate: number | null;
+}
+
+export const PASSPORT_CACHE_TTL_SECONDS = Number(process.env.PASSPORT_CACHE_TTL || 30);
+
+// Oldest entries are dropped beyond this in the in-memory fallback
+const MAX_LOCAL_ENTRIES = 10000;
+
+// In-memory fallback storage and counters. Kept on globalThis because next dev
+// bundles each route separately, and invalidations from the indexer route must
+// reach the routes that read.
+interface LocalPassportCache {
+  entries: Map<string, { passport: CachedPassport; expiresAt: number }>;
+  stats: Pick<PassportCacheStats, 'hits' | 'misses' | 'invalidations' | 'errors'>;
+}
+
+const globalCache = globalThis as typeof globalThis & { poepPassportCache?: LocalPassportCache };
+globalCache.poepPassportCache ??= {
+  entries: new Map(),
+  stats: { hits: 0, misses: 0, invalidations: 0, errors: 0 }
+};
+
+const localEntries = globalCache.poepPassportCache.entries;
+const stats = globalCache.poepPassportCache.stats;
+
+// Use Redis if KV env vars are present, otherwise use in-memory
+const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
+const redis = useRedis
+  ? new Redis({
+      url: process.env.KV_REST_API_URL!,
+      token: process.env.KV_REST_API_TOKEN!,
+    })
+  : null;
+
+// A redeploy changes the contract address, so old entries are never read
+const CACHE_KEY_PREFIX = `${APP_NAME}:passport-cache:${NETWORK.chainId}:${NETWORK.contracts.poep?.toLowerCase()}`;
+
+function getCacheKey(address: string): string {
+  return `${CACHE_KEY_PREFIX}:${address.toLowerCase()}`;
+}
+
+async function readEntries(keys: string[]): Promise<(CachedPassport | null)[]> {
+  if (redis) {
+    return redis.mget<(CachedPassport | null)[]>(...keys);
+  }
+
+  const now = Date.now();
+  return keys.map(key => {
+    const entry = localEntries.get(key);
+    return entry && entry.expiresAt > now ? entry.passport : null;
+  });
+}
+
+async function writeEntries(entries: [string, CachedPassport][]): Promise<void> {
+  if (redis) {
+    const pipeline = redis.pipeline();
+    entries.forEach(([key, passport]) => pipeline.set(key, passport, { ex: PASSPORT_CACHE_TTL_SECONDS }));
+    await pipeline.exec();
+    return;
+  }
+
+  const expiresAt = Date.now() + PASSPORT_CACHE_TTL_SECONDS * 1000;
+  for (const [key, passport] of entries) {
+    localEntries.delete(key);
+    localEntries.set(key, { passport, expiresAt });
+  }
+  // Maps iterate in insertion order, so the first keys are the oldest
+  for (const key of localEntries.keys()) {
+    if (localEntries.size <= MAX_LOCAL_ENTRIES) break;
+    localEntries.delete(key);
+  }
+}
+
+/**
+ * Passports of many addresses, loading the ones not in the cache with a
+ * single `load` call. `load` must return an entry for every address it is
+ * given, keyed the same way. With `fresh`, the cache is skipped and refilled.
+ * Store failures fall back to `load`; errors from `load` are thrown.
+ */
+export async function readThroughPassports(
+  addresses: string[],
+  load: (addresses: string[]) => Promise<Record<string, CachedPassport>>,
+  options: { fresh?: boolean } = {}
+): Promise<Record<string, CachedPassport>> {
+  const keys = addresses.map(getCacheKey);
+
+  let cached: (CachedPassport | null)[] = addresses.map(() => null);
+  if (!options.fresh && addresses.length > 0) {
+    try {
+      cached = await readEntries(keys);
+    } catch (error: any) {
+      stats.errors++;
+      console.warn('[PASSPORT-CACHE] Read failed:', error.message);
+    }
+  }
+
+  const passports: Record<string, CachedPassport> = {};
+  const missing: string[] = [];
+  addresses.forEach((address, index) => {
+    if (cached[index]) {
+      passports[address] = cached[index]!;
+    } else {
+      missing.push(address);
+    }
+  });
+
+  stats.hits += addresses.length - missing.length;
+  stats.misses += missing.length;
+
+  if (missing.length > 0) {
+    const loaded = await load(missing);
+    Object.assign(passports, loaded);
+    try {
+      await writeEntries(missing.map(address => [getCacheKey(address), loaded[address]]));
+    } catch (error: any) {
+      stats.errors++;
+      console.warn('[PASSPORT-CACHE] Write failed:', error.message);
+    }
+  }
+
+  return passports;
+}
+
+/**
+ * Passport of one address, from the cache or from `load`
+ */
+export async function readThroughPassport(
+  address: string,
+  load: () => Promise<CachedPassport>,
+  options: { fresh?: boolean } = {}
+): Promise<CachedPassport> {
+  const passports = await readThroughPassports(
+    [address],
+    async () => ({ [address]: await load() }),
+    options
+  );
+  return passports[address];
+}
+
+/**
+ * Drop cached passports, e.g. after a mint, score update or burn. Failures are
+ * logged rather than thrown: the entries expire within the TTL regardless.
+ */
+export async function invalidatePassports(addresses: string[]): Promise<void> {
+  const keys = [...new Set(addresses.map(getCacheKey))];
+  if (keys.length === 0) return;
+
+  try {
+    if (redis) {
+      await redis.del(...keys);
+    } else {
+      keys.forEach(key => localEntries.delete(key));
+    }
+    stats.invalidations += keys.length;
+  } catch (error: any) {
+    stats.errors++;
+    console.warn('[PASSPORT-CACHE] Invalidation failed:', error.message);
+  }
+}
+
+/**
+ * Throws if the cache store cannot be reached
+ */
+export async function pingPassportCache(): Promise<void> {
+  if (redis) {
+    await redis.ping();
+  }
+}
+
+export function getPassportCacheStats(): PassportCacheStats {
+  const reads = stats.hits + stats.misses;
+  return {
+    store: redis ? 'redis' : 'memory',
+    ttlSeconds: PASSPORT_CACHE_TTL_SECONDS,
+    ...stats,
+    hitRate: reads > 0 ? stats.hits / reads : null
+  };
+}
@@ -0,0 +1,240 @@
+/**
+ * On-chain passport state for metadata and artwork routes
+ *
+ * Reads owner and trust score from PoEP through the passport cache, plus mint
+ * date and nullifier from the indexer or, if it has not seen the mint, the
+ * PassportMinted event. Nothing is taken from the request, so metadata and
+ * images always reflect the chain. Server only.
+ */
+
+import { ethers } from 'ethers';
+import { getIndexedPassportByTokenId } from './indexer';
+import { NETWORK } from './networks';
+import { readThroughPassport, type CachedPassport } from './passportCache';
+
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep;
+
+const RPC_URL = NETWORK.rpcUrls[0];
+
+// First block to scan for PassportMinted (POEP_DEPLOYMENT_BLOCK)
+const DEPLOYMENT_BLOCK = NETWORK.startBlock;
+
+const RPC_TIMEOUT = 8000;
+
+const contractABI = [
+  'function ownerOf(uint256 tokenId) external view returns (address)',
+  'function trustScore(uint256 tokenId) external view returns (uint256)',
+  'event PassportMinted(address indexed user, uint256 indexed tokenId, uint256 nullifier)'
+];
+
+// Scores change, so caches revalidate quickly; the ETag carries the score
+export const PASSPORT_CACHE_CONTROL = 'public, max-age=60, s-maxage=60, stale-while-revalidate=300';
+
+export interface PassportState {
+  tokenId: string;
+  owner: string;
+  trustScore: number;
+  // Unix seconds, null if the mint event could not be read
+  mintedAt: number | null;
+  nullifier: string | null;
+}
+
+interface MintRecord {
+  mintedAt: number;
+  nullifier: string;
+}
+
+// A mint record only changes when its passport is burned and minted again, so
+// records are kept per instance for an hour, dropped as soon as a read finds
+// the passport gone, and capped like the passport cache's in-memory fallback
+const MINT_RECORD_TTL_MS = 60 * 60 * 1000;
+const MAX_MINT_RECORDS = 10000;
+const mintRecords = new Map<string, { record: MintRecord; expiresAt: number }>();
+
+function getCachedMintRecord(key: string): MintRecord | null {
+  const entry = mintRecords.get(key);
+  if (!entry) return null;
+  if (entry.expiresAt <= Date.now()) {
+    mintRecords.delete(key);
+    return null;
+  }
+  return entry.record;
+}
+
+function cacheMintRecord(key: string, record: MintRecord): void {
+  mintRecords.delete(key);
+  mintRecords.set(key, { record, expiresAt: Date.now() + MINT_RECORD_TTL_MS });
+  // Maps iterate in insertion order, so the first keys are the oldest
+  for (const oldest of mintRecords.keys()) {
+    if (mintRecords.size <= MAX_MINT_RECORDS) break;
+    mintRecords.delete(oldest);
+  }
+}
+
+let contract: ethers.Contract | null = null;
+
+function getContract(): ethers.Contract {
+  if (!POEP_CONTRACT_ADDRESS) {
+    throw new Error('Contract configuration missing');
+  }
+  if (!contract) {
+    const provider = new ethers.JsonRpcProvider(RPC_URL, undefined, { staticNetwork: true });
+    contract = new ethers.Contract(POEP_CONTRACT_ADDRESS, contractABI, provider);
+  }
+  return contract;
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error(message)), RPC_TIMEOUT)
+    )
+  ]);
+}
+
+/**
+ * Parse a tokenId route parameter (decimal uint256)
+ */
+export function parseTokenId(value: string): bigint | null {
+  if (!/^\d{1,78}$/.test(value)) {
+    return null;
+  }
+  const tokenId = BigInt(value);
+  return tokenId <= ethers.MaxUint256 ? tokenId : null;
+}
+
+/**
+ * Mint date and nullifier from the PassportMinted event, or null if the logs
+ * cannot be read (e.g. RPC log range limits)
+ */
+async function getMintRecord(poep: ethers.Contract, tokenId: bigint): Promise<MintRecord | null> {
+  const key = tokenId.toString();
+  const cached = getCachedMintRecord(key);
+  if (cached) return cached;
+
+  // The indexer already has it unless it is behind or not running
+  try {
+    const indexed = await getIndexedPassportByTokenId(key);
+    if (indexed && !indexed.burned) {
+      const record = { mintedAt: indexed.mintedAt, nullifier: indexed.nullifier };
+      cacheMintRecord(key, record);
+      return record;
+    }
+  } catch (error: any) {
+    console.warn('[PASSPORT] Indexer lookup failed:', error.message);
+  }
+
+  try {
+    const events = await withTimeout(
+      poep.queryFilter(poep.filters.PassportMinted(null, tokenId), DEPLOYMENT_BLOCK),
+      'Mint event lookup timeout'
+    );
+    // A burned passport can be minted again - the latest mint is the current one
+    const latest = events[events.length - 1];
+    if (!latest || !('args' in latest)) return null;
+
+    const block = await withTimeout(latest.getBlock(), 'Block lookup timeout');
+    const record = { mintedAt: block.timestamp, nullifier: latest.args.nullifier.toString() };
+    cacheMintRecord(key, record);
+    return record;
+  } catch (error: any) {
+    console.warn('[PASSPORT] Mint event lookup failed:', error.message);
+    return null;
+  }
+}
+
+// Token ids are the holder's address, so no token id above this can exist
+const MAX_TOKEN_ID = (1n << 160n) - 1n;
+
+async function loadPassport(poep: ethers.Contract, tokenId: bigint): Promise<CachedPassport> {
+  try {
+    await withTimeout(poep.ownerOf(tokenId), 'Owner lookup timeout');
+  } catch (error: any) {
+    // ownerOf reverts for tokens that were never minted or were burned
+    if (error.code === 'CALL_EXCEPTION') {
+      return { hasPassport: false, trustScore: 0 };
+    }
+    throw error;
+  }
+
+  const score = await withTimeout(poep.trustScore(tokenId), 'Score lookup timeout');
+  return { hasPassport: true, trustScore: Number(score) };
+}
+
+/**
+ * Current on-chain state of a passport, or null if the token does not exist.
+ * Owner and score come through the passport cache unless `fresh` is set.
+ * Throws if the chain cannot be reached.
+ */
+export async function getPassportState(
+  tokenId: bigint,
+  options: { fresh?: boolean } = {}
+): Promise<PassportState | null> {
+  if (tokenId > MAX_TOKEN_ID) {
+    return null;
+  }
+
+  const poep = getContract();
+  const owner = ethers.getAddress(ethers.toBeHex(tokenId, 20));
+
+  const { hasPassport, trustScore } = await readThroughPassport(owner, () => loadPassport(poep, tokenId), options);
+  if (!hasPassport) {
+    // Burned; a later mint of the same token gets a new record
+    mintRecords.delete(tokenId.toString());
+    return null;
+  }
+
+  const mintRecord = await getMintRecord(poep, tokenId);
+
+  return {
+    tokenId: tokenId.toString(),
+    owner,
+    trustScore,
+    mintedAt: mintRecord?.mintedAt ?? null,
+    nullifier: mintRecord?.nullifier ?? null
+  };
+}
+
+/**
+ * ETag for responses derived from a passport's state
+ */
+export function getPassportEtag(state: PassportState, variant: string): string {
+  return `"poep-${variant}-${state.tokenId}-${state.trustScore}-${state.mintedAt ?? 0}"`;
+}
+
+/**
+ * Resolve a tokenId route parameter to passport state, or the HTTP status
+ * and message to answer with
+ */
+export async function resolvePassport(
+  tokenIdParam: string
+): Promise<{ state: PassportState } | { error: string; status: number }> {
+  const tokenId = parseTokenId(tokenIdParam);
+  if (tokenId === null) {
+    return { error: 'Invalid token id', status: 400 };
+  }
+
+  if (!POEP_CONTRACT_ADDRESS) {
+    return { error: 'Contract configuration missing', status: 500 };
+  }
+
+  try {
+    const state = await getPassportState(tokenId);
+    return state ? { state } : { error: 'Token does not exist', status: 404 };
+  } catch (error: any) {
+    console.error('[PASSPORT] State lookup failed:', error.message);
+    return { error: 'Blockchain service temporarily unavailable', status: 503 };
+  }
+}
+
+/**
+ * Cache headers for a resolvePassport error: 404s are cached briefly, chain
+ * outages not at all
+ */
+export function getPassportErrorHeaders(status: number): Record<string, string> {
+  if (status === 503) {
+    return { 'Cache-Control': 'no-store', 'Retry-After': '30' };
+  }
+  return { 'Cache-Control': status === 404 ? 'public, max-age=60' : 'no-store' };
+}
@@ -0,0 +1,73 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  BN254_BASE_FIELD,
+  decodeCompactProof,
+  encodeCompactProof,
+  normalizeProof,
+  normalizePublicSignals,
+  ProofCodecError,
+  toCalldataProof,
+  toSolidityProof
+} from './proofCodec';
+
+// Shaped like snarkjs output; the values only have to be field elements
+const SNARKJS_PROOF = {
+  pi_a: ['11', '12', '1'],
+  pi_b: [['21', '22'], ['23', '24'], ['1', '0']],
+  pi_c: ['31', (BN254_BASE_FIELD - 1n).toString(), '1'],
+  protocol: 'groth16',
+  curve: 'bn128'
+};
+
+test('snarkjs, calldata and compact forms decode to the same proof', () => {
+  const canonical = normalizeProof(SNARKJS_PROOF);
+  assert.deepEqual(canonical, SNARKJS_PROOF);
+
+  assert.deepEqual(normalizeProof(toCalldataProof(SNARKJS_PROOF)), canonical);
+  assert.deepEqual(normalizeProof(toCalldataProof(SNARKJS_PROOF, 'hex')), canonical);
+
+  const compact = encodeCompactProof(SNARKJS_PROOF);
+  assert.deepEqual(decodeCompactProof(compact), canonical);
+  assert.equal(encodeCompactProof(toCalldataProof(SNARKJS_PROOF)), compact);
+});
+
+test('calldata lists each G2 coordinate as [c1, c0]', () => {
+  const { pA, pB, pC } = toSolidityProof(SNARKJS_PROOF);
+  assert.deepEqual(pA, [11n, 12n]);
+  assert.deepEqual(pB, [[22n, 21n], [24n, 23n]]);
+  assert.deepEqual(pC, [31n, BN254_BASE_FIELD - 1n]);
+
+  assert.deepEqual(toCalldataProof(SNARKJS_PROOF).pB, [['22', '21'], ['24', '23']]);
+});
+
+test('malformed proofs are rejected', () => {
+  const malformed: unknown[] = [
+    null,
+    42,
+    { ...SNARKJS_PROOF, protocol: 'plonk' },
+    { ...SNARKJS_PROOF, curve: 'bls12381' },
+    { ...SNARKJS_PROOF, pi_a: ['11'] },
+    { ...SNARKJS_PROOF, pi_a: ['11', '12', '2'] },
+    { ...SNARKJS_PROOF, pi_b: [['21', '22'], ['23', '24'], ['0', '1']] },
+    { ...SNARKJS_PROOF, pi_c: ['31', BN254_BASE_FIELD.toString(), '1'] },
+    { ...SNARKJS_PROOF, pi_c: ['31', '-1', '1'] },
+    { pA: ['1', '2'], pB: [['3', '4']], pC: ['5', '6'] },
+    'not base64url!',
+    encodeCompactProof(SNARKJS_PROOF).slice(0, -4)
+  ];
+
+  for (const proof of malformed) {
+    assert.throws(() => normalizeProof(proof), ProofCodecError, JSON.stringify(proof));
+  }
+});
+
+test('public signals are range checked', () => {
+  const recipient = '0x' + 'ab'.repeat(20);
+  assert.deepEqual(normalizePublicSignals(['7', recipient, 8453]), ['7', BigInt(recipient).toString(), '8453']);
+
+  assert.throws(() => normalizePublicSignals(['7', recipient]), ProofCodecError);
+  assert.throws(() => normalizePublicSignals(['0', recipient, '8453']), ProofCodecError);
+  assert.throws(() => normalizePublicSignals(['7', (1n << 160n).toString(), '8453']), ProofCodecError);
+  assert.throws(() => normalizePublicSignals(['7', recipient, (1n << 64n).toString()]), ProofCodecError);
+});
@@ -0,0 +1,282 @@
+/**
+ * Canonical PoEP proof codec
+ *
+ * One place that converts a Groth16 proof between the forms it travels in:
+ * - snarkjs JSON ({ pi_a, pi_b, pi_c }) as produced by the prover
+ * - Solidity calldata ({ pA, pB, pC }) with the pB coordinates swapped for
+ *   the verifier's G2 encoding
+ * - decimal or 0x-hex field elements
+ * - a compact base64url transport form: the 256-byte ABI encoding of
+ *   (uint[2] pA, uint[2][2] pB, uint[2] pC)
+ * Every decoder validates strictly, so a proof encoded by one layer is
+ * decoded identically by the client, the API and the contract call.
+ * No Node or browser dependencies - safe to import anywhere.
+ */
+
+// BN254 scalar field (r) - public signals must be below it
+export const SNARK_SCALAR_FIELD = BigInt(
+  '21888242871839275222246405745257275088548364400416034343698204186575808495617'
+);
+
+// BN254 base field (q) - proof point coordinates must be below it
+export const BN254_BASE_FIELD = BigInt(
+  '21888242871839275222246405745257275088696311157297823662689037894645226208583'
+);
+
+// Public signal order fixed by facehash.circom: [nullifier, recipient, chainId]
+export const PUBLIC_SIGNAL_COUNT = 3;
+
+const COMPACT_PROOF_BYTES = 8 * 32;
+
+export type FieldEncoding = 'decimal' | 'hex';
+
+export interface Groth16Proof {
+  pi_a: string[];
+  pi_b: string[][];
+  pi_c: string[];
+  protocol: 'groth16';
+  curve: 'bn128';
+}
+
+export interface CalldataProof {
+  pA: [string, string];
+  pB: [[string, string], [string, string]];
+  pC: [string, string];
+}
+
+export interface SolidityProof {
+  pA: readonly [bigint, bigint];
+  pB: readonly [readonly [bigint, bigint], readonly [bigint, bigint]];
+  pC: readonly [bigint, bigint];
+}
+
+export class ProofCodecError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProofCodecError';
+  }
+}
+
+/**
+ * Parse a field element given as a decimal string, 0x-hex string, bigint or
+ * safe integer, and check it is below the modulus
+ */
+export function parseFieldElement(value: unknown, modulus: bigint = BN254_BASE_FIELD): bigint {
+  let parsed: bigint;
+
+  if (typeof value === 'bigint') {
+    parsed = value;
+  } else if (typeof value === 'number' && Number.isSafeInteger(value)) {
+    parsed = BigInt(value);
+  } else if (typeof value === 'string' && /^\d{1,78}$/.test(value)) {
+    parsed = BigInt(value);
+  } else if (typeof value === 'string' && /^0x[0-9a-fA-F]{1,64}$/.test(value)) {
+    parsed = BigInt(value);
+  } else {
+    throw new ProofCodecError('Field element must be a decimal or 0x-hex integer');
+  }
+
+  if (parsed < 0n || parsed >= modulus) {
+    throw new ProofCodecError('Field element out of range');
+  }
+
+  return parsed;
+}
+
+/**
+ * Encode a field element as a decimal string or 32-byte 0x-hex string
+ */
+export function encodeFieldElement(value: bigint, encoding: FieldEncoding = 'decimal'): string {
+  return encoding === 'hex' ? '0x' + value.toString(16).padStart(64, '0') : value.toString();
+}
+
+function parsePair(value: unknown, label: string): [bigint, bigint] {
+  // snarkjs appends the projective z coordinate, which must be 1 (affine)
+  if (!Array.isArray(value) || value.length < 2 || value.length > 3) {
+    throw new ProofCodecError(`Malformed ${label}`);
+  }
+  if (value.length === 3 && parseFieldElement(value[2]) !== 1n) {
+    throw new ProofCodecError(`${label} is not in affine form`);
+  }
+  return [parseFieldElement(value[0]), parseFieldElement(value[1])];
+}
+
+function parseG2(value: unknown, label: string): [[bigint, bigint], [bigint, bigint]] {
+  if (!Array.isArray(value) || value.length < 2 || value.length > 3) {
+    throw new ProofCodecError(`Malformed ${label}`);
+  }
+  if (value.length === 3) {
+    const [z0, z1] = parsePair(value[2], label);
+    if (z0 !== 1n || z1 !== 0n) {
+      throw new ProofCodecError(`${label} is not in affine form`);
+    }
+  }
+  return [parsePair(value[0], label), parsePair(value[1], label)];
+}
+
+function fromPoints(
+  a: [bigint, bigint],
+  b: [[bigint, bigint], [bigint, bigint]],
+  c: [bigint, bigint]
+): Groth16Proof {
+  return {
+    pi_a: [a[0].toString(), a[1].toString(), '1'],
+    pi_b: [
+      [b[0][0].toString(), b[0][1].toString()],
+      [b[1][0].toString(), b[1][1].toString()],
+      ['1', '0']
+    ],
+    pi_c: [c[0].toString(), c[1].toString(), '1'],
+    protocol: 'groth16',
+    curve: 'bn128'
+  };
+}
+
+/**
+ * True if the value looks like Solidity calldata ({ pA, pB, pC })
+ */
+export function isCalldataProof(value: any): boolean {
+  return !!value && typeof value === 'object' &&
+    Array.isArray(value.pA) && Array.isArray(value.pB) && Array.isArray(value.pC);
+}
+
+/**
+ * Decode a proof in any supported form (snarkjs JSON, calldata with decimal
+ * or hex elements, or the compact string) to canonical snarkjs JSON with
+ * decimal elements. Throws ProofCodecError if anything is malformed.
+ */
+export function normalizeProof(value: unknown): Groth16Proof {
+  if (typeof value === 'string') {
+    return decodeCompactProof(value);
+  }
+
+  if (!value || typeof value !== 'object') {
+    throw new ProofCodecError('Proof must be an object or compact string');
+  }
+
+  const proof = value as any;
+
+  if (isCalldataProof(proof)) {
+    if (proof.pA.length !== 2 || proof.pC.length !== 2 || proof.pB.length !== 2) {
+      throw new ProofCodecError('Malformed calldata proof');
+    }
+    // Calldata lists each G2 coordinate as [c1, c0]; snarkjs as [c0, c1]
+    const [b0, b1] = parseG2(proof.pB, 'pB');
+    return fromPoints(parsePair(proof.pA, 'pA'), [[b0[1], b0[0]], [b1[1], b1[0]]], parsePair(proof.pC, 'pC'));
+  }
+
+  if (proof.protocol !== undefined && proof.protocol !== 'groth16') {
+    throw new ProofCodecError('Unsupported proof protocol');
+  }
+  if (proof.curve !== undefined && proof.curve !== 'bn128') {
+    throw new ProofCodecError('Unsupported proof curve');
+  }
+
+  return fromPoints(parsePair(proof.pi_a, 'pi_a'), parseG2(proof.pi_b, 'pi_b'), parsePair(proof.pi_c, 'pi_c'));
+}
+
+/**
+ * Convert any supported proof form to Solidity calldata strings
+ */
+export function toCalldataProof(value: unknown, encoding: FieldEncoding = 'decimal'): CalldataProof {
+  const { pA, pB, pC } = toSolidityProof(value);
+  const encode = (element: bigint) => encodeFieldElement(element, encoding);
+
+  return {
+    pA: [encode(pA[0]), encode(pA[1])],
+    pB: [[encode(pB[0][0]), encode(pB[0][1])], [encode(pB[1][0]), encode(pB[1][1])]],
+    pC: [encode(pC[0]), encode(pC[1])]
+  };
+}
+
+/**
+ * Convert any supported proof form to the bigint tuples PoEP.mint and
+ * PoEP.mintFor take
+ */
+export function toSolidityProof(value: unknown): SolidityProof {
+  const proof = normalizeProof(value);
+  const element = (input: string) => BigInt(input);
+
+  return {
+    pA: [element(proof.pi_a[0]), element(proof.pi_a[1])],
+    pB: [
+      [element(proof.pi_b[0][1]), element(proof.pi_b[0][0])],
+      [element(proof.pi_b[1][1]), element(proof.pi_b[1][0])]
+    ],
+    pC: [element(proof.pi_c[0]), element(proof.pi_c[1])]
+  };
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) {
+    binary += String.fromCharCode(byte);
+  }
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+function fromBase64Url(value: string): Uint8Array {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  return Uint8Array.from(binary, char => char.charCodeAt(0));
+}
+
+/**
+ * Encode a proof as base64url of abi.encode(pA, pB, pC) - 256 bytes
+ */
+export function encodeCompactProof(value: unknown): string {
+  const { pA, pB, pC } = toSolidityProof(value);
+  const elements = [...pA, ...pB[0], ...pB[1], ...pC];
+  const bytes = new Uint8Array(COMPACT_PROOF_BYTES);
+
+  elements.forEach((element, i) => {
+    const hex = element.toString(16).padStart(64, '0');
+    for (let j = 0; j < 32; j++) {
+      bytes[i * 32 + j] = parseInt(hex.slice(j * 2, j * 2 + 2), 16);
+    }
+  });
+
+  return toBase64Url(bytes);
+}
+
+/**
+ * Decode the compact base64url form back to canonical snarkjs JSON
+ */
+export function decodeCompactProof(value: string): Groth16Proof {
+  if (typeof value !== 'string' || !/^[A-Za-z0-9_-]+={0,2}$/.test(value)) {
+    throw new ProofCodecError('Compact proof must be base64url');
+  }
+
+  const bytes = fromBase64Url(value.replace(/=+$/, ''));
+  if (bytes.length !== COMPACT_PROOF_BYTES) {
+    throw new ProofCodecError('Compact proof must be 256 bytes');
+  }
+
+  const elements = Array.from({ length: 8 }, (_, i) =>
+    '0x' + Array.from(bytes.subarray(i * 32, i * 32 + 32), byte => byte.toString(16).padStart(2, '0')).join('')
+  );
+
+  return normalizeProof({
+    pA: [elements[0], elements[1]],
+    pB: [[elements[2], elements[3]], [elements[4], elements[5]]],
+    pC: [elements[6], elements[7]]
+  });
+}
+
+/**
+ * Validate public signals ([nullifier, recipient, chainId]) and return them
+ * as canonical decimal strings
+ */
+export function normalizePublicSignals(value: unknown): string[] {
+  if (!Array.isArray(value) || value.length !== PUBLIC_SIGNAL_COUNT) {
+    throw new ProofCodecError('Malformed public signals');
+  }
+
+  const [nullifier, recipient, chainId] = value.map(signal => parseFieldElement(signal, SNARK_SCALAR_FIELD));
+
+  if (nullifier === 0n || recipient >= (1n << 160n) || chainId >= (1n << 64n)) {
+    throw new ProofCodecError('Public signals out of range');
+  }
+
+  return [nullifier, recipient, chainId].map(signal => signal.toString());
+}
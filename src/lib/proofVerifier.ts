@@ -0,0 +1,124 @@
+/**
+ * Server-side Groth16 verification for PoEP proofs
+ *
+ * Verifies proofs in-process with snarkjs against circuits/verification_key.json,
+ * so the relayer can reject invalid proofs before spending gas and partners
+ * can check a proof without a chain call. Node only - the browser path is
+ * verifyZKProof in zkProof.ts.
+ */
+
+import { getAddress } from 'ethers';
+import { readFile } from 'fs/promises';
+import path from 'path';
+import * as snarkjs from 'snarkjs';
+import {
+  normalizeProof,
+  normalizePublicSignals,
+  PUBLIC_SIGNAL_COUNT,
+  type Groth16Proof
+} from './proofCodec';
+
+const VERIFICATION_KEY_PATH = path.join(process.cwd(), 'circuits', 'verification_key.json');
+const VERIFY_TIMEOUT = 10000;
+
+export interface ProofVerificationResult {
+  valid: boolean;
+  reason?: string;
+  nullifier?: string;
+  recipient?: string;
+  chainId?: number;
+}
+
+// Loaded once per server instance
+let verificationKeyPromise: Promise<any> | null = null;
+
+/**
+ * Load and cache the circuit verification key
+ */
+export function getVerificationKey(): Promise<any> {
+  if (!verificationKeyPromise) {
+    verificationKeyPromise = readFile(VERIFICATION_KEY_PATH, 'utf8')
+      .then(contents => {
+        const key = JSON.parse(contents);
+        if (key.protocol !== 'groth16' || key.nPublic !== PUBLIC_SIGNAL_COUNT) {
+          throw new Error('Verification key does not match the PoEP circuit');
+        }
+        return key;
+      })
+      .catch(error => {
+        // Allow a retry on the next call instead of caching the failure
+        verificationKeyPromise = null;
+        throw error;
+      });
+  }
+  return verificationKeyPromise;
+}
+
+/**
+ * Verify a PoEP Groth16 proof and its public signals in-process
+ */
+export async function verifyPoEPProof(
+  proof: unknown,
+  publicSignals: unknown
+): Promise<ProofVerificationResult> {
+  let groth16Proof: Groth16Proof;
+  let signals: string[];
+
+  // Any form the proof codec accepts: snarkjs JSON, calldata or compact
+  try {
+    groth16Proof = normalizeProof(proof);
+  } catch (error) {
+    return { valid: false, reason: `Malformed proof: ${(error as Error).message}` };
+  }
+
+  try {
+    signals = normalizePublicSignals(publicSignals);
+  } catch (error) {
+    return { valid: false, reason: (error as Error).message };
+  }
+
+  const [nullifier, recipient, chainId] = signals;
+
+  const verificationKey = await getVerificationKey();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  let isValid: boolean;
+  try {
+    isValid = await Promise.race([
+      snarkjs.groth16.verify(verificationKey, signals, groth16Proof),
+      new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error('Verification timeout')), VERIFY_TIMEOUT);
+      })
+    ]);
+  } finally {
+    clearTimeout(timer);
+  }
+
+  if (!isValid) {
+    return { valid: false, reason: 'Proof verification failed' };
+  }
+
+  return {
+    valid: true,
+    nullifier,
+    recipient: getAddress('0x' + BigInt(recipient).toString(16).padStart(40, '0')),
+    chainId: Number(chainId)
+  };
+}
+
+/**
+ * Verify a mint proof (usually in contract calldata format) against the signals
+ * PoEP.mintFor will check: [nullifier, recipient, chainId]
+ */
+export async function verifyMintProof(
+  proof: unknown,
+  nullifier: string,
+  recipient: string,
+  chainId: number
+): Promise<ProofVerificationResult> {
+  return verifyPoEPProof(proof, [
+    nullifier,
+    BigInt(recipient).toString(),
+    chainId.toString()
+  ]);
+}
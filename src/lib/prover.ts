@@ -0,0 +1,141 @@
+/**
+ * Isomorphic PoEP prover
+ *
+ * Generates the mint proof with an imported snarkjs, so the same code runs in
+ * the prover worker, on the main thread and in Node (scripts, integration
+ * tests, backend tooling). Where the circuit comes from is pluggable:
+ * - urlArtifactLoader: downloads checked against the hash-pinned manifest (browser)
+ * - fileArtifactLoader: circuits/facehash_js/facehash.wasm and circuits/facehash_final.zkey (Node)
+ * - memoryArtifactLoader: buffers the caller already holds
+ * Every path returns the same ZKProofResult as zkProof.ts.
+ */
+
+import * as snarkjs from 'snarkjs';
+import { loadVerifiedCircuitArtifacts } from './circuitManifest';
+import {
+  buildCircuitInputs,
+  classifyProofError,
+  toZKProofResult,
+  ZK_PROOF_TIMEOUT,
+  type ZKProofResult
+} from './zkProof';
+
+export interface CircuitArtifacts {
+  wasm: Uint8Array;
+  zkey: Uint8Array;
+}
+
+export type CircuitArtifactLoader = () => Promise<CircuitArtifacts>;
+
+export type ProverStage = 'witness' | 'prove';
+
+export interface ProveOptions {
+  // Defaults to fileArtifactLoader() in Node and urlArtifactLoader() elsewhere
+  loader?: CircuitArtifactLoader;
+  onStage?: (stage: ProverStage) => void;
+  timeout?: number;
+}
+
+/**
+ * Load artifacts over HTTP, rejected unless they match circuit-manifest.json
+ */
+export function urlArtifactLoader(baseUrl = ''): CircuitArtifactLoader {
+  return async () => {
+    const { wasm, zkey } = await loadVerifiedCircuitArtifacts(baseUrl);
+    return { wasm, zkey };
+  };
+}
+
+/**
+ * Load artifacts from the circuit build output on disk (Node only)
+ */
+export function fileArtifactLoader(circuitsDir?: string): CircuitArtifactLoader {
+  let artifactsPromise: Promise<CircuitArtifacts> | null = null;
+
+  return () => {
+    if (!artifactsPromise) {
+      artifactsPromise = (async () => {
+        // Kept out of browser bundles - this loader only ever runs in Node
+        const [{ readFile }, path] = await Promise.all([
+          import(/* webpackIgnore: true */ 'fs/promises'),
+          import(/* webpackIgnore: true */ 'path')
+        ]);
+        const dir = circuitsDir || path.join(process.cwd(), 'circuits');
+
+        const [wasm, zkey] = await Promise.all([
+          readFile(path.join(dir, 'facehash_js', 'facehash.wasm')),
+          readFile(path.join(dir, 'facehash_final.zkey'))
+        ]);
+
+        return { wasm: new Uint8Array(wasm), zkey: new Uint8Array(zkey) };
+      })().catch(error => {
+        // Allow a retry on the next call instead of caching the failure
+        artifactsPromise = null;
+        throw error;
+      });
+    }
+    return artifactsPromise;
+  };
+}
+
+/**
+ * Use artifacts already in memory
+ */
+export function memoryArtifactLoader(artifacts: CircuitArtifacts): CircuitArtifactLoader {
+  return async () => artifacts;
+}
+
+function isNode(): boolean {
+  return typeof window === 'undefined' && typeof self === 'undefined' &&
+    typeof process !== 'undefined' && Boolean(process.versions?.node);
+}
+
+/**
+ * Pick the artifact loader for the current environment
+ */
+export function defaultArtifactLoader(): CircuitArtifactLoader {
+  return isNode() ? fileArtifactLoader() : urlArtifactLoader();
+}
+
+/**
+ * Generate a PoEP mint proof for a face secret, bound to recipient and chain
+ */
+export async function proveFaceSecret(
+  faceSecret: string,
+  recipient: string,
+  chainId: number,
+  options: ProveOptions = {}
+): Promise<ZKProofResult> {
+  const inputs = buildCircuitInputs(faceSecret, recipient, chainId);
+  const loader = options.loader || defaultArtifactLoader();
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  try {
+    const { wasm, zkey } = await loader();
+
+    // The timeout covers the circuit work, not the artifact download
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(
+        () => reject(new Error('ZK proof generation timed out')),
+        options.timeout ?? ZK_PROOF_TIMEOUT
+      );
+    });
+
+    const proving = (async () => {
+      options.onStage?.('witness');
+      const witness: { type: 'mem'; data?: Uint8Array } = { type: 'mem' };
+      await snarkjs.wtns.calculate({ ...inputs } as Record<string, string>, wasm, witness);
+
+      options.onStage?.('prove');
+      return await snarkjs.groth16.prove(zkey, witness.data!);
+    })();
+
+    const result = await Promise.race([proving, timeoutPromise]);
+    return toZKProofResult(result, inputs);
+  } catch (error) {
+    throw classifyProofError(error);
+  } finally {
+    clearTimeout(timer);
+  }
+}
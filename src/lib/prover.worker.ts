@@ -0,0 +1,71 @@
+/**
+ * PoEP Prover Web Worker
+ *
+ * Runs the whole proving pipeline off the main thread so the camera UI stays
+ * responsive: decode frames, extract embeddings and the stable face secret
+ * (reproduced from a saved helper when one matches the face),
+ * compute the witness, then the Groth16 proof. Each stage is reported to the
+ * page as it starts. Cancellation is done by the page terminating the worker
+ * (see proverClient.ts), which stops snarkjs mid-proof.
+ */
+
+import { extractStableSecret } from './fuzzyExtractor';
+import { proveFaceSecret, urlArtifactLoader } from './prover';
+import { decodeFaceImage, extractFeaturesFromPixels } from './zkProof';
+import type { ProverRequest, ProverResponse, ProvingStage } from './proverClient';
+
+function post(message: ProverResponse) {
+  self.postMessage(message);
+}
+
+function reportStage(stage: ProvingStage, completed = 0, total = 1) {
+  post({ type: 'progress', stage, completed, total });
+}
+
+async function prove({ frames, recipient, chainId, helpers }: ProverRequest) {
+  if (!Array.isArray(frames) || frames.length === 0) {
+    throw new Error('No face captures provided');
+  }
+
+  // Start the hash-checked artifact download while the frames are analysed.
+  // The loader caches it, so proveFaceSecret picks up the same download.
+  const loader = urlArtifactLoader();
+  loader().catch(() => undefined);
+
+  // Stage 1: decode every frame to pixels. A frame that cannot be decoded
+  // fails the proof - hashing its bytes instead would not be biometric.
+  const pixels: Uint8ClampedArray[] = [];
+  for (let i = 0; i < frames.length; i++) {
+    reportStage('decode', i, frames.length);
+    try {
+      pixels.push(await decodeFaceImage(frames[i]));
+    } catch {
+      throw new Error('Biometric analysis failed - please ensure image quality and try again');
+    }
+  }
+
+  // Stage 2: embeddings and the stable face secret
+  const embeddings: number[][] = [];
+  for (let i = 0; i < frames.length; i++) {
+    reportStage('features', i, frames.length);
+    const features = await extractFeaturesFromPixels(pixels[i]);
+    embeddings.push(features.embedding);
+  }
+
+  const { secret, helper } = extractStableSecret(embeddings, helpers ?? []);
+
+  // Stages 3-4: witness and Groth16 proof
+  const result = await proveFaceSecret(secret, recipient, chainId, { loader, onStage: stage => reportStage(stage) });
+  return { ...result, faceHelper: helper };
+}
+
+self.onmessage = async (event: MessageEvent<ProverRequest>) => {
+  if (event.data?.type !== 'prove') return;
+
+  try {
+    const result = await prove(event.data);
+    post({ type: 'result', result });
+  } catch (error) {
+    post({ type: 'error', message: (error as Error).message || 'ZK proof generation failed' });
+  }
+};
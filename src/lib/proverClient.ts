@@ -0,0 +1,150 @@
+/**
+ * Client for the off-main-thread PoEP prover
+ *
+ * Starts prover.worker.ts for a burst of captures and exposes its stage
+ * progress. cancel() terminates the worker, so an abandoned proof stops using
+ * CPU immediately instead of running to completion in the background.
+ */
+
+import { generateFaceSecret, generateZKProof, ZK_PROOF_TIMEOUT, type ZKProofResult } from './zkProof';
+
+export type ProvingStage = 'decode' | 'features' | 'witness' | 'prove';
+
+export const PROVING_STAGES: ProvingStage[] = ['decode', 'features', 'witness', 'prove'];
+
+export interface ProvingProgress {
+  stage: ProvingStage;
+  // Frames processed so far for the per-frame stages
+  completed: number;
+  total: number;
+}
+
+export interface ProverRequest {
+  type: 'prove';
+  frames: string[];
+  recipient: string;
+  chainId: number;
+  // Fuzzy extractor helpers saved on this device (see faceHelperStore.ts)
+  helpers: string[];
+}
+
+export type ProverResponse =
+  | ({ type: 'progress' } & ProvingProgress)
+  | { type: 'result'; result: ZKProofResult }
+  | { type: 'error'; message: string };
+
+export interface ProvingJob {
+  promise: Promise<ZKProofResult>;
+  cancel: () => void;
+}
+
+export class ProvingCancelledError extends Error {
+  constructor() {
+    super('Proof generation was cancelled');
+    this.name = 'ProvingCancelledError';
+  }
+}
+
+/**
+ * Generate a mint proof for a capture burst in a Web Worker. The result's
+ * faceHelper should be saved once the mint confirms.
+ */
+export function startProving(
+  frames: string[],
+  recipient: string,
+  chainId: number,
+  onProgress?: (progress: ProvingProgress) => void,
+  helpers: string[] = []
+): ProvingJob {
+  if (typeof Worker === 'undefined') {
+    return startMainThreadProving(frames, recipient, chainId, onProgress, helpers);
+  }
+
+  const worker = new Worker(new URL('./prover.worker.ts', import.meta.url));
+  let settled = false;
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+  let rejectJob: (error: Error) => void = () => undefined;
+
+  const finish = () => {
+    settled = true;
+    if (timeout) clearTimeout(timeout);
+    worker.terminate();
+  };
+
+  const promise = new Promise<ZKProofResult>((resolve, reject) => {
+    rejectJob = reject;
+
+    worker.onmessage = (event: MessageEvent<ProverResponse>) => {
+      if (settled) return;
+      const message = event.data;
+
+      if (message.type === 'progress') {
+        // The proving budget covers the circuit work, not image analysis
+        if (message.stage === 'witness' && !timeout) {
+          timeout = setTimeout(() => {
+            finish();
+            reject(new Error('ZK proof generation timed out'));
+          }, ZK_PROOF_TIMEOUT);
+        }
+        onProgress?.({ stage: message.stage, completed: message.completed, total: message.total });
+      } else if (message.type === 'result') {
+        finish();
+        resolve(message.result);
+      } else {
+        finish();
+        reject(new Error(message.message));
+      }
+    };
+
+    worker.onerror = (event: ErrorEvent) => {
+      if (settled) return;
+      finish();
+      reject(new Error(event.message || 'ZK proof worker failed'));
+    };
+  });
+
+  const request: ProverRequest = { type: 'prove', frames, recipient, chainId, helpers };
+  worker.postMessage(request);
+
+  return {
+    promise,
+    cancel: () => {
+      if (settled) return;
+      finish();
+      rejectJob(new ProvingCancelledError());
+    }
+  };
+}
+
+/**
+ * Fallback for environments without Web Workers. Progress is coarse and
+ * cancel() only discards the result - the proof itself cannot be interrupted.
+ */
+function startMainThreadProving(
+  frames: string[],
+  recipient: string,
+  chainId: number,
+  onProgress: ((progress: ProvingProgress) => void) | undefined,
+  helpers: string[]
+): ProvingJob {
+  let cancelled = false;
+
+  const promise = (async () => {
+    onProgress?.({ stage: 'features', completed: 0, total: frames.length });
+    const { secret, helper } = await generateFaceSecret(frames, helpers);
+    if (cancelled) throw new ProvingCancelledError();
+
+    onProgress?.({ stage: 'prove', completed: 0, total: 1 });
+    const result = await generateZKProof(secret, recipient, chainId);
+    if (cancelled) throw new ProvingCancelledError();
+
+    return { ...result, faceHelper: helper };
+  })();
+
+  return {
+    promise,
+    cancel: () => {
+      cancelled = true;
+    }
+  };
+}
@@ -0,0 +1,356 @@
+/**
+ * Gasless mint relayer
+ *
+ * Drives mint jobs from relayerQueue.ts through submission and confirmation
+ * one step per request, without blocking on tx.wait(), so every step fits in
+ * Vercel's function time limit. Transactions still pending after
+ * STUCK_AFTER_MS are replaced at the same nonce with bumped fees.
+ */
+
+import { ethers } from 'ethers';
+import { POEP_CONTRACT_ABI } from './constants';
+import { publishFaceHelper } from './faceHelperRegistry';
+import { findMintRevert } from './mintErrors';
+import { NETWORK } from './networks';
+import { invalidatePassports } from './passportCache';
+import {
+  acquireJobLock,
+  allocateRelayerNonce,
+  getMintJob,
+  releaseJobLock,
+  releaseRelayerNonce,
+  saveMintJob,
+  type MintJob
+} from './relayerQueue';
+
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep;
+const PRIVATE_KEY = process.env.PRIVATE_KEY;
+const RPC_URL = NETWORK.rpcUrls[0];
+
+const RPC_TIMEOUT = 8000;
+const STUCK_AFTER_MS = 45000;
+const FEE_BUMP_PERCENT = 25n; // Nodes require at least 10% to accept a replacement
+const MAX_FEE_BUMPS = 3;
+const GAS_LIMIT_BUFFER_PERCENT = 125n;
+const FALLBACK_PRIORITY_FEE = ethers.parseUnits('0.01', 'gwei');
+// Longer than the slowest advanceMintJob run, so the lock never expires under
+// its holder: a receipt lookup per attempt, then up to four more RPC calls,
+// each bounded by RPC_TIMEOUT
+const JOB_LOCK_TTL_MS = (MAX_FEE_BUMPS + 1 + 4) * RPC_TIMEOUT + 30000;
+
+// HTTP status for each terminal or retryable error code
+const MINT_ERROR_STATUS: Record<string, number> = {
+  ALREADY_MINTED: 409,
+  NULLIFIER_USED: 409,
+  INTENT_EXPIRED: 400,
+  INVALID_SIGNATURE: 401,
+  INVALID_PROOF: 400,
+  CONTRACT_PAUSED: 503,
+  CONTRACT_REVERT: 400,
+  SIMULATION_FAILED: 400,
+  INSUFFICIENT_FUNDS: 503,
+  NETWORK_ERROR: 503,
+  TIMEOUT: 408,
+  REPLACED: 409
+};
+
+export interface MintErrorInfo {
+  code: string;
+  message: string;
+  retryable: boolean;
+}
+
+interface Relayer {
+  provider: ethers.JsonRpcProvider;
+  wallet: ethers.Wallet;
+  contract: ethers.Contract;
+}
+
+let relayer: Relayer | null = null;
+
+/**
+ * Lazily create the relayer wallet and contract binding
+ */
+export function getRelayer(): Relayer {
+  if (!POEP_CONTRACT_ADDRESS || !PRIVATE_KEY) {
+    throw new Error('Relayer configuration missing');
+  }
+
+  if (!relayer) {
+    const provider = new ethers.JsonRpcProvider(RPC_URL, undefined, {
+      staticNetwork: true // Performance optimization
+    });
+    const wallet = new ethers.Wallet(PRIVATE_KEY, provider);
+    const contract = new ethers.Contract(POEP_CONTRACT_ADDRESS, POEP_CONTRACT_ABI, wallet);
+    relayer = { provider, wallet, contract };
+  }
+
+  return relayer;
+}
+
+/**
+ * Chain id the relayer submits to - proofs must be bound to it
+ */
+export async function getRelayerChainId(): Promise<number> {
+  const network = await withTimeout(getRelayer().provider.getNetwork(), 'Network detection timeout');
+  return Number(network.chainId);
+}
+
+function withTimeout<T>(promise: Promise<T>, message: string): Promise<T> {
+  return Promise.race([
+    promise,
+    new Promise<never>((_, reject) =>
+      setTimeout(() => reject(new Error(message)), RPC_TIMEOUT)
+    )
+  ]);
+}
+
+/**
+ * Map a relayer or contract error to a stable error code
+ */
+export function classifyMintError(error: any): MintErrorInfo {
+  const reason: string = error?.reason || error?.shortMessage || error?.message || '';
+
+  // ethers decodes custom errors such as EnforcedPause into error.revert
+  const revert = findMintRevert(error?.revert?.name) || findMintRevert(reason);
+  if (revert) {
+    return { code: revert.code, message: revert.message, retryable: revert.retryable };
+  }
+  if (error?.code === 'CALL_EXCEPTION' || reason.includes('execution reverted')) {
+    return { code: 'CONTRACT_REVERT', message: 'Smart contract rejected the transaction', retryable: false };
+  }
+  if (error?.code === 'INSUFFICIENT_FUNDS' || reason.includes('insufficient funds')) {
+    return { code: 'INSUFFICIENT_FUNDS', message: 'Relayer is temporarily out of funds', retryable: true };
+  }
+  if (reason.toLowerCase().includes('timeout')) {
+    return { code: 'TIMEOUT', message: 'Network congestion - please try again', retryable: true };
+  }
+  return { code: 'NETWORK_ERROR', message: 'Blockchain service temporarily unavailable', retryable: true };
+}
+
+export function getMintErrorStatus(code: string | null): number {
+  return (code && MINT_ERROR_STATUS[code]) || 500;
+}
+
+/**
+ * Public view of a job, safe to return to clients
+ */
+export function serializeMintJob(job: MintJob) {
+  return {
+    jobId: job.id,
+    status: job.status,
+    recipient: job.request.recipient,
+    transactionHash: job.txHash,
+    blockNumber: job.blockNumber,
+    trustScore: job.trustScore,
+    replacements: Math.max(job.attempts.length - 1, 0),
+    error: job.error,
+    code: job.errorCode,
+    statusUrl: `/api/mint-poep/${job.id}`,
+    createdAt: new Date(job.createdAt).toISOString(),
+    updatedAt: new Date(job.updatedAt).toISOString()
+  };
+}
+
+function bumpFee(value: bigint): bigint {
+  return value * (100n + FEE_BUMP_PERCENT) / 100n + 1n;
+}
+
+function maxBigInt(a: bigint, b: bigint): bigint {
+  return a > b ? a : b;
+}
+
+async function getFees(previous?: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }) {
+  const { provider } = getRelayer();
+  const feeData = await withTimeout(provider.getFeeData(), 'Fee data timeout');
+
+  let maxPriorityFeePerGas = feeData.maxPriorityFeePerGas ?? FALLBACK_PRIORITY_FEE;
+  let maxFeePerGas = feeData.maxFeePerGas ?? (feeData.gasPrice ?? 0n) + maxPriorityFeePerGas;
+
+  // A replacement must beat the previous attempt, even if the network got cheaper
+  if (previous) {
+    maxPriorityFeePerGas = maxBigInt(maxPriorityFeePerGas, bumpFee(previous.maxPriorityFeePerGas));
+    maxFeePerGas = maxBigInt(maxFeePerGas, bumpFee(previous.maxFeePerGas));
+  }
+
+  if (maxFeePerGas < maxPriorityFeePerGas) {
+    maxFeePerGas = maxPriorityFeePerGas;
+  }
+
+  return { maxFeePerGas, maxPriorityFeePerGas };
+}
+
+async function sendMintTransaction(
+  job: MintJob,
+  fees: { maxFeePerGas: bigint; maxPriorityFeePerGas: bigint }
+): Promise<string> {
+  const { contract } = getRelayer();
+  const { recipient, pA, pB, pC, nullifier, deadline, signature } = job.request;
+
+  const tx = await withTimeout<ethers.ContractTransactionResponse>(
+    contract.mintFor(recipient, pA, pB, pC, BigInt(nullifier), BigInt(deadline), signature, {
+      nonce: job.nonce,
+      gasLimit: BigInt(job.gasLimit!),
+      maxFeePerGas: fees.maxFeePerGas,
+      maxPriorityFeePerGas: fees.maxPriorityFeePerGas
+    }),
+    'Transaction submission timeout'
+  );
+
+  job.attempts.push({
+    txHash: tx.hash,
+    maxFeePerGas: fees.maxFeePerGas.toString(),
+    maxPriorityFeePerGas: fees.maxPriorityFeePerGas.toString(),
+    submittedAt: Date.now()
+  });
+  job.txHash = tx.hash;
+  return tx.hash;
+}
+
+function failJob(job: MintJob, info: MintErrorInfo): void {
+  job.status = info.retryable ? 'queued' : 'failed';
+  job.error = info.message;
+  job.errorCode = info.code;
+}
+
+/**
+ * Simulate, allocate a nonce and broadcast the first transaction for a job
+ */
+async function submitMintJob(job: MintJob): Promise<void> {
+  const { wallet, contract, provider } = getRelayer();
+  const { recipient, pA, pB, pC, nullifier, deadline, signature } = job.request;
+
+  // Simulation surfaces contract reverts before a nonce is consumed
+  let gasEstimate: bigint;
+  try {
+    gasEstimate = await withTimeout<bigint>(
+      contract.mintFor.estimateGas(recipient, pA, pB, pC, BigInt(nullifier), BigInt(deadline), signature),
+      'Gas estimation timeout'
+    );
+  } catch (error: any) {
+    const info = classifyMintError(error);
+    failJob(job, info.code === 'NETWORK_ERROR' ? { ...info, code: 'SIMULATION_FAILED', retryable: true } : info);
+    return;
+  }
+
+  job.gasLimit = (gasEstimate * GAS_LIMIT_BUFFER_PERCENT / 100n).toString();
+
+  const relayerAddress = await wallet.getAddress();
+  const chainNonce = await withTimeout(provider.getTransactionCount(relayerAddress, 'pending'), 'Nonce lookup timeout');
+  job.nonce = await allocateRelayerNonce(relayerAddress, chainNonce);
+
+  try {
+    await sendMintTransaction(job, await getFees());
+    job.status = 'submitted';
+    job.error = null;
+    job.errorCode = null;
+  } catch (error: any) {
+    // Nothing was broadcast, so hand the nonce back to avoid a gap
+    await releaseRelayerNonce(relayerAddress, job.nonce);
+    job.nonce = null;
+    failJob(job, classifyMintError(error));
+  }
+}
+
+/**
+ * Check a submitted job for a receipt and replace it with bumped fees if stuck
+ */
+async function checkSubmittedJob(job: MintJob): Promise<void> {
+  const { wallet, contract, provider } = getRelayer();
+
+  // Any of the attempts may be the one that was mined
+  for (const attempt of job.attempts) {
+    const receipt = await withTimeout(provider.getTransactionReceipt(attempt.txHash), 'Receipt lookup timeout');
+    if (!receipt) continue;
+
+    job.txHash = receipt.hash;
+    job.blockNumber = receipt.blockNumber;
+
+    if (receipt.status === 1) {
+      job.status = 'confirmed';
+      job.error = null;
+      job.errorCode = null;
+      await invalidatePassports([job.request.recipient]);
+      if (job.faceHelper) {
+        try {
+          await publishFaceHelper(job.request.recipient, job.faceHelper);
+        } catch (error: any) {
+          // The mint stands; only its face helper stays on the minting device
+          console.warn('[RELAYER] Face helper publish failed:', error.message);
+        }
+      }
+      try {
+        const score = await withTimeout<bigint>(contract.viewTrustScore(job.request.recipient), 'Trust score fetch timeout');
+        job.trustScore = score.toString();
+      } catch {
+        // Score is informational - the mint itself succeeded
+      }
+    } else {
+      failJob(job, { code: 'CONTRACT_REVERT', message: 'Transaction failed on-chain', retryable: false });
+    }
+    return;
+  }
+
+  const relayerAddress = await wallet.getAddress();
+  const minedNonce = await withTimeout(provider.getTransactionCount(relayerAddress, 'latest'), 'Nonce lookup timeout');
+  const lastAttempt = job.attempts[job.attempts.length - 1];
+
+  if (minedNonce > job.nonce!) {
+    // The nonce was used but none of our receipts are visible yet; if this
+    // persists, the nonce was taken by a transaction outside this queue
+    if (Date.now() - lastAttempt.submittedAt > STUCK_AFTER_MS * 2) {
+      failJob(job, { code: 'REPLACED', message: 'Relayer transaction was replaced', retryable: false });
+    }
+    return;
+  }
+
+  if (Date.now() - lastAttempt.submittedAt < STUCK_AFTER_MS || job.attempts.length > MAX_FEE_BUMPS) {
+    return;
+  }
+
+  try {
+    const fees = await getFees({
+      maxFeePerGas: BigInt(lastAttempt.maxFeePerGas),
+      maxPriorityFeePerGas: BigInt(lastAttempt.maxPriorityFeePerGas)
+    });
+    await sendMintTransaction(job, fees);
+  } catch (error: any) {
+    // NONCE_EXPIRED means an earlier attempt was just mined - pick it up next poll
+    if (error?.code !== 'NONCE_EXPIRED' && error?.code !== 'REPLACEMENT_UNDERPRICED') {
+      job.error = classifyMintError(error).message;
+    }
+  }
+}
+
+/**
+ * Move a job one step forward: submit queued jobs and check or fee-bump
+ * submitted ones. Returns the latest job state.
+ */
+export async function advanceMintJob(jobId: string): Promise<MintJob | null> {
+  const job = await getMintJob(jobId);
+  if (!job || job.status === 'confirmed' || job.status === 'failed') {
+    return job;
+  }
+
+  // Another request is already working on this job
+  const lockToken = await acquireJobLock(jobId, JOB_LOCK_TTL_MS);
+  if (!lockToken) {
+    return job;
+  }
+
+  try {
+    if (job.status === 'queued') {
+      await submitMintJob(job);
+    } else {
+      await checkSubmittedJob(job);
+    }
+  } catch (error: any) {
+    // Transient RPC failures leave the job as-is for the next poll
+    job.error = classifyMintError(error).message;
+  } finally {
+    await saveMintJob(job);
+    await releaseJobLock(jobId, lockToken);
+  }
+
+  return getMintJob(jobId);
+}
@@ -0,0 +1,350 @@
+/**
+ * Persistent mint job queue for the gasless relayer
+ *
+ * Mint requests are stored as jobs so /api/mint-poep can return immediately
+ * and clients poll /api/mint-poep/[jobId] for progress. Jobs, idempotency keys,
+ * the relayer nonce counter and per-job locks live in Redis (Upstash, as in
+ * kv.ts) with an in-memory fallback for local runs.
+ */
+
+import { Redis } from '@upstash/redis';
+import { createHash, randomUUID } from 'crypto';
+import { APP_NAME } from './constants';
+
+export type MintJobStatus = 'queued' | 'submitted' | 'confirmed' | 'failed';
+
+export interface MintJobRequest {
+  recipient: string;
+  pA: string[];
+  pB: string[][];
+  pC: string[];
+  nullifier: string;
+  deadline: string;
+  signature: string;
+}
+
+export interface MintJobAttempt {
+  txHash: string;
+  maxFeePerGas: string;
+  maxPriorityFeePerGas: string;
+  submittedAt: number;
+}
+
+export interface MintJob {
+  id: string;
+  status: MintJobStatus;
+  request: MintJobRequest;
+  requestHash: string;
+  // Fuzzy extractor helper of the proof, published once the mint confirms
+  faceHelper: string | null;
+  idempotencyKey: string;
+  nonce: number | null;
+  gasLimit: string | null;
+  attempts: MintJobAttempt[];
+  txHash: string | null;
+  blockNumber: number | null;
+  trustScore: string | null;
+  error: string | null;
+  errorCode: string | null;
+  createdAt: number;
+  updatedAt: number;
+}
+
+// Jobs are kept for a week so clients can look up old mints
+const JOB_TTL_SECONDS = 7 * 24 * 60 * 60;
+
+// In-memory fallback storage. Kept on globalThis because next dev bundles each
+// route separately, and the submit and status routes must see the same jobs.
+interface LocalQueue {
+  jobs: Map<string, MintJob>;
+  idempotency: Map<string, string>;
+  nonces: Map<string, number>;
+  releasedNonces: Map<string, number[]>;
+  locks: Map<string, string>;
+}
+
+const globalQueue = globalThis as typeof globalThis & { poepRelayerQueue?: LocalQueue };
+globalQueue.poepRelayerQueue ??= {
+  jobs: new Map(),
+  idempotency: new Map(),
+  nonces: new Map(),
+  releasedNonces: new Map(),
+  locks: new Map()
+};
+
+const localJobs = globalQueue.poepRelayerQueue.jobs;
+const localIdempotency = globalQueue.poepRelayerQueue.idempotency;
+const localNonces = globalQueue.poepRelayerQueue.nonces;
+const localReleasedNonces = globalQueue.poepRelayerQueue.releasedNonces;
+const localLocks = globalQueue.poepRelayerQueue.locks;
+
+// Use Redis if KV env vars are present, otherwise use in-memory
+const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
+const redis = useRedis
+  ? new Redis({
+      url: process.env.KV_REST_API_URL!,
+      token: process.env.KV_REST_API_TOKEN!,
+    })
+  : null;
+
+// Reuse the lowest released nonce the chain has not passed, otherwise resync
+// to max(stored, chain pending) and take the next one, all in one step so
+// concurrent allocations never read the same counter
+const ALLOCATE_NONCE_SCRIPT = `
+local pending = tonumber(ARGV[1])
+redis.call('ZREMRANGEBYSCORE', KEYS[2], '-inf', '(' .. pending)
+local released = redis.call('ZRANGE', KEYS[2], 0, 0)
+if released[1] then
+  redis.call('ZREM', KEYS[2], released[1])
+  return tonumber(released[1])
+end
+local stored = tonumber(redis.call('GET', KEYS[1]))
+local nonce = pending
+if stored and stored > pending then
+  nonce = stored
+end
+redis.call('SET', KEYS[1], nonce + 1)
+return nonce
+`;
+
+// Roll the counter back only if the released nonce is still the last one
+// handed out; otherwise a later job holds a higher nonce, so the released one
+// is kept for the next allocation to fill the gap
+const RELEASE_NONCE_SCRIPT = `
+local nonce = tonumber(ARGV[1])
+if tonumber(redis.call('GET', KEYS[1])) == nonce + 1 then
+  redis.call('SET', KEYS[1], nonce)
+  return 1
+end
+redis.call('ZADD', KEYS[2], nonce, ARGV[1])
+return 0
+`;
+
+// Delete the lock only while it still holds this holder's token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call('GET', KEYS[1]) == ARGV[1] then
+  return redis.call('DEL', KEYS[1])
+end
+return 0
+`;
+
+function getJobKey(jobId: string): string {
+  return `${APP_NAME}:mint-job:${jobId}`;
+}
+
+function getIdempotencyKey(key: string): string {
+  return `${APP_NAME}:mint-idempotency:${key}`;
+}
+
+function getNonceKey(relayerAddress: string): string {
+  return `${APP_NAME}:relayer-nonce:${relayerAddress.toLowerCase()}`;
+}
+
+function getReleasedNoncesKey(relayerAddress: string): string {
+  return `${APP_NAME}:relayer-released-nonces:${relayerAddress.toLowerCase()}`;
+}
+
+function getLockKey(jobId: string): string {
+  return `${APP_NAME}:mint-job-lock:${jobId}`;
+}
+
+/**
+ * Stable hash of a mint request, used to detect idempotency key reuse
+ * with a different payload
+ */
+export function hashMintRequest(request: MintJobRequest): string {
+  return createHash('sha256').update(JSON.stringify([
+    request.recipient.toLowerCase(),
+    request.pA,
+    request.pB,
+    request.pC,
+    request.nullifier,
+    request.deadline,
+    request.signature.toLowerCase()
+  ])).digest('hex');
+}
+
+export async function getMintJob(jobId: string): Promise<MintJob | null> {
+  const key = getJobKey(jobId);
+  if (redis) {
+    return await redis.get<MintJob>(key);
+  }
+  return localJobs.get(key) || null;
+}
+
+export async function saveMintJob(job: MintJob): Promise<void> {
+  const key = getJobKey(job.id);
+  const updated = { ...job, updatedAt: Date.now() };
+  if (redis) {
+    await redis.set(key, updated, { ex: JOB_TTL_SECONDS });
+  } else {
+    localJobs.set(key, updated);
+  }
+}
+
+async function claimIdempotencyKey(key: string, jobId: string): Promise<boolean> {
+  if (redis) {
+    return (await redis.set(key, jobId, { nx: true, ex: JOB_TTL_SECONDS })) === 'OK';
+  }
+
+  if (localIdempotency.has(key)) {
+    return false;
+  }
+  localIdempotency.set(key, jobId);
+  return true;
+}
+
+/**
+ * The job registered under an idempotency key, or null if there is none or
+ * it failed (failed jobs do not hold their key)
+ */
+export async function findMintJob(idempotencyKey: string): Promise<MintJob | null> {
+  const key = getIdempotencyKey(idempotencyKey);
+  const jobId = redis ? await redis.get<string>(key) : localIdempotency.get(key);
+  const job = jobId ? await getMintJob(jobId) : null;
+  return job && job.status !== 'failed' ? job : null;
+}
+
+/**
+ * Create a job for the request, or return the job already registered under
+ * the same idempotency key. Failed jobs do not hold their key, so a client can
+ * retry with a fresh signature.
+ */
+export async function enqueueMintJob(
+  idempotencyKey: string,
+  request: MintJobRequest,
+  faceHelper: string | null = null
+): Promise<{ job: MintJob; created: boolean }> {
+  const requestHash = hashMintRequest(request);
+  const now = Date.now();
+  const job: MintJob = {
+    id: randomUUID(),
+    status: 'queued',
+    request,
+    requestHash,
+    faceHelper,
+    idempotencyKey,
+    nonce: null,
+    gasLimit: null,
+    attempts: [],
+    txHash: null,
+    blockNumber: null,
+    trustScore: null,
+    error: null,
+    errorCode: null,
+    createdAt: now,
+    updatedAt: now
+  };
+
+  const key = getIdempotencyKey(idempotencyKey);
+
+  for (let i = 0; i < 2; i++) {
+    if (await claimIdempotencyKey(key, job.id)) {
+      await saveMintJob(job);
+      return { job, created: true };
+    }
+
+    const existing = await findMintJob(idempotencyKey);
+    if (existing) {
+      return { job: existing, created: false };
+    }
+
+    // Stale or failed job - release the key and claim it again
+    if (redis) {
+      await redis.del(key);
+    } else {
+      localIdempotency.delete(key);
+    }
+  }
+
+  throw new Error('Failed to claim idempotency key');
+}
+
+/**
+ * Allocate the next relayer nonce. A released nonce the chain has not used
+ * yet comes first, so gaps are filled. Otherwise the stored counter is
+ * resynced to the chain's pending count whenever the chain is ahead of it,
+ * e.g. after the relayer wallet was used elsewhere. Atomic across instances.
+ */
+export async function allocateRelayerNonce(
+  relayerAddress: string,
+  chainPendingNonce: number
+): Promise<number> {
+  const key = getNonceKey(relayerAddress);
+  const releasedKey = getReleasedNoncesKey(relayerAddress);
+
+  if (redis) {
+    const nonce = await redis.eval<[number], number>(ALLOCATE_NONCE_SCRIPT, [key, releasedKey], [chainPendingNonce]);
+    return Number(nonce);
+  }
+
+  const released = (localReleasedNonces.get(releasedKey) || []).filter(nonce => nonce >= chainPendingNonce);
+  if (released.length > 0) {
+    const lowest = Math.min(...released);
+    localReleasedNonces.set(releasedKey, released.filter(nonce => nonce !== lowest));
+    return lowest;
+  }
+  localReleasedNonces.delete(releasedKey);
+
+  const stored = localNonces.get(key);
+  const next = stored === undefined || stored < chainPendingNonce ? chainPendingNonce : stored;
+  localNonces.set(key, next + 1);
+  return next;
+}
+
+/**
+ * Hand back a nonce whose transaction was never broadcast. Concurrent jobs
+ * may already hold higher nonces, so the counter is only rolled back if this
+ * was the last nonce allocated; otherwise the nonce fills the next
+ * allocation. Atomic across instances.
+ */
+export async function releaseRelayerNonce(relayerAddress: string, nonce: number): Promise<void> {
+  const key = getNonceKey(relayerAddress);
+  const releasedKey = getReleasedNoncesKey(relayerAddress);
+
+  if (redis) {
+    await redis.eval<[number], number>(RELEASE_NONCE_SCRIPT, [key, releasedKey], [nonce]);
+    return;
+  }
+
+  if (localNonces.get(key) === nonce + 1) {
+    localNonces.set(key, nonce);
+  } else {
+    localReleasedNonces.set(releasedKey, [...(localReleasedNonces.get(releasedKey) || []), nonce]);
+  }
+}
+
+/**
+ * Lock so concurrent status polls do not submit or fee-bump the same job
+ * twice. Returns the holder's token for releaseJobLock, or null if the job is
+ * locked. The lock expires after ttlMs in case the holder dies, so ttlMs must
+ * outlast the holder's longest run.
+ */
+export async function acquireJobLock(jobId: string, ttlMs: number): Promise<string | null> {
+  const key = getLockKey(jobId);
+  const token = randomUUID();
+
+  if (redis) {
+    return (await redis.set(key, token, { nx: true, px: ttlMs })) === 'OK' ? token : null;
+  }
+
+  const held = localLocks.get(key);
+  if (held && Number(held.split(':')[0]) > Date.now()) {
+    return null;
+  }
+  localLocks.set(key, `${Date.now() + ttlMs}:${token}`);
+  return token;
+}
+
+/**
+ * Release a lock taken with acquireJobLock. A lock that expired and was taken
+ * by another holder is left alone.
+ */
+export async function releaseJobLock(jobId: string, token: string): Promise<void> {
+  const key = getLockKey(jobId);
+  if (redis) {
+    await redis.eval<[string], number>(RELEASE_LOCK_SCRIPT, [key], [token]);
+  } else if (localLocks.get(key)?.endsWith(`:${token}`)) {
+    localLocks.delete(key);
+  }
+}
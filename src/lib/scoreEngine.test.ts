@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  computeScore,
+  createScoreWeights,
+  DEFAULT_SCORE_WEIGHTS,
+  type HolderSignals,
+  type ScoreSignalId
+} from './scoreEngine';
+import { SCORE_MAX, SCORE_MIN } from './tierPolicy';
+
+const NO_SIGNALS: Record<ScoreSignalId, number | null> = {
+  walletAge: 0,
+  transactionCount: 0,
+  farcasterAccount: 0,
+  farcasterFollowers: 0,
+  farcasterReputation: 0,
+  passportAge: 0
+};
+
+function holder(currentScore: number, values: Partial<Record<ScoreSignalId, number | null>> = {}): HolderSignals {
+  return {
+    address: '0x000000000000000000000000000000000000dead',
+    currentScore,
+    values: { ...NO_SIGNALS, ...values }
+  };
+}
+
+test('the default weights span the contract scale', () => {
+  const total = Object.values(DEFAULT_SCORE_WEIGHTS).reduce((sum, weight) => sum + weight.maxPoints, 0);
+  assert.equal(SCORE_MIN + total, SCORE_MAX);
+});
+
+test('signals score linearly up to fullAt and the delta moves to the target', () => {
+  // Half of walletAge and transactionCount, all of farcasterAccount
+  const breakdown = computeScore(holder(SCORE_MIN, { walletAge: 365, transactionCount: 250, farcasterAccount: 1 }));
+  assert.equal(breakdown.targetScore, SCORE_MIN + 125 + 125 + 50);
+  assert.equal(breakdown.delta, 300);
+  assert.equal(breakdown.status, 'update');
+
+  const points = Object.fromEntries(breakdown.signals.map(signal => [signal.id, signal.points]));
+  assert.deepEqual(points, {
+    walletAge: 125,
+    transactionCount: 125,
+    farcasterAccount: 50,
+    farcasterFollowers: 0,
+    farcasterReputation: 0,
+    passportAge: 0
+  });
+});
+
+test('scores can go down', () => {
+  const breakdown = computeScore(holder(200, { walletAge: 730 }));
+  assert.equal(breakdown.targetScore, SCORE_MIN + 250);
+  assert.equal(breakdown.delta, 51);
+
+  const lower = computeScore(holder(400, { walletAge: 730 }));
+  assert.equal(lower.delta, -149);
+  assert.equal(lower.status, 'update');
+});
+
+test('values beyond fullAt, negative or unconfigured signals are bounded', () => {
+  const maxed = computeScore(holder(SCORE_MIN, {
+    walletAge: 10_000,
+    transactionCount: 10_000,
+    farcasterAccount: 1,
+    farcasterFollowers: 1_000_000,
+    farcasterReputation: 1,
+    passportAge: 10_000
+  }));
+  assert.equal(maxed.targetScore, SCORE_MAX);
+  assert.equal(maxed.delta, SCORE_MAX - SCORE_MIN);
+
+  const empty = computeScore(holder(SCORE_MIN, { walletAge: -50, transactionCount: null }));
+  assert.equal(empty.targetScore, SCORE_MIN);
+  assert.equal(empty.delta, 0);
+  assert.equal(empty.status, 'unchanged');
+
+  // Heavier custom weights are still clamped onto the scale
+  const weights = createScoreWeights({ walletAge: { maxPoints: 5000 } });
+  assert.equal(computeScore(holder(SCORE_MIN, { walletAge: 730 }), weights).targetScore, SCORE_MAX);
+});
+
+test('deltas below minDelta are left unchanged', () => {
+  const current = SCORE_MIN + 125 - 3;
+  const breakdown = computeScore(holder(current, { walletAge: 365 }), DEFAULT_SCORE_WEIGHTS, 5);
+  assert.equal(breakdown.delta, 3);
+  assert.equal(breakdown.status, 'unchanged');
+
+  assert.equal(computeScore(holder(current, { walletAge: 365 }), DEFAULT_SCORE_WEIGHTS, 3).status, 'update');
+  // minDelta never drops below 1, so an equal score is never resubmitted
+  assert.equal(computeScore(holder(SCORE_MIN + 125, { walletAge: 365 }), DEFAULT_SCORE_WEIGHTS, 0).status, 'unchanged');
+});
+
+test('invalid weight overrides are rejected', () => {
+  assert.throws(() => createScoreWeights({ walletAge: { maxPoints: -1 } }), /non-negative/);
+  assert.throws(() => createScoreWeights({ walletAge: { fullAt: 0 } }), /fullAt must be positive/);
+  assert.throws(() => createScoreWeights({ karma: { maxPoints: 1 } } as any), /Unknown score signal/);
+});
@@ -0,0 +1,476 @@
+/**
+ * Off-chain trust score engine
+ *
+ * Derives a target score for each passport holder from weighted signals
+ * (wallet age, transaction count, Farcaster account, passport age) and pushes
+ * the difference to PoEP.updateScores in batches from an authorized score
+ * updater. Deltas are always computed against the current on-chain score, so
+ * a failed or partial run is corrected by the next one. Server only.
+ *
+ * Weights can be overridden per deployment with SCORE_WEIGHTS, a JSON object
+ * keyed by signal id:
+ *
+ *   {"transactionCount": {"maxPoints": 100, "fullAt": 200}}
+ */
+
+import { ethers } from 'ethers';
+import { POEP_CONTRACT_ABI } from './constants';
+import { getIndexedHolders, isIndexerReady } from './indexer';
+import { getIndexerStore } from './indexerStore';
+import { NETWORK } from './networks';
+import { invalidatePassports } from './passportCache';
+import { getPassportState } from './passportState';
+import { clampScore, SCORE_MIN } from './tierPolicy';
+import { getFirstTransaction, isBaseScanConfigured } from './walletActivity';
+
+const POEP_CONTRACT_ADDRESS = NETWORK.contracts.poep;
+
+const RPC_URL = NETWORK.rpcUrls[0];
+
+// Dedicated updater key; the deployer is authorized by the constructor
+const SCORE_UPDATER_PRIVATE_KEY = process.env.SCORE_UPDATER_PRIVATE_KEY || process.env.PRIVATE_KEY;
+
+const NEYNAR_API_KEY = process.env.NEYNAR_API_KEY;
+const NEYNAR_BULK_BY_ADDRESS_URL = 'https://api.neynar.com/v2/farcaster/user/bulk-by-address';
+const NEYNAR_ADDRESS_LIMIT = 350;
+
+// First block to scan for PassportMinted (POEP_DEPLOYMENT_BLOCK)
+const DEPLOYMENT_BLOCK = NETWORK.startBlock;
+
+const REQUEST_TIMEOUT = 8000;
+const RECEIPT_TIMEOUT = 120000;
+const SECONDS_PER_DAY = 86400;
+
+export const DEFAULT_BATCH_SIZE = 50;
+
+export type ScoreSignalId =
+  | 'walletAge'
+  | 'transactionCount'
+  | 'farcasterAccount'
+  | 'farcasterFollowers'
+  | 'farcasterReputation'
+  | 'passportAge';
+
+export interface SignalWeight {
+  // Points awarded once the signal reaches fullAt, linear below that
+  maxPoints: number;
+  fullAt: number;
+}
+
+export type ScoreWeights = Record<ScoreSignalId, SignalWeight>;
+
+// Up to SCORE_MAX - SCORE_MIN points in total, on top of the genesis score
+export const DEFAULT_SCORE_WEIGHTS: ScoreWeights = {
+  walletAge: { maxPoints: 250, fullAt: 730 }, // days since first transaction
+  transactionCount: { maxPoints: 250, fullAt: 500 }, // transactions sent
+  farcasterAccount: { maxPoints: 50, fullAt: 1 }, // 1 if a verified address links to an FID
+  farcasterFollowers: { maxPoints: 150, fullAt: 1000 },
+  farcasterReputation: { maxPoints: 100, fullAt: 1 }, // Neynar user score, 0-1
+  passportAge: { maxPoints: 199, fullAt: 365 } // days since mint
+};
+
+export const SCORE_SIGNAL_IDS = Object.keys(DEFAULT_SCORE_WEIGHTS) as ScoreSignalId[];
+
+export const SCORE_SIGNAL_LABELS: Record<ScoreSignalId, string> = {
+  walletAge: 'Wallet age',
+  transactionCount: 'Transactions',
+  farcasterAccount: 'Farcaster account',
+  farcasterFollowers: 'Farcaster followers',
+  farcasterReputation: 'Farcaster reputation',
+  passportAge: 'Passport age'
+};
+
+/**
+ * Raw signal values for one holder. A null value means the signal's source
+ * is not configured (e.g. no BASESCAN_API_KEY) and scores 0 for everyone.
+ */
+export interface HolderSignals {
+  address: string;
+  currentScore: number;
+  values: Record<ScoreSignalId, number | null>;
+}
+
+export interface SignalBreakdown {
+  id: ScoreSignalId;
+  value: number | null;
+  points: number;
+  maxPoints: number;
+}
+
+export interface ScoreBreakdown {
+  address: string;
+  // 'skipped' holders are not updated: no passport or a signal lookup failed
+  status: 'update' | 'unchanged' | 'skipped';
+  reason?: string;
+  currentScore: number;
+  targetScore: number;
+  delta: number;
+  signals: SignalBreakdown[];
+}
+
+export interface ScoreBatch {
+  users: string[];
+  deltas: number[];
+  // 'batch' uses updateScores; 'single' falls back to one updateScore per user
+  mode: 'batch' | 'single';
+  status: 'dry-run' | 'confirmed' | 'failed';
+  txHashes: string[];
+  gasUsed: string | null;
+  error?: string;
+}
+
+interface FarcasterSignals {
+  followers: number;
+  reputation: number;
+}
+
+/**
+ * Apply overrides to the default weights. Throws on negative points or a
+ * non-positive fullAt.
+ */
+export function createScoreWeights(
+  overrides: Partial<Record<ScoreSignalId, Partial<SignalWeight>>>,
+  base: ScoreWeights = DEFAULT_SCORE_WEIGHTS
+): ScoreWeights {
+  const weights = { ...base };
+
+  for (const [id, override] of Object.entries(overrides)) {
+    if (!(id in base)) {
+      throw new Error(`Unknown score signal: ${id}`);
+    }
+    const weight = { ...base[id as ScoreSignalId], ...override };
+    if (!Number.isFinite(weight.maxPoints) || weight.maxPoints < 0) {
+      throw new Error(`Signal ${id} maxPoints must be a non-negative number`);
+    }
+    if (!Number.isFinite(weight.fullAt) || weight.fullAt <= 0) {
+      throw new Error(`Signal ${id} fullAt must be positive`);
+    }
+    weights[id as ScoreSignalId] = weight;
+  }
+
+  return weights;
+}
+
+/**
+ * The deployment's weights (defaults plus SCORE_WEIGHTS). Unlike the tier
+ * policy a bad override throws - scoring with the wrong weights would write
+ * wrong scores on-chain.
+ */
+export function loadScoreWeights(): ScoreWeights {
+  const raw = process.env.SCORE_WEIGHTS;
+  return raw ? createScoreWeights(JSON.parse(raw)) : DEFAULT_SCORE_WEIGHTS;
+}
+
+let provider: ethers.JsonRpcProvider | null = null;
+
+function getProvider(): ethers.JsonRpcProvider {
+  if (!provider) {
+    provider = new ethers.JsonRpcProvider(RPC_URL, undefined, { staticNetwork: true });
+  }
+  return provider;
+}
+
+function getPoEPContract(runner: ethers.ContractRunner): ethers.Contract {
+  if (!POEP_CONTRACT_ADDRESS) {
+    throw new Error('Contract configuration missing');
+  }
+  return new ethers.Contract(POEP_CONTRACT_ADDRESS, POEP_CONTRACT_ABI, runner);
+}
+
+/**
+ * Every passport holder, from the indexer once it has synced, otherwise
+ * from PassportMinted logs. Burned passports are filtered out later, when
+ * their state is read.
+ */
+export async function getPassportHolders(): Promise<string[]> {
+  if (await isIndexerReady()) {
+    const holders = await getIndexedHolders();
+    return holders.map(passport => ethers.getAddress(passport.owner));
+  }
+
+  const poep = getPoEPContract(getProvider());
+  const events = await poep.queryFilter(poep.filters.PassportMinted(), DEPLOYMENT_BLOCK);
+
+  const holders = new Set<string>();
+  for (const event of events) {
+    if ('args' in event) holders.add(ethers.getAddress(event.args.user));
+  }
+  return [...holders];
+}
+
+/**
+ * Farcaster followers and Neynar reputation for each address with a
+ * verified FID. Addresses without one are missing from the map.
+ */
+async function getFarcasterSignals(addresses: string[]): Promise<Map<string, FarcasterSignals>> {
+  const signals = new Map<string, FarcasterSignals>();
+
+  for (let i = 0; i < addresses.length; i += NEYNAR_ADDRESS_LIMIT) {
+    const chunk = addresses.slice(i, i + NEYNAR_ADDRESS_LIMIT);
+    const response = await fetch(
+      `${NEYNAR_BULK_BY_ADDRESS_URL}?addresses=${chunk.join(',')}`,
+      {
+        headers: { 'x-api-key': NEYNAR_API_KEY!, accept: 'application/json' },
+        signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+      }
+    );
+
+    // Neynar answers 404 when none of the addresses has an account
+    if (response.status === 404) continue;
+    if (!response.ok) {
+      throw new Error(`Neynar lookup failed: HTTP ${response.status}`);
+    }
+
+    const data: Record<string, any[]> = await response.json();
+    for (const [address, users] of Object.entries(data)) {
+      if (!Array.isArray(users) || users.length === 0) continue;
+      // An address can be verified by more than one FID - count the strongest
+      signals.set(address.toLowerCase(), {
+        followers: Math.max(...users.map(user => Number(user.follower_count) || 0)),
+        reputation: Math.max(...users.map(user =>
+          Number(user.score ?? user.experimental?.neynar_user_score) || 0
+        ))
+      });
+    }
+  }
+
+  return signals;
+}
+
+/**
+ * Read every signal for the given addresses. Returns a skipped breakdown
+ * instead of signals for holders that cannot be scored this run.
+ */
+export async function collectSignals(
+  addresses: string[],
+  now: number = Math.floor(Date.now() / 1000)
+): Promise<(HolderSignals | ScoreBreakdown)[]> {
+  if (!POEP_CONTRACT_ADDRESS) {
+    throw new Error('Contract configuration missing');
+  }
+  const rpc = getProvider();
+
+  // Farcaster is looked up in bulk; a failure skips everyone rather than
+  // scoring them as if they had no account
+  let farcaster: Map<string, FarcasterSignals> | null = null;
+  if (NEYNAR_API_KEY) {
+    try {
+      farcaster = await getFarcasterSignals(addresses.map(address => address.toLowerCase()));
+    } catch (error: any) {
+      return addresses.map(address => skippedBreakdown(address, 0, error.message));
+    }
+  }
+
+  const results: (HolderSignals | ScoreBreakdown)[] = [];
+
+  // Sequential to stay inside BaseScan and public RPC rate limits
+  for (const address of addresses) {
+    try {
+      // Deltas are relative to the on-chain score, so skip the passport cache
+      const state = await getPassportState(BigInt(address), { fresh: true });
+      if (!state) {
+        results.push(skippedBreakdown(address, 0, 'No passport'));
+        continue;
+      }
+      if (state.mintedAt === null) {
+        results.push(skippedBreakdown(address, state.trustScore, 'Mint date unavailable'));
+        continue;
+      }
+
+      const [firstTx, txCount] = await Promise.all([
+        isBaseScanConfigured() ? getFirstTransaction(address) : Promise.resolve(undefined),
+        rpc.getTransactionCount(address, 'latest')
+      ]);
+
+      const account = farcaster?.get(address.toLowerCase());
+
+      results.push({
+        address,
+        currentScore: state.trustScore,
+        values: {
+          // undefined: BaseScan not configured; null: no transactions yet
+          walletAge: firstTx === undefined ? null : firstTx ? Math.max(now - firstTx.timestamp, 0) / SECONDS_PER_DAY : 0,
+          transactionCount: txCount,
+          farcasterAccount: farcaster ? (account ? 1 : 0) : null,
+          farcasterFollowers: farcaster ? (account?.followers ?? 0) : null,
+          farcasterReputation: farcaster ? (account?.reputation ?? 0) : null,
+          passportAge: Math.max(now - state.mintedAt, 0) / SECONDS_PER_DAY
+        }
+      });
+    } catch (error: any) {
+      results.push(skippedBreakdown(address, 0, `Signal lookup failed: ${error.message}`));
+    }
+  }
+
+  return results;
+}
+
+function skippedBreakdown(address: string, currentScore: number, reason: string): ScoreBreakdown {
+  return {
+    address,
+    status: 'skipped',
+    reason,
+    currentScore,
+    targetScore: currentScore,
+    delta: 0,
+    signals: []
+  };
+}
+
+/**
+ * Score one holder: genesis score plus each signal's points, clamped to the
+ * contract's scale. Deltas smaller than minDelta are left alone to save gas.
+ */
+export function computeScore(
+  holder: HolderSignals,
+  weights: ScoreWeights = DEFAULT_SCORE_WEIGHTS,
+  minDelta = 1
+): ScoreBreakdown {
+  const signals = SCORE_SIGNAL_IDS.map((id): SignalBreakdown => {
+    const { maxPoints, fullAt } = weights[id];
+    const value = holder.values[id];
+    const points = value === null ? 0 : Math.round(maxPoints * Math.min(Math.max(value, 0) / fullAt, 1));
+    return { id, value, points, maxPoints };
+  });
+
+  const targetScore = clampScore(SCORE_MIN + signals.reduce((sum, signal) => sum + signal.points, 0));
+  const delta = targetScore - holder.currentScore;
+
+  return {
+    address: holder.address,
+    status: Math.abs(delta) >= Math.max(minDelta, 1) ? 'update' : 'unchanged',
+    currentScore: holder.currentScore,
+    targetScore,
+    delta,
+    signals
+  };
+}
+
+/**
+ * Collect signals and score every address
+ */
+export async function computeScores(
+  addresses: string[],
+  options: { weights?: ScoreWeights; minDelta?: number } = {}
+): Promise<ScoreBreakdown[]> {
+  const weights = options.weights ?? loadScoreWeights();
+  const collected = await collectSignals(addresses);
+
+  return collected.map(entry =>
+    'values' in entry ? computeScore(entry, weights, options.minDelta) : entry
+  );
+}
+
+/**
+ * Keep the signal points behind a confirmed update for score history. A
+ * failure here does not fail the update - history just shows no reason.
+ */
+async function recordScoreSnapshots(transactionHash: string, updates: ScoreBreakdown[]): Promise<void> {
+  const recordedAt = Math.floor(Date.now() / 1000);
+  try {
+    await getIndexerStore().saveScoreSnapshots(updates.map(update => ({
+      user: update.address.toLowerCase(),
+      transactionHash,
+      points: Object.fromEntries(update.signals.map(signal => [signal.id, signal.points])),
+      recordedAt
+    })));
+  } catch (error: any) {
+    console.warn('[SCORE] Could not record score snapshots:', error.message);
+  }
+}
+
+/**
+ * Whether the deployed contract has updateScores. Older deployments only
+ * have the single-address updateScore.
+ */
+async function supportsBatchUpdates(poep: ethers.Contract): Promise<boolean> {
+  try {
+    await poep.updateScores.staticCall([], []);
+    return true;
+  } catch (error: any) {
+    // An unknown selector reverts without data; anything else is a real error
+    if (error.code === 'CALL_EXCEPTION' && (!error.data || error.data === '0x')) {
+      return false;
+    }
+    throw error;
+  }
+}
+
+/**
+ * Push every 'update' breakdown to the contract in batches of batchSize.
+ * In dry-run mode the batches are planned but nothing is signed or sent.
+ */
+export async function submitScoreUpdates(
+  breakdowns: ScoreBreakdown[],
+  options: { batchSize?: number; dryRun?: boolean } = {}
+): Promise<ScoreBatch[]> {
+  const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+  const updates = breakdowns.filter(breakdown => breakdown.status === 'update');
+  if (updates.length === 0) return [];
+
+  const chunks: ScoreBreakdown[][] = [];
+  for (let i = 0; i < updates.length; i += batchSize) {
+    chunks.push(updates.slice(i, i + batchSize));
+  }
+
+  if (options.dryRun) {
+    return chunks.map(chunk => ({
+      users: chunk.map(update => update.address),
+      deltas: chunk.map(update => update.delta),
+      mode: 'batch',
+      status: 'dry-run',
+      txHashes: [],
+      gasUsed: null
+    }));
+  }
+
+  if (!SCORE_UPDATER_PRIVATE_KEY) {
+    throw new Error('SCORE_UPDATER_PRIVATE_KEY (or PRIVATE_KEY) is required to submit score updates');
+  }
+
+  const wallet = new ethers.Wallet(SCORE_UPDATER_PRIVATE_KEY, getProvider());
+  const poep = getPoEPContract(wallet);
+
+  if (!(await poep.scoreUpdaters(wallet.address))) {
+    throw new Error(`${wallet.address} is not an authorized score updater - call PoEP.setScoreUpdater`);
+  }
+
+  const mode = (await supportsBatchUpdates(poep)) ? 'batch' : 'single';
+  const batches: ScoreBatch[] = [];
+
+  for (const chunk of chunks) {
+    const batch: ScoreBatch = {
+      users: chunk.map(update => update.address),
+      deltas: chunk.map(update => update.delta),
+      mode,
+      status: 'confirmed',
+      txHashes: [],
+      gasUsed: null
+    };
+
+    try {
+      let gasUsed = 0n;
+      const calls = mode === 'batch'
+        ? [{ updates: chunk, send: () => poep.updateScores(batch.users, batch.deltas) }]
+        : chunk.map(update => ({ updates: [update], send: () => poep.updateScore(update.address, update.delta) }));
+
+      for (const call of calls) {
+        const tx: ethers.ContractTransactionResponse = await call.send();
+        batch.txHashes.push(tx.hash);
+        const receipt = await tx.wait(1, RECEIPT_TIMEOUT);
+        gasUsed += receipt?.gasUsed ?? 0n;
+        await recordScoreSnapshots(tx.hash, call.updates);
+        await invalidatePassports(call.updates.map(update => update.address));
+      }
+      batch.gasUsed = gasUsed.toString();
+    } catch (error: any) {
+      // Later batches are independent; the next run recomputes these deltas
+      batch.status = 'failed';
+      batch.error = error.shortMessage || error.message;
+    }
+
+    batches.push(batch);
+  }
+
+  return batches;
+}
@@ -0,0 +1,103 @@
+/**
+ * Trust score history
+ *
+ * Builds a passport's score timeline from indexed ScoreUpdated events. Where
+ * the score engine recorded the signal points behind an update, the change
+ * gets a reason naming the signals that moved. Server only; the response
+ * types are shared with the UI.
+ */
+
+import { getIndexedPassport, getIndexerStatus, getScoreHistory } from './indexer';
+import { getIndexerStore } from './indexerStore';
+import { SCORE_SIGNAL_LABELS, type ScoreSignalId } from './scoreEngine';
+
+// More changes than the score engine can produce in years of daily runs
+const MAX_HISTORY_EVENTS = 1000;
+
+export interface ScoreChange {
+  oldScore: number;
+  newScore: number;
+  delta: number;
+  blockNumber: number;
+  // Unix seconds
+  timestamp: number;
+  transactionHash: string;
+  // e.g. "Farcaster followers +30, Wallet age +4"; null if not recorded
+  reason: string | null;
+}
+
+export interface ScoreHistory {
+  address: string;
+  tokenId: string;
+  trustScore: number;
+  mintedAt: number;
+  mintBlock: number;
+  // Oldest first, since the current passport was minted
+  changes: ScoreChange[];
+  // Last block the indexer has covered
+  indexedThrough: number | null;
+}
+
+function describeChange(points: Record<string, number>, previous: Record<string, number>): string {
+  const moved = Object.keys({ ...previous, ...points })
+    .map(id => ({ id, diff: (points[id] ?? 0) - (previous[id] ?? 0) }))
+    .filter(signal => signal.diff !== 0)
+    .sort((a, b) => Math.abs(b.diff) - Math.abs(a.diff));
+
+  if (moved.length === 0) {
+    // Same signals, different weights
+    return 'Score recomputed';
+  }
+  return moved
+    .map(signal => `${SCORE_SIGNAL_LABELS[signal.id as ScoreSignalId] ?? signal.id} ${signal.diff > 0 ? '+' : ''}${signal.diff}`)
+    .join(', ');
+}
+
+/**
+ * Score timeline of an address's passport, or null if the indexer has no
+ * passport for it
+ */
+export async function getScoreTimeline(address: string): Promise<ScoreHistory | null> {
+  const passport = await getIndexedPassport(address);
+  if (!passport || passport.burned) {
+    return null;
+  }
+
+  const [events, snapshots, status] = await Promise.all([
+    getScoreHistory(address, MAX_HISTORY_EVENTS),
+    getIndexerStore().getScoreSnapshots(address),
+    getIndexerStatus()
+  ]);
+  const snapshotsByTx = new Map(snapshots.map(snapshot => [snapshot.transactionHash, snapshot]));
+
+  // Reasons compare each engine update with the one before it; the genesis
+  // score has no signal points
+  let previousPoints: Record<string, number> = {};
+  const changes = events
+    .filter(event => event.blockNumber >= passport.mintBlock)
+    .map((event): ScoreChange => {
+      const snapshot = snapshotsByTx.get(event.transactionHash);
+      const reason = snapshot ? describeChange(snapshot.points, previousPoints) : null;
+      if (snapshot) previousPoints = snapshot.points;
+
+      return {
+        oldScore: event.oldScore,
+        newScore: event.newScore,
+        delta: event.newScore - event.oldScore,
+        blockNumber: event.blockNumber,
+        timestamp: event.timestamp,
+        transactionHash: event.transactionHash,
+        reason
+      };
+    });
+
+  return {
+    address,
+    tokenId: passport.tokenId,
+    trustScore: passport.trustScore,
+    mintedAt: passport.mintedAt,
+    mintBlock: passport.mintBlock,
+    changes,
+    indexedThrough: status.cursor
+  };
+}
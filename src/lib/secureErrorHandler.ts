@@ -4,6 +4,7 @@
  */
 
 import { NextResponse } from 'next/server';
+import { normalizeProof } from './proofCodec';
 
 export interface SecureError {
   code: string;
@@ -232,54 +233,17 @@ export class InputValidator {
   }
 
   /**
-   * Validate proof structure for ZK proofs
+   * Validate proof structure for ZK proofs. Accepts every form the proof
+   * codec decodes (snarkjs JSON, calldata with decimal or hex elements,
+   * compact string) and checks each element is a valid field element.
    */
   static validateProofStructure(proof: any): boolean {
-    if (!proof || typeof proof !== 'object') {
-      return false;
-    }
-
-    // Check required fields
-    const requiredFields = ['pA', 'pB', 'pC'];
-    for (const field of requiredFields) {
-      if (!proof[field] || !Array.isArray(proof[field])) {
-        return false;
-      }
-    }
-
-    // Validate array structures
-    if (proof.pA.length !== 2 || proof.pC.length !== 2) {
-      return false;
-    }
-
-    if (proof.pB.length !== 2 || !Array.isArray(proof.pB[0]) || !Array.isArray(proof.pB[1])) {
-      return false;
-    }
-
-    if (proof.pB[0].length !== 2 || proof.pB[1].length !== 2) {
+    try {
+      normalizeProof(proof);
+      return true;
+    } catch {
       return false;
     }
-
-    // Validate that all elements are strings (hex values)
-    const allElements = [
-      ...proof.pA,
-      ...proof.pB[0],
-      ...proof.pB[1],
-      ...proof.pC
-    ];
-
-    for (const element of allElements) {
-      if (typeof element !== 'string' || !/^0x[a-fA-F0-9]+$/.test(element)) {
-        return false;
-      }
-
-      // Reasonable length check
-      if (element.length > 100) {
-        return false;
-      }
-    }
-
-    return true;
   }
 }
 
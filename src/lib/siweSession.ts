@@ -0,0 +1,144 @@
+/**
+ * Sign-In with Ethereum sessions
+ *
+ * /api/auth/siwe hands out single-use nonces and, for a signed SIWE message,
+ * a session token that API routes accept as `Authorization: SIWE <token>`.
+ * Nonces and sessions live in Redis (Upstash, as in kv.ts) with an in-memory
+ * fallback for local runs. Sessions are stored under a hash of the token.
+ */
+
+import { Redis } from '@upstash/redis';
+import { createHash, randomBytes } from 'crypto';
+import { generateNonce } from 'siwe';
+import { APP_NAME } from './constants';
+
+export interface SiweSession {
+  address: `0x${string}`;
+  chainId: number;
+  // Unix milliseconds
+  expiresAt: number;
+}
+
+// Nonces only need to outlive the wallet prompt
+const NONCE_TTL_SECONDS = 10 * 60;
+export const SESSION_TTL_SECONDS = 24 * 60 * 60;
+
+// In-memory fallback storage. Kept on globalThis because next dev bundles each
+// route separately, and the sign-in route and guarded routes must share it.
+interface LocalSessions {
+  nonces: Map<string, number>;
+  sessions: Map<string, SiweSession>;
+}
+
+const globalSessions = globalThis as typeof globalThis & { poepSiweSessions?: LocalSessions };
+globalSessions.poepSiweSessions ??= {
+  nonces: new Map(),
+  sessions: new Map()
+};
+
+const localNonces = globalSessions.poepSiweSessions.nonces;
+const localSessions = globalSessions.poepSiweSessions.sessions;
+
+// Use Redis if KV env vars are present, otherwise use in-memory
+const useRedis = process.env.KV_REST_API_URL && process.env.KV_REST_API_TOKEN;
+const redis = useRedis
+  ? new Redis({
+      url: process.env.KV_REST_API_URL!,
+      token: process.env.KV_REST_API_TOKEN!,
+    })
+  : null;
+
+function getNonceKey(nonce: string): string {
+  return `${APP_NAME}:siwe-nonce:${nonce}`;
+}
+
+function getSessionKey(token: string): string {
+  const tokenHash = createHash('sha256').update(token).digest('hex');
+  return `${APP_NAME}:siwe-session:${tokenHash}`;
+}
+
+// Redis expires keys itself; the in-memory maps drop theirs whenever a new
+// entry is added, so unused nonces and sessions do not pile up
+function pruneLocal(now: number): void {
+  for (const [key, expiry] of localNonces.entries()) {
+    if (expiry <= now) localNonces.delete(key);
+  }
+  for (const [key, session] of localSessions.entries()) {
+    if (session.expiresAt <= now) localSessions.delete(key);
+  }
+}
+
+/**
+ * A fresh nonce for a SIWE message, valid for ten minutes
+ */
+export async function createSiweNonce(): Promise<string> {
+  const nonce = generateNonce();
+  const key = getNonceKey(nonce);
+  if (redis) {
+    await redis.set(key, 1, { ex: NONCE_TTL_SECONDS });
+  } else {
+    pruneLocal(Date.now());
+    localNonces.set(key, Date.now() + NONCE_TTL_SECONDS * 1000);
+  }
+  return nonce;
+}
+
+/**
+ * Use up a nonce. Returns false if it was never issued, expired or was
+ * already used.
+ */
+export async function consumeSiweNonce(nonce: string): Promise<boolean> {
+  const key = getNonceKey(nonce);
+  if (redis) {
+    return (await redis.del(key)) === 1;
+  }
+
+  const expiry = localNonces.get(key);
+  localNonces.delete(key);
+  return expiry !== undefined && expiry > Date.now();
+}
+
+/**
+ * Start a session for a verified address. Returns the token to send back.
+ */
+export async function createSiweSession(
+  address: `0x${string}`,
+  chainId: number
+): Promise<{ token: string; session: SiweSession }> {
+  const token = randomBytes(32).toString('hex');
+  const session: SiweSession = {
+    address,
+    chainId,
+    expiresAt: Date.now() + SESSION_TTL_SECONDS * 1000
+  };
+
+  const key = getSessionKey(token);
+  if (redis) {
+    await redis.set(key, session, { ex: SESSION_TTL_SECONDS });
+  } else {
+    pruneLocal(Date.now());
+    localSessions.set(key, session);
+  }
+  return { token, session };
+}
+
+/**
+ * The session for a token, or null if it is unknown or expired
+ */
+export async function getSiweSession(token: string): Promise<SiweSession | null> {
+  const key = getSessionKey(token);
+  const session = redis ? await redis.get<SiweSession>(key) : localSessions.get(key) ?? null;
+  if (!session || session.expiresAt <= Date.now()) {
+    return null;
+  }
+  return session;
+}
+
+export async function deleteSiweSession(token: string): Promise<void> {
+  const key = getSessionKey(token);
+  if (redis) {
+    await redis.del(key);
+  } else {
+    localSessions.delete(key);
+  }
+}
@@ -0,0 +1,63 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  clampScore,
+  createTierPolicy,
+  DEFAULT_TIER_POLICY,
+  getNextTier,
+  getRequiredScore,
+  getTierForScore,
+  SCORE_MAX,
+  SCORE_MIN
+} from './tierPolicy';
+
+test('overrides are applied on top of the base policy', () => {
+  const policy = createTierPolicy({ gold: { minScore: 500, name: 'Gilded' } });
+  assert.equal(policy.length, DEFAULT_TIER_POLICY.length);
+  assert.deepEqual(
+    policy.map(tier => tier.minScore),
+    [SCORE_MIN, 25, 50, 500]
+  );
+  assert.equal(policy[3].name, 'Gilded');
+  assert.equal(policy[3].badge, DEFAULT_TIER_POLICY[3].badge);
+});
+
+test('invalid thresholds are rejected', () => {
+  // First tier must start at the bottom of the scale
+  assert.throws(() => createTierPolicy({ standard: { minScore: 2 } }), /must start at 1/);
+  // Thresholds must strictly increase
+  assert.throws(() => createTierPolicy({ silver: { minScore: 25 } }), /must be above bronze/);
+  assert.throws(() => createTierPolicy({ gold: { minScore: 40 } }), /must be above silver/);
+  // and stay on the contract's scale as integers
+  assert.throws(() => createTierPolicy({ gold: { minScore: SCORE_MAX + 1 } }), /integer in \[1, 1000\]/);
+  assert.throws(() => createTierPolicy({ bronze: { minScore: 0 } }), /integer in \[1, 1000\]/);
+  assert.throws(() => createTierPolicy({ bronze: { minScore: 30.5 } }), /integer in \[1, 1000\]/);
+
+  assert.doesNotThrow(() => createTierPolicy({ gold: { minScore: SCORE_MAX } }));
+});
+
+test('scores map to the highest tier they reach', () => {
+  const tierAt = (score: number) => getTierForScore(score, DEFAULT_TIER_POLICY).id;
+  assert.equal(tierAt(1), 'standard');
+  assert.equal(tierAt(24), 'standard');
+  assert.equal(tierAt(25), 'bronze');
+  assert.equal(tierAt(99), 'silver');
+  assert.equal(tierAt(100), 'gold');
+  // Off-scale scores are clamped first
+  assert.equal(tierAt(0), 'standard');
+  assert.equal(tierAt(5000), 'gold');
+  assert.equal(tierAt(NaN), 'standard');
+
+  assert.equal(getNextTier(30, DEFAULT_TIER_POLICY)?.id, 'silver');
+  assert.equal(getNextTier(100, DEFAULT_TIER_POLICY), null);
+  assert.equal(clampScore(12.9), 12);
+});
+
+test('the stricter of tier and minimum score is required', () => {
+  assert.equal(getRequiredScore({}, DEFAULT_TIER_POLICY), SCORE_MIN);
+  assert.equal(getRequiredScore({ tier: 'silver' }, DEFAULT_TIER_POLICY), 50);
+  assert.equal(getRequiredScore({ minScore: 70 }, DEFAULT_TIER_POLICY), 70);
+  assert.equal(getRequiredScore({ tier: 'silver', minScore: 70 }, DEFAULT_TIER_POLICY), 70);
+  assert.equal(getRequiredScore({ tier: 'gold', minScore: 70 }, DEFAULT_TIER_POLICY), 100);
+  assert.throws(() => getRequiredScore({ tier: 'platinum' as any }, DEFAULT_TIER_POLICY), /Unknown tier/);
+});
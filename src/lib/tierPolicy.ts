@@ -0,0 +1,181 @@
+/**
+ * PoEP tier and score-scale policy
+ *
+ * Single source of truth for what a trust score means: the score scale (fixed
+ * by PoEP.sol) and the tiers it is divided into, with their names, colors,
+ * badge assets and descriptions. Metadata, artwork, OG images and the UI all
+ * read tiers from here so a passport shows the same tier everywhere.
+ *
+ * Thresholds, names and descriptions can be overridden per deployment with
+ * NEXT_PUBLIC_TIER_POLICY, a JSON object keyed by tier id:
+ *
+ *   {"silver": {"minScore": 200}, "gold": {"minScore": 500, "name": "Elite"}}
+ */
+
+// Mirrors PoEP.sol: mint sets the genesis score, updateScore clamps to MAX_SCORE
+export const SCORE_MIN = 1;
+export const SCORE_MAX = 1000;
+
+export type TierId = 'standard' | 'bronze' | 'silver' | 'gold';
+
+export interface TierDefinition {
+  id: TierId;
+  name: string;
+  // Lowest score in the tier; a tier ends where the next one starts
+  minScore: number;
+  description: string;
+  // Badge asset under /public
+  badge: string;
+  // Accent color for text, frames and badges
+  color: string;
+  // Light fill behind tier artwork
+  background: string;
+}
+
+export type TierPolicy = readonly TierDefinition[];
+
+export type TierOverrides = Partial<Record<TierId, Partial<Pick<TierDefinition, 'name' | 'minScore' | 'description'>>>>;
+
+export const DEFAULT_TIER_POLICY: TierPolicy = [
+  {
+    id: 'standard',
+    name: 'Standard',
+    minScore: SCORE_MIN,
+    description: 'Verified unique human, just getting started on Base',
+    badge: '/images/poep-standard.svg',
+    color: '#6366f1',
+    background: '#eef2ff'
+  },
+  {
+    id: 'bronze',
+    name: 'Bronze',
+    minScore: 25,
+    description: 'Regular onchain activity is building this passport\'s trust',
+    badge: '/images/poep-bronze.svg',
+    color: '#cd7f32',
+    background: '#fdecdc'
+  },
+  {
+    id: 'silver',
+    name: 'Silver',
+    minScore: 50,
+    description: 'Established onchain history with consistent activity',
+    badge: '/images/poep-silver.svg',
+    color: '#9ca3af',
+    background: '#f3f4f6'
+  },
+  {
+    id: 'gold',
+    name: 'Gold',
+    minScore: 100,
+    description: 'Long-standing, highly trusted onchain identity',
+    badge: '/images/poep-gold.svg',
+    color: '#eab308',
+    background: '#fef3c7'
+  }
+];
+
+/**
+ * Apply overrides to a policy. Throws if the result is not a valid policy:
+ * the first tier must start at SCORE_MIN and thresholds must strictly increase
+ * within the score scale.
+ */
+export function createTierPolicy(
+  overrides: TierOverrides,
+  base: TierPolicy = DEFAULT_TIER_POLICY
+): TierPolicy {
+  const policy = base.map(tier => ({ ...tier, ...overrides[tier.id] }));
+
+  policy.forEach((tier, index) => {
+    if (!Number.isInteger(tier.minScore) || tier.minScore < SCORE_MIN || tier.minScore > SCORE_MAX) {
+      throw new Error(`Tier ${tier.id} minScore must be an integer in [${SCORE_MIN}, ${SCORE_MAX}]`);
+    }
+    if (index === 0 && tier.minScore !== SCORE_MIN) {
+      throw new Error(`Tier ${tier.id} must start at ${SCORE_MIN}`);
+    }
+    if (index > 0 && tier.minScore <= policy[index - 1].minScore) {
+      throw new Error(`Tier ${tier.id} minScore must be above ${policy[index - 1].id}`);
+    }
+  });
+
+  return policy;
+}
+
+function loadTierPolicy(): TierPolicy {
+  const raw = process.env.NEXT_PUBLIC_TIER_POLICY;
+  if (!raw) return DEFAULT_TIER_POLICY;
+
+  try {
+    return createTierPolicy(JSON.parse(raw) as TierOverrides);
+  } catch (error: any) {
+    // A bad override must not take metadata or the UI down
+    console.warn(`Warning: ignoring NEXT_PUBLIC_TIER_POLICY: ${error.message}`);
+    return DEFAULT_TIER_POLICY;
+  }
+}
+
+let activePolicy: TierPolicy | null = null;
+
+/**
+ * The deployment's tier policy (defaults plus NEXT_PUBLIC_TIER_POLICY)
+ */
+export function getTierPolicy(): TierPolicy {
+  if (!activePolicy) {
+    activePolicy = loadTierPolicy();
+  }
+  return activePolicy;
+}
+
+/**
+ * Clamp a score onto the contract's scale
+ */
+export function clampScore(score: number): number {
+  if (!Number.isFinite(score)) return SCORE_MIN;
+  return Math.min(SCORE_MAX, Math.max(SCORE_MIN, Math.floor(score)));
+}
+
+export function getTierForScore(score: number, policy: TierPolicy = getTierPolicy()): TierDefinition {
+  const clamped = clampScore(score);
+  let current = policy[0];
+  for (const tier of policy) {
+    if (clamped >= tier.minScore) current = tier;
+  }
+  return current;
+}
+
+/**
+ * The tier after the score's current one, or null at the top tier
+ */
+export function getNextTier(score: number, policy: TierPolicy = getTierPolicy()): TierDefinition | null {
+  const clamped = clampScore(score);
+  return policy.find(tier => tier.minScore > clamped) ?? null;
+}
+
+/**
+ * Lowest score that passes a passport requirement given as a tier, a minimum
+ * score or both; the stricter one wins. Throws for an unknown tier id.
+ */
+export function getRequiredScore(
+  requirement: { minScore?: number; tier?: TierId },
+  policy: TierPolicy = getTierPolicy()
+): number {
+  let required = SCORE_MIN;
+  if (requirement.tier) {
+    const tier = policy.find(candidate => candidate.id === requirement.tier);
+    if (!tier) {
+      throw new Error(`Unknown tier "${requirement.tier}"`);
+    }
+    required = tier.minScore;
+  }
+  if (requirement.minScore !== undefined) {
+    required = Math.max(required, requirement.minScore);
+  }
+  return required;
+}
+
+/**
+ * Score with its scale, e.g. "42/1000"
+ */
+export function formatScore(score: number): string {
+  return `${score}/${SCORE_MAX}`;
+}
@@ -0,0 +1,73 @@
+/**
+ * Wallet activity lookups on Base
+ *
+ * First transaction via the BaseScan API of the selected network, shared by
+ * /api/get-first-tx and the score engine's wallet age signal. Server only.
+ */
+
+import { NETWORK } from './networks';
+
+// Null on networks without an explorer, such as a local Hardhat node
+const BASESCAN_API_URL = NETWORK.explorer?.apiUrl ?? null;
+const BASESCAN_API_KEY = process.env.BASESCAN_API_KEY;
+
+const REQUEST_TIMEOUT = 8000;
+
+export interface FirstTransaction {
+  hash: string;
+  // Unix seconds
+  timestamp: number;
+}
+
+/**
+ * BaseScan answered, but with an error (rate limit, bad key, ...)
+ */
+export class BaseScanError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'BaseScanError';
+  }
+}
+
+export function isBaseScanConfigured(): boolean {
+  return !!BASESCAN_API_KEY && !!BASESCAN_API_URL;
+}
+
+/**
+ * The address's first transaction, or null if it has none.
+ * Throws BaseScanError if BaseScan is not configured or rejects the query.
+ */
+export async function getFirstTransaction(address: string): Promise<FirstTransaction | null> {
+  if (!BASESCAN_API_KEY) {
+    throw new BaseScanError('BASESCAN_API_KEY is not set');
+  }
+  if (!BASESCAN_API_URL) {
+    throw new BaseScanError(`BaseScan is not available on ${NETWORK.name}`);
+  }
+
+  const params = new URLSearchParams({
+    module: 'account',
+    action: 'txlist',
+    address,
+    startblock: '0',
+    endblock: '99999999',
+    page: '1',
+    offset: '1',
+    sort: 'asc',
+    apikey: BASESCAN_API_KEY
+  });
+
+  const response = await fetch(`${BASESCAN_API_URL}?${params}`, {
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT)
+  });
+  const data = await response.json();
+
+  if (data.status === '1' && Array.isArray(data.result) && data.result.length > 0) {
+    const firstTx = data.result[0];
+    return { hash: firstTx.hash, timestamp: Number(firstTx.timeStamp) };
+  }
+  if (data.message === 'No transactions found') {
+    return null;
+  }
+  throw new BaseScanError(typeof data.result === 'string' ? data.result : data.message || 'BaseScan query failed');
+}
@@ -0,0 +1,99 @@
+/**
+ * Route guard for API routes that require a PoEP passport
+ *
+ * Wraps a route handler: authenticates the caller (see auth.ts), reads their
+ * passport through the passport cache and only then runs the handler, with the
+ * passport on `context.poep`. Failures answer with createSecureErrorResponse:
+ *
+ *   401 AUTHENTICATION_REQUIRED   no or invalid credentials
+ *   403 PASSPORT_REQUIRED         the caller's address holds no passport
+ *   403 TRUST_SCORE_TOO_LOW       the passport is below the requirement
+ *   503 NETWORK_ERROR             Farcaster or the chain could not be reached
+ *
+ *   export const GET = withPoEP(async (request, { poep }) => ..., { tier: 'silver' });
+ */
+
+import type { NextRequest } from 'next/server';
+import { authenticateRequest, type AuthenticatedCaller } from './auth';
+import { getTrustScore } from './contract';
+import { readThroughPassport } from './passportCache';
+import { createSecureErrorResponse, NetworkError, SecurityError } from './secureErrorHandler';
+import { formatScore, getRequiredScore, type TierId } from './tierPolicy';
+
+export interface PoEPContext {
+  address: `0x${string}`;
+  // The address as a decimal number, like every PoEP token id
+  tokenId: string;
+  trustScore: number;
+  auth: Pick<AuthenticatedCaller, 'method' | 'fid'>;
+}
+
+export interface WithPoEPOptions {
+  // Lowest trust score that passes; combined with tier, the stricter wins
+  minScore?: number;
+  tier?: TierId;
+}
+
+type RouteContext<Params> = { params: Promise<Params> };
+
+type PoEPRouteHandler<Params> = (
+  request: NextRequest,
+  context: RouteContext<Params> & { poep: PoEPContext }
+) => Response | Promise<Response>;
+
+async function requirePassport(request: NextRequest, requiredScore: number): Promise<PoEPContext> {
+  const caller = await authenticateRequest(request);
+
+  let trustScore: number;
+  try {
+    // 0 without a passport; scores never drop below 1. Access checks read the
+    // chain, since a burn only leaves the cache once the indexer sees it.
+    ({ trustScore } = await readThroughPassport(caller.address, async () => {
+      const score = await getTrustScore(caller.address);
+      return { hasPassport: score > 0, trustScore: score };
+    }, { fresh: true }));
+  } catch (_error) {
+    throw new NetworkError('Blockchain service temporarily unavailable');
+  }
+
+  if (trustScore === 0) {
+    throw new SecurityError('A PoEP passport is required', 'PASSPORT_REQUIRED', 403);
+  }
+  if (trustScore < requiredScore) {
+    throw new SecurityError(
+      `A trust score of ${formatScore(requiredScore)} is required`,
+      'TRUST_SCORE_TOO_LOW',
+      403
+    );
+  }
+
+  return {
+    address: caller.address,
+    tokenId: BigInt(caller.address).toString(),
+    trustScore,
+    auth: { method: caller.method, fid: caller.fid }
+  };
+}
+
+/**
+ * Require a live PoEP passport, and optionally a minimum score or tier, from
+ * the caller of a route handler
+ */
+export function withPoEP<Params = Record<string, string>>(
+  handler: PoEPRouteHandler<Params>,
+  options: WithPoEPOptions = {}
+) {
+  // Resolved up front so an unknown tier fails when the route module loads
+  const requiredScore = getRequiredScore(options);
+
+  return async (request: NextRequest, context: RouteContext<Params>): Promise<Response> => {
+    let poep: PoEPContext;
+    try {
+      poep = await requirePassport(request, requiredScore);
+    } catch (error) {
+      return createSecureErrorResponse(error as Error);
+    }
+
+    return handler(request, { ...context, poep });
+  };
+}
@@ -2,24 +2,30 @@
  * ZK-SNARK Proof Generation for PoEP - Enterprise Security Version
  *
  * This module handles:
- * 1. Cryptographically secure face hash generation from biometric data
- * 2. ZK proof generation with circuit parameter validation
+ * 1. Stable face secret derivation from biometric data (via the fuzzy extractor)
+ * 2. Circuit input validation and proof result checks (proving runs in prover.ts)
  * 3. Secure proof verification utilities
  * 4. Production-ready error handling and security measures
  */
 
-declare global {
-  interface Window {
-    snarkjs: any;
-  }
-}
+import { extractStableSecret, SECRET_BITS, type StableFaceSecret } from './fuzzyExtractor';
+import { normalizeProof, type Groth16Proof } from './proofCodec';
 
+// The face secret itself never leaves the prover; the proof only reveals its
+// nullifier
 export interface ZKProofResult {
-  proof: any;
+  proof: Groth16Proof;
+  // [nullifier, recipient, chainId]
   publicSignals: string[];
   nullifier: string;
-  faceHash: string;
-  nonce: string;
+  // Fuzzy extractor helper the secret was derived with, saved once the mint confirms
+  faceHelper?: string;
+}
+
+export interface CircuitInputs {
+  faceSecret: string;
+  recipient: string;
+  chainId: string;
 }
 
 export interface FaceFeatures {
@@ -33,110 +39,112 @@ const MAX_IMAGE_SIZE = 10 * 1024 * 1024; // 10MB limit
 const SECURE_WIDTH = 512;
 const SECURE_HEIGHT = 512;
 const HASH_TRUNCATE_BYTES = 31; // For BN254 field compatibility
-const ZK_PROOF_TIMEOUT = 30000; // 30 seconds
+export const ZK_PROOF_TIMEOUT = 30000; // 30 seconds
 
 /**
  * Extract face features from image data using cryptographically secure biometric analysis
- * This implements a deterministic face feature extraction pipeline with enterprise-grade security
+ * This implements a deterministic face feature extraction pipeline with enterprise-grade security.
+ * There is no fallback: a frame that cannot be analysed must not yield a secret.
  */
 export async function extractFaceFeatures(imageData: string): Promise<FaceFeatures> {
   try {
-    // Validate input data
-    if (!imageData || typeof imageData !== 'string') {
-      throw new Error('Invalid image data provided');
-    }
-
-    // Sanitize and validate data URL format
-    let processedImageData = imageData;
-    if (!imageData.startsWith('data:image/')) {
-      // If it's base64 data without data URL prefix, add it
-      processedImageData = `data:image/jpeg;base64,${imageData}`;
+    const pixels = await decodeFaceImage(imageData);
+    return await extractFeaturesFromPixels(pixels);
+  } catch (error) {
+    if (process.env.NODE_ENV === 'development') {
+      console.error('Face feature extraction error:', error);
     }
+    throw new Error('Biometric analysis failed - please ensure image quality and try again');
+  }
+}
 
-    // Security check: ensure image size constraints
-    const base64Data = processedImageData.split(',')[1];
-    if (base64Data.length > MAX_IMAGE_SIZE) {
-      throw new Error('Image size exceeds security limits');
-    }
+/**
+ * Decode a captured frame into SECURE_WIDTH x SECURE_HEIGHT RGBA pixels.
+ * Uses OffscreenCanvas when available so it also runs inside the prover worker.
+ */
+export async function decodeFaceImage(imageData: string): Promise<Uint8ClampedArray> {
+  // Validate input data
+  if (!imageData || typeof imageData !== 'string') {
+    throw new Error('Invalid image data provided');
+  }
 
-    // Convert base64 image to ImageBitmap for processing
-    const response = await fetch(processedImageData);
-    const blob = await response.blob();
+  // Sanitize and validate data URL format
+  let processedImageData = imageData;
+  if (!imageData.startsWith('data:image/')) {
+    // If it's base64 data without data URL prefix, add it
+    processedImageData = `data:image/jpeg;base64,${imageData}`;
+  }
 
-    // Security validation
-    if (blob.size > MAX_IMAGE_SIZE) {
-      throw new Error('Image blob size exceeds security limits');
-    }
+  // Security check: ensure image size constraints
+  const base64Data = processedImageData.split(',')[1];
+  if (base64Data.length > MAX_IMAGE_SIZE) {
+    throw new Error('Image size exceeds security limits');
+  }
 
-    const imageBitmap = await createImageBitmap(blob);
+  // Convert base64 image to ImageBitmap for processing
+  const response = await fetch(processedImageData);
+  const blob = await response.blob();
 
-    // Create canvas for secure image processing
-    const canvas = document.createElement('canvas');
-    const ctx = canvas.getContext('2d', { willReadFrequently: true });
-    if (!ctx) throw new Error('Canvas context not available');
+  // Security validation
+  if (blob.size > MAX_IMAGE_SIZE) {
+    throw new Error('Image blob size exceeds security limits');
+  }
 
-    // Set secure, consistent dimensions
-    canvas.width = SECURE_WIDTH;
-    canvas.height = SECURE_HEIGHT;
+  const imageBitmap = await createImageBitmap(blob);
 
-    // Clear canvas with white background for consistency
-    ctx.fillStyle = '#FFFFFF';
-    ctx.fillRect(0, 0, SECURE_WIDTH, SECURE_HEIGHT);
+  // Create canvas for secure image processing
+  const canvas = typeof OffscreenCanvas !== 'undefined'
+    ? new OffscreenCanvas(SECURE_WIDTH, SECURE_HEIGHT)
+    : Object.assign(document.createElement('canvas'), { width: SECURE_WIDTH, height: SECURE_HEIGHT });
+  const ctx = canvas.getContext('2d', { willReadFrequently: true }) as
+    CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null;
+  if (!ctx) throw new Error('Canvas context not available');
 
-    // Draw image to canvas with aspect ratio preservation
-    const scale = Math.min(SECURE_WIDTH / imageBitmap.width, SECURE_HEIGHT / imageBitmap.height);
-    const drawWidth = imageBitmap.width * scale;
-    const drawHeight = imageBitmap.height * scale;
-    const offsetX = (SECURE_WIDTH - drawWidth) / 2;
-    const offsetY = (SECURE_HEIGHT - drawHeight) / 2;
+  // Clear canvas with white background for consistency
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, SECURE_WIDTH, SECURE_HEIGHT);
 
-    ctx.drawImage(imageBitmap, offsetX, offsetY, drawWidth, drawHeight);
+  // Draw image to canvas with aspect ratio preservation
+  const scale = Math.min(SECURE_WIDTH / imageBitmap.width, SECURE_HEIGHT / imageBitmap.height);
+  const drawWidth = imageBitmap.width * scale;
+  const drawHeight = imageBitmap.height * scale;
+  const offsetX = (SECURE_WIDTH - drawWidth) / 2;
+  const offsetY = (SECURE_HEIGHT - drawHeight) / 2;
 
-    // Get image pixel data
-    const imageDataObj = ctx.getImageData(0, 0, SECURE_WIDTH, SECURE_HEIGHT);
-    const pixels = imageDataObj.data;
+  ctx.drawImage(imageBitmap, offsetX, offsetY, drawWidth, drawHeight);
+  imageBitmap.close();
 
-    // Extract cryptographically secure biometric features
-    const features = await extractSecureBiometricFeatures(pixels, SECURE_WIDTH, SECURE_HEIGHT);
+  // Get image pixel data
+  return ctx.getImageData(0, 0, SECURE_WIDTH, SECURE_HEIGHT).data;
+}
 
-    // Generate secure facial landmarks using multiple algorithms
-    const landmarks = extractSecureFacialLandmarks(pixels, SECURE_WIDTH, SECURE_HEIGHT);
+/**
+ * Extract face features from decoded SECURE_WIDTH x SECURE_HEIGHT pixels
+ */
+export async function extractFeaturesFromPixels(pixels: Uint8ClampedArray): Promise<FaceFeatures> {
+  // Extract cryptographically secure biometric features
+  const features = await extractSecureBiometricFeatures(pixels, SECURE_WIDTH, SECURE_HEIGHT);
 
-    // Create secure face embedding using cryptographic techniques
-    const embedding = generateSecureFaceEmbedding(features, landmarks);
+  // Generate secure facial landmarks using multiple algorithms
+  const landmarks = extractSecureFacialLandmarks(pixels, SECURE_WIDTH, SECURE_HEIGHT);
 
-    // Create cryptographically secure hash from biometric data
-    const biometricData = await createSecureBiometricFingerprint(features, landmarks, pixels);
+  // Create secure face embedding using cryptographic techniques
+  const embedding = generateSecureFaceEmbedding(features, landmarks);
 
-    const hashBuffer = await crypto.subtle.digest('SHA-512', biometricData);
-    const hashArray = Array.from(new Uint8Array(hashBuffer));
+  // Create cryptographically secure hash from biometric data
+  const biometricData = await createSecureBiometricFingerprint(features, landmarks, pixels);
 
-    // Use the first 31 bytes for BN254 field compatibility (< 2^248)
-    const hash = BigInt('0x' + hashArray.slice(0, HASH_TRUNCATE_BYTES).map(b => b.toString(16).padStart(2, '0')).join(''));
+  const hashBuffer = await crypto.subtle.digest('SHA-512', biometricData);
+  const hashArray = Array.from(new Uint8Array(hashBuffer));
 
-    return {
-      landmarks,
-      embedding,
-      hash: hash.toString()
-    };
-  } catch (error) {
-    // Enhanced error handling for debugging
-    if (process.env.NODE_ENV === 'development') {
-      console.error('Face feature extraction error:', error);
-      console.error('Stack trace:', (error as Error).stack);
-    }
+  // Use the first 31 bytes for BN254 field compatibility (< 2^248)
+  const hash = BigInt('0x' + hashArray.slice(0, HASH_TRUNCATE_BYTES).map(b => b.toString(16).padStart(2, '0')).join(''));
 
-    // Try simplified fallback approach
-    try {
-      console.log('Attempting simplified face hash generation...');
-      return await extractSimpleFaceFeatures(imageData);
-    } catch (_fallbackError) {
-      if (process.env.NODE_ENV === 'development') {
-        console.error('Fallback extraction also failed:', _fallbackError);
-      }
-      throw new Error('Biometric analysis failed - please ensure image quality and try again');
-    }
-  }
+  return {
+    landmarks,
+    embedding,
+    hash: hash.toString()
+  };
 }
 
 /**
@@ -373,184 +381,135 @@ function generateSecureFaceEmbedding(features: number[], landmarks: number[]): n
 }
 
 /**
- * Validate ZK circuit parameters and integrity
+ * Validate and encode the circuit inputs for a proof bound to recipient and chain
  */
-async function validateCircuitIntegrity(wasmPath: string, zkeyPath: string): Promise<boolean> {
-  try {
-    // Just check if files are accessible - skip size validation as it's unreliable with Next.js
-    const wasmResponse = await fetch(wasmPath, { method: 'HEAD' });
-    const zkeyResponse = await fetch(zkeyPath, { method: 'HEAD' });
+export function buildCircuitInputs(
+  faceSecret: string,
+  recipient: string,
+  chainId: number
+): CircuitInputs {
+  // Input validation
+  if (!faceSecret || typeof faceSecret !== 'string') {
+    throw new Error('Invalid face secret provided');
+  }
 
-    if (!wasmResponse.ok || !zkeyResponse.ok) {
-      throw new Error(`Circuit files not accessible - WASM: ${wasmResponse.status}, ZKEY: ${zkeyResponse.status}`);
-    }
+  // Validate faceSecret is a valid number string within the circuit range
+  let faceSecretBigInt: bigint;
+  try {
+    faceSecretBigInt = BigInt(faceSecret);
+  } catch {
+    throw new Error('Face secret must be a valid numeric string');
+  }
 
-    return true;
-  } catch (error) {
-    console.error('Circuit integrity validation failed:', error);
-    return false;
+  if (faceSecretBigInt <= 0n || faceSecretBigInt >= (1n << BigInt(SECRET_BITS))) {
+    throw new Error('Face secret is outside the circuit range');
   }
-}
 
-/**
- * Generate ZK-SNARK proof with enhanced security validation
- */
-export async function generateZKProof(faceHash: string): Promise<ZKProofResult> {
-  // Input validation
-  if (!faceHash || typeof faceHash !== 'string') {
-    throw new Error('Invalid face hash provided');
+  // The proof is bound to the recipient wallet and chain (see facehash.circom)
+  if (!recipient || !/^0x[a-fA-F0-9]{40}$/.test(recipient)) {
+    throw new Error('Invalid recipient address provided');
   }
 
-  // Validate faceHash is a valid number string
-  try {
-    BigInt(faceHash);
-  } catch {
-    throw new Error('Face hash must be a valid numeric string');
+  if (!Number.isSafeInteger(chainId) || chainId <= 0) {
+    throw new Error('Invalid chain id provided');
   }
 
-  // Always use real ZK proof generation - no mocks in production-ready app
-  return await generateRealZKProof(faceHash);
+  // The nullifier is derived only from the stable face secret, so the same
+  // person always produces the same nullifier (see facehash.circom).
+  // Recipient and chain id are public inputs that PoEP.mint checks against
+  // msg.sender and block.chainid.
+  return {
+    faceSecret: faceSecretBigInt.toString(),
+    recipient: BigInt(recipient).toString(),
+    chainId: chainId.toString()
+  };
 }
 
 /**
- * Generate real ZK-SNARK proof using circuits
+ * Validate a snarkjs proof and its public signals against the inputs it was
+ * generated for, and package it as a ZKProofResult
  */
-async function generateRealZKProof(faceHash: string): Promise<ZKProofResult> {
-  try {
-    // Generate cryptographically secure nonce
-    const nonceArray = crypto.getRandomValues(new Uint32Array(8));
-    const nonce = Array.from(nonceArray).map(n => n.toString(16)).join('');
-
-    // Circuit uses Num2Bits(254), so inputs must be < 2^254
-    const maxBits254 = BigInt('28948022309329048855892746252171976963363056481941560715954676764349967630336'); // 2^254
-
-    let faceHashBigInt = BigInt(faceHash);
-    let nonceBigInt = BigInt('0x' + nonce.slice(0, 62));
-
-    // Reduce to 254-bit range if necessary (for circuit compatibility)
-    if (faceHashBigInt >= maxBits254) {
-      faceHashBigInt = faceHashBigInt % maxBits254;
-    }
-    if (nonceBigInt >= maxBits254) {
-      nonceBigInt = nonceBigInt % maxBits254;
-    }
-
-    // Ensure positive values
-    if (faceHashBigInt <= 0n) {
-      faceHashBigInt = BigInt(Math.floor(Math.random() * 1000000) + 1000);
-    }
-    if (nonceBigInt <= 0n) {
-      nonceBigInt = BigInt(Math.floor(Math.random() * 1000000) + 1000);
-    }
-
-    // Prepare circuit inputs - using 3 inputs as required (faceHash, nonce, timestamp)
-    const timestamp = BigInt(Date.now());
-    const inputs = {
-      faceHash: faceHashBigInt.toString(),
-      nonce: nonceBigInt.toString(),
-      timestamp: timestamp.toString()
-    };
-
-
-    // First, try the real ZK proof generation
-    try {
-      // Check if snarkjs is available
-      if (typeof window === 'undefined' || !window.snarkjs) {
-        let retries = 0;
-        while (!window?.snarkjs && retries < 50) {
-          await new Promise(resolve => setTimeout(resolve, 100));
-          retries++;
-        }
-
-        if (!window?.snarkjs) {
-          throw new Error('ZK proof library not available');
-        }
-      }
-
-      const snarkjs = window.snarkjs;
-
-      // Circuit paths with validation
-      const wasmPath = '/circuit.wasm';
-      const zkeyPath = '/circuit_final.zkey';
-
-      // Validate circuit integrity
-      const isIntegrityValid = await validateCircuitIntegrity(wasmPath, zkeyPath);
-      if (!isIntegrityValid) {
-        throw new Error('Circuit integrity validation failed');
-      }
-
-      // Generate proof with timeout protection
-      const proofPromise = snarkjs.groth16.fullProve(inputs, wasmPath, zkeyPath);
-      const timeoutPromise = new Promise((_, reject) => {
-        setTimeout(() => reject(new Error('ZK proof generation timed out')), ZK_PROOF_TIMEOUT);
-      });
-
-      const result = await Promise.race([proofPromise, timeoutPromise]);
-
-      if (!result || !result.proof || !result.publicSignals) {
-        throw new Error('Invalid proof generation result');
-      }
+export function toZKProofResult(
+  result: { proof: any; publicSignals: string[] } | null | undefined,
+  inputs: CircuitInputs
+): ZKProofResult {
+  if (!result || !result.proof || !result.publicSignals) {
+    throw new Error('Invalid proof generation result');
+  }
 
-      const proof = result.proof;
-      const publicSignals = result.publicSignals;
+  const { publicSignals } = result;
 
+  // Validate proof structure and canonicalize it (see proofCodec.ts)
+  let proof: Groth16Proof;
+  try {
+    proof = normalizeProof(result.proof);
+  } catch {
+    throw new Error('Malformed proof structure');
+  }
 
-      // Validate proof structure
-      if (!proof.pi_a || !proof.pi_b || !proof.pi_c) {
-        throw new Error('Malformed proof structure');
-      }
+  // Validate public signals: [nullifier, recipient, chainId]
+  if (!Array.isArray(publicSignals) || publicSignals.length !== 3) {
+    throw new Error('Invalid public signals');
+  }
 
-      // Validate public signals
-      if (!Array.isArray(publicSignals) || publicSignals.length === 0) {
-        throw new Error('Invalid public signals');
-      }
+  if (publicSignals[1] !== inputs.recipient || publicSignals[2] !== inputs.chainId) {
+    throw new Error('Proof is not bound to the requested recipient');
+  }
 
-      const nullifier = publicSignals[0];
+  const nullifier = publicSignals[0];
 
-      // Validate nullifier
-      if (!nullifier || typeof nullifier !== 'string') {
-        throw new Error('Invalid nullifier generated');
-      }
+  // Validate nullifier
+  if (!nullifier || typeof nullifier !== 'string') {
+    throw new Error('Invalid nullifier generated');
+  }
 
-      return {
-        proof,
-        publicSignals,
-        nullifier,
-        faceHash,
-        nonce: nonce.slice(0, 32) // Return truncated nonce for security
-      };
-
-    } catch (zkError: any) {
-      // Re-throw the ZK error without fallback to mock
-      throw zkError;
-    }
+  return { proof, publicSignals, nullifier };
+}
 
-  } catch (error: any) {
-    // Detailed error handling for debugging
-    const errorMessage = error.message || 'Unknown error';
+/**
+ * Map low-level proving failures to user-facing errors
+ */
+export function classifyProofError(error: any): Error {
+  // Detailed error handling for debugging
+  const errorMessage = error?.message || 'Unknown error';
 
-    if (process.env.NODE_ENV === 'development') {
-      console.error('ZK proof generation error:', errorMessage);
-    }
+  if (process.env.NODE_ENV === 'development') {
+    console.error('ZK proof generation error:', errorMessage);
+  }
 
-    // Re-throw with specific error classification
-    if (errorMessage.includes('timeout')) {
-      throw new Error('ZK proof generation timed out');
-    }
+  // Re-throw with specific error classification
+  if (errorMessage.includes('timeout')) {
+    return new Error('ZK proof generation timed out');
+  }
 
-    if (errorMessage.includes('witness') || errorMessage.includes('input')) {
-      throw new Error('Invalid biometric data - please retake photo');
-    }
+  if (errorMessage.includes('witness') || errorMessage.includes('input')) {
+    return new Error('Invalid biometric data - please retake photo');
+  }
 
-    if (errorMessage.includes('circuit') || errorMessage.includes('wasm')) {
-      throw new Error('Circuit validation failed');
-    }
+  if (errorMessage.includes('manifest')) {
+    return new Error('Circuit integrity check failed - please reload the app');
+  }
 
-    throw new Error('ZK proof generation failed');
+  if (errorMessage.includes('circuit') || errorMessage.includes('wasm')) {
+    return new Error('Circuit validation failed');
   }
-}
 
+  return new Error('ZK proof generation failed');
+}
 
+/**
+ * Generate ZK-SNARK proof with enhanced security validation
+ */
+export async function generateZKProof(
+  faceSecret: string,
+  recipient: string,
+  chainId: number
+): Promise<ZKProofResult> {
+  // Always use real ZK proof generation - no mocks in production-ready app.
+  // prover.ts loads the hash-checked artifacts and the imported snarkjs.
+  const { proveFaceSecret } = await import('./prover');
+  return await proveFaceSecret(faceSecret, recipient, chainId);
+}
 
 /**
  * Verify a ZK proof with enhanced validation
@@ -560,6 +519,8 @@ export async function verifyZKProof(
   publicSignals: string[],
   verificationKey: any
 ): Promise<boolean> {
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
   try {
     // Input validation
     if (!proof || !publicSignals || !verificationKey) {
@@ -575,38 +536,40 @@ export async function verifyZKProof(
       return false;
     }
 
-    if (typeof window === 'undefined' || !window.snarkjs) {
-      throw new Error('ZK verification library not available');
-    }
-
-    const snarkjs = window.snarkjs;
+    // The snarkjs prover.ts imports, loaded on demand like the prover
+    const snarkjs = await import('snarkjs');
 
     // Add timeout for verification
     const verifyPromise = snarkjs.groth16.verify(verificationKey, publicSignals, proof);
-    const timeoutPromise = new Promise((_, reject) => {
-      setTimeout(() => reject(new Error('Verification timeout')), 10000);
+    const timeoutPromise = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error('Verification timeout')), 10000);
     });
 
     const isValid = await Promise.race([verifyPromise, timeoutPromise]);
     return Boolean(isValid);
   } catch (_error) {
     return false;
+  } finally {
+    clearTimeout(timer);
   }
 }
 
 /**
- * Convert image data to face hash for ZK circuit input
+ * Convert a burst of captures of the same face to the stable secret used as ZK
+ * circuit input, reproduced from one of `helpers` when it matches the face
  */
-export async function generateFaceHash(imageData: string): Promise<string> {
-  try {
+export async function generateFaceSecret(captures: string[], helpers: string[] = []): Promise<StableFaceSecret> {
+  if (!Array.isArray(captures) || captures.length === 0) {
+    throw new Error('No face captures provided');
+  }
+
+  const embeddings: number[][] = [];
+  for (const imageData of captures) {
     const features = await extractFaceFeatures(imageData);
-    return features.hash;
-  } catch (error) {
-    if (process.env.NODE_ENV === 'development') {
-      console.log('Face hash generation completed');
-    }
-    throw error;
+    embeddings.push(features.embedding);
   }
+
+  return extractStableSecret(embeddings, helpers);
 }
 
 // Helper functions (implementation details)
@@ -1320,66 +1283,4 @@ function extractSpectralFeatures(gray: Uint8Array, width: number, height: number
   features.push(rowVariance / (255 * 255), colVariance / (255 * 255));
 
   return features;
-}
-
-/**
- * Simplified fallback face feature extraction for development/testing
- */
-async function extractSimpleFaceFeatures(imageData: string): Promise<FaceFeatures> {
-  console.log('Using simplified face feature extraction...');
-
-  // Basic validation
-  if (!imageData || typeof imageData !== 'string') {
-    throw new Error('Invalid image data provided');
-  }
-
-  // Extract base64 data without using fetch (to avoid CSP issues)
-  let base64Data: string;
-  if (imageData.startsWith('data:')) {
-    base64Data = imageData.split(',')[1];
-  } else {
-    base64Data = imageData;
-  }
-
-  // Convert base64 to bytes directly
-  const binaryString = atob(base64Data);
-  const uint8Array = new Uint8Array(binaryString.length);
-  for (let i = 0; i < binaryString.length; i++) {
-    uint8Array[i] = binaryString.charCodeAt(i);
-  }
-
-  // Create a simple but deterministic hash from image bytes
-  let hash = BigInt(0);
-  const prime = BigInt(31);
-
-  // Use every 100th byte to create hash (to avoid processing too much data)
-  for (let i = 0; i < uint8Array.length; i += 100) {
-    hash = (hash * prime + BigInt(uint8Array[i])) % BigInt('21888242871839275222246405745257275088548364400416034343698204186575808495617');
-  }
-
-  // Ensure positive hash
-  if (hash <= 0n) {
-    hash = BigInt(Math.floor(Math.random() * 1000000) + 1000);
-  }
-
-  // Simple landmarks (just some basic image properties)
-  const landmarks = [
-    uint8Array.length % 255,
-    (uint8Array[0] || 0) / 255,
-    (uint8Array[Math.floor(uint8Array.length / 2)] || 0) / 255,
-    (uint8Array[uint8Array.length - 1] || 0) / 255
-  ];
-
-  // Simple embedding
-  const embedding = [];
-  for (let i = 0; i < 64; i++) {
-    const idx = Math.floor((i / 64) * uint8Array.length);
-    embedding.push((uint8Array[idx] || 0) / 255);
-  }
-
-  return {
-    landmarks,
-    embedding,
-    hash: hash.toString()
-  };
 }
\ No newline at end of file
@@ -0,0 +1,169 @@
+/**
+ * Typed ABIs for the PoEP contracts
+ *
+ * The part of PoEP.sol and PoEPVerifier.sol a reader needs, declared `as const`
+ * so viem infers argument and return types.
+ */
+
+export const poepAbi = [
+  {
+    type: 'function',
+    name: 'balanceOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'ownerOf',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'address' }]
+  },
+  {
+    type: 'function',
+    name: 'tokenURI',
+    stateMutability: 'view',
+    inputs: [{ name: 'tokenId', type: 'uint256' }],
+    outputs: [{ name: '', type: 'string' }]
+  },
+  {
+    type: 'function',
+    name: 'viewTrustScore',
+    stateMutability: 'view',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: 'score', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'getTrustScore',
+    stateMutability: 'payable',
+    inputs: [{ name: 'user', type: 'address' }],
+    outputs: [{ name: 'score', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'nullifiers',
+    stateMutability: 'view',
+    inputs: [{ name: '', type: 'uint256' }],
+    outputs: [{ name: '', type: 'bool' }]
+  },
+  {
+    type: 'function',
+    name: 'nonces',
+    stateMutability: 'view',
+    inputs: [{ name: 'owner', type: 'address' }],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'paused',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'bool' }]
+  },
+  {
+    type: 'function',
+    name: 'zkVerifier',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'address' }]
+  },
+  {
+    type: 'function',
+    name: 'MAX_SCORE',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'QUERY_FEE',
+    stateMutability: 'view',
+    inputs: [],
+    outputs: [{ name: '', type: 'uint256' }]
+  },
+  {
+    type: 'function',
+    name: 'mint',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: '_pA', type: 'uint256[2]' },
+      { name: '_pB', type: 'uint256[2][2]' },
+      { name: '_pC', type: 'uint256[2]' },
+      { name: '_nullifier', type: 'uint256' }
+    ],
+    outputs: []
+  },
+  {
+    type: 'function',
+    name: 'mintFor',
+    stateMutability: 'nonpayable',
+    inputs: [
+      { name: 'recipient', type: 'address' },
+      { name: '_pA', type: 'uint256[2]' },
+      { name: '_pB', type: 'uint256[2][2]' },
+      { name: '_pC', type: 'uint256[2]' },
+      { name: '_nullifier', type: 'uint256' },
+      { name: 'deadline', type: 'uint256' },
+      { name: 'signature', type: 'bytes' }
+    ],
+    outputs: []
+  },
+  {
+    type: 'event',
+    name: 'PassportMinted',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'tokenId', type: 'uint256', indexed: true },
+      { name: 'nullifier', type: 'uint256', indexed: false }
+    ]
+  },
+  {
+    type: 'event',
+    name: 'ScoreUpdated',
+    inputs: [
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'oldScore', type: 'uint256', indexed: false },
+      { name: 'newScore', type: 'uint256', indexed: false }
+    ]
+  },
+  {
+    type: 'event',
+    name: 'QueryFeePaid',
+    inputs: [
+      { name: 'app', type: 'address', indexed: true },
+      { name: 'user', type: 'address', indexed: true },
+      { name: 'fee', type: 'uint256', indexed: false }
+    ]
+  },
+  {
+    type: 'event',
+    name: 'Transfer',
+    inputs: [
+      { name: 'from', type: 'address', indexed: true },
+      { name: 'to', type: 'address', indexed: true },
+      { name: 'tokenId', type: 'uint256', indexed: true }
+    ]
+  },
+  {
+    type: 'error',
+    name: 'EnforcedPause',
+    inputs: []
+  }
+] as const;
+
+export const poepVerifierAbi = [
+  {
+    type: 'function',
+    name: 'verifyProof',
+    stateMutability: 'view',
+    inputs: [
+      { name: '_pA', type: 'uint256[2]' },
+      { name: '_pB', type: 'uint256[2][2]' },
+      { name: '_pC', type: 'uint256[2]' },
+      { name: '_pubSignals', type: 'uint256[3]' }
+    ],
+    outputs: [{ name: '', type: 'bool' }]
+  }
+] as const;
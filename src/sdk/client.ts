@@ -0,0 +1,301 @@
+/**
+ * PoEPClient - read passports, trust scores and proofs over viem
+ *
+ * Works in the browser and in Node. Reads go through a viem PublicClient,
+ * either one the caller already has or one created for the network's RPC.
+ */
+
+import {
+  createPublicClient,
+  getAddress,
+  http,
+  type Address,
+  type Hash,
+  type PublicClient
+} from 'viem';
+import { toSolidityProof } from '../lib/proofCodec.js';
+import {
+  DEFAULT_TIER_POLICY,
+  getTierForScore,
+  type TierDefinition,
+  type TierId,
+  type TierPolicy
+} from '../lib/tierPolicy.js';
+import { poepAbi, poepVerifierAbi } from './abi.js';
+import {
+  POEP_NETWORKS,
+  type PoEPDeploymentRecord,
+  type PoEPNetwork,
+  type PoEPNetworkId
+} from './networks.js';
+
+export interface PoEPClientOptions {
+  // Preset id or a custom network; defaults to Base mainnet
+  network?: PoEPNetworkId | PoEPNetwork;
+  // Existing client for the network's chain; otherwise one is created
+  publicClient?: PublicClient;
+  // Overrides the network's RPC endpoint when no publicClient is given
+  rpcUrl?: string;
+  // deployments/<chainId>.json for the network's chain; supplies the PoEP address
+  deployment?: PoEPDeploymentRecord;
+  // PoEP address; takes precedence over `deployment`
+  address?: Address;
+  // Defaults to the verifier PoEP was deployed with
+  verifierAddress?: Address;
+  // Tier thresholds used by getPassport and meetsTier
+  tierPolicy?: TierPolicy;
+}
+
+export interface Passport {
+  owner: Address;
+  // PoEP token ids are the owner's address as a number
+  tokenId: bigint;
+  trustScore: number;
+  tier: TierDefinition;
+  tokenURI: string;
+}
+
+export interface ProofSignals {
+  nullifier: bigint | string;
+  recipient: Address;
+  // Defaults to the client's chain
+  chainId?: number;
+}
+
+export interface PassportMintedEvent {
+  user: Address;
+  tokenId: bigint;
+  nullifier: bigint;
+  transactionHash: Hash;
+  blockNumber: bigint;
+}
+
+export interface ScoreUpdatedEvent {
+  user: Address;
+  oldScore: number;
+  newScore: number;
+  transactionHash: Hash;
+  blockNumber: bigint;
+}
+
+export interface WatchOptions {
+  // Only events for this address
+  user?: Address;
+  onError?: (error: Error) => void;
+}
+
+/**
+ * Misconfigured client: unknown network, missing address or tier
+ */
+export class PoEPClientError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PoEPClientError';
+  }
+}
+
+export class PoEPClient {
+  readonly network: PoEPNetwork;
+  readonly address: Address;
+  readonly publicClient: PublicClient;
+  readonly tierPolicy: TierPolicy;
+  private verifierAddress: Address | null;
+
+  constructor(options: PoEPClientOptions = {}) {
+    const network = typeof options.network === 'object'
+      ? options.network
+      : POEP_NETWORKS[options.network ?? 'baseMainnet'];
+    if (!network) {
+      throw new PoEPClientError(`Unknown network "${options.network}" - expected one of ${Object.keys(POEP_NETWORKS).join(', ')}`);
+    }
+
+    if (options.deployment && options.deployment.chainId !== network.chain.id) {
+      throw new PoEPClientError(
+        `Deployment record is for chain ${options.deployment.chainId}, but ${network.name} is chain ${network.chain.id}`
+      );
+    }
+
+    const address = options.address ?? options.deployment?.contracts.poep?.address ?? network.contracts.poep;
+    if (!address) {
+      throw new PoEPClientError(`No PoEP address for ${network.name} - pass \`deployment\` or \`address\``);
+    }
+
+    this.network = network;
+    this.address = getAddress(address);
+    this.verifierAddress = options.verifierAddress ?? null;
+    this.tierPolicy = options.tierPolicy ?? DEFAULT_TIER_POLICY;
+    this.publicClient = options.publicClient ?? (createPublicClient({
+      chain: network.chain,
+      transport: http(options.rpcUrl ?? network.rpcUrl)
+    }) as unknown as PublicClient);
+  }
+
+  async hasPassport(user: Address): Promise<boolean> {
+    // viem's call parameters make authorizationList required when
+    // strictNullChecks is off, as it is in this repo; every read passes it
+    const balance = await this.publicClient.readContract({
+      address: this.address,
+      authorizationList: undefined,
+      abi: poepAbi,
+      functionName: 'balanceOf',
+      args: [user]
+    });
+    return balance > 0n;
+  }
+
+  /**
+   * The user's trust score, 0 without a passport. Uses the free view, so no
+   * query fee is charged.
+   */
+  async getTrustScore(user: Address): Promise<number> {
+    const score = await this.publicClient.readContract({
+      address: this.address,
+      authorizationList: undefined,
+      abi: poepAbi,
+      functionName: 'viewTrustScore',
+      args: [user]
+    });
+    return Number(score);
+  }
+
+  /**
+   * The user's passport, or null if they have none
+   */
+  async getPassport(user: Address): Promise<Passport | null> {
+    // Scores never drop below 1, so 0 means no passport
+    const trustScore = await this.getTrustScore(user);
+    if (trustScore === 0) {
+      return null;
+    }
+
+    const owner = getAddress(user);
+    const tokenId = BigInt(owner);
+    const tokenURI = await this.publicClient.readContract({
+      address: this.address,
+      authorizationList: undefined,
+      abi: poepAbi,
+      functionName: 'tokenURI',
+      args: [tokenId]
+    });
+
+    return {
+      owner,
+      tokenId,
+      trustScore,
+      tier: getTierForScore(trustScore, this.tierPolicy),
+      tokenURI
+    };
+  }
+
+  /**
+   * Whether the user holds a passport at or above a tier, given by id or as
+   * a minimum score
+   */
+  async meetsTier(user: Address, tier: TierId | number): Promise<boolean> {
+    let minScore: number;
+    if (typeof tier === 'number') {
+      minScore = tier;
+    } else {
+      const definition = this.tierPolicy.find(candidate => candidate.id === tier);
+      if (!definition) {
+        throw new PoEPClientError(`Unknown tier "${tier}"`);
+      }
+      minScore = definition.minScore;
+    }
+
+    const score = await this.getTrustScore(user);
+    return score > 0 && score >= minScore;
+  }
+
+  /**
+   * Check a Groth16 proof against the deployed PoEPVerifier. Accepts the
+   * snarkjs, calldata or compact forms; throws ProofCodecError if the proof
+   * is malformed. This does not check whether the nullifier was already used.
+   */
+  async verifyProof(proof: unknown, signals: ProofSignals): Promise<boolean> {
+    const { pA, pB, pC } = toSolidityProof(proof);
+    const publicSignals: readonly [bigint, bigint, bigint] = [
+      BigInt(signals.nullifier),
+      BigInt(getAddress(signals.recipient)),
+      BigInt(signals.chainId ?? this.network.chain.id)
+    ];
+
+    const verifier = await this.getVerifierAddress();
+    return await this.publicClient.readContract({
+      address: verifier,
+      authorizationList: undefined,
+      abi: poepVerifierAbi,
+      functionName: 'verifyProof',
+      args: [pA, pB, pC, publicSignals]
+    });
+  }
+
+  /**
+   * Call onMinted for every new passport. Returns a function that stops
+   * watching.
+   */
+  watchPassportMinted(
+    onMinted: (event: PassportMintedEvent) => void,
+    options: WatchOptions = {}
+  ): () => void {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi: poepAbi,
+      eventName: 'PassportMinted',
+      args: options.user ? { user: options.user } : undefined,
+      onError: options.onError,
+      onLogs: logs => {
+        for (const log of logs) {
+          onMinted({
+            user: log.args.user!,
+            tokenId: log.args.tokenId!,
+            nullifier: log.args.nullifier!,
+            transactionHash: log.transactionHash,
+            blockNumber: log.blockNumber
+          });
+        }
+      }
+    });
+  }
+
+  /**
+   * Call onUpdated for every score change. Returns a function that stops
+   * watching.
+   */
+  watchScoreUpdated(
+    onUpdated: (event: ScoreUpdatedEvent) => void,
+    options: WatchOptions = {}
+  ): () => void {
+    return this.publicClient.watchContractEvent({
+      address: this.address,
+      abi: poepAbi,
+      eventName: 'ScoreUpdated',
+      args: options.user ? { user: options.user } : undefined,
+      onError: options.onError,
+      onLogs: logs => {
+        for (const log of logs) {
+          onUpdated({
+            user: log.args.user!,
+            oldScore: Number(log.args.oldScore),
+            newScore: Number(log.args.newScore),
+            transactionHash: log.transactionHash,
+            blockNumber: log.blockNumber
+          });
+        }
+      }
+    });
+  }
+
+  // PoEP.zkVerifier, read once, unless the options name a verifier
+  private async getVerifierAddress(): Promise<Address> {
+    if (!this.verifierAddress) {
+      this.verifierAddress = await this.publicClient.readContract({
+        address: this.address,
+        authorizationList: undefined,
+        abi: poepAbi,
+        functionName: 'zkVerifier'
+      });
+    }
+    return this.verifierAddress;
+  }
+}
@@ -0,0 +1,44 @@
+/**
+ * PoEP SDK
+ *
+ * Public entry of the package: read passports and trust scores, check proofs
+ * and watch contract events without the app's code or configuration.
+ *
+ *   import { PoEPClient } from 'peop-mini';
+ *   const poep = new PoEPClient({ network: 'baseMainnet' });
+ *   if (await poep.meetsTier(address, 'silver')) { ... }
+ */
+
+export {
+  PoEPClient,
+  PoEPClientError,
+  type Passport,
+  type PassportMintedEvent,
+  type PoEPClientOptions,
+  type ProofSignals,
+  type ScoreUpdatedEvent,
+  type WatchOptions
+} from './client.js';
+export { poepAbi, poepVerifierAbi } from './abi.js';
+export {
+  POEP_NETWORKS,
+  type PoEPDeploymentRecord,
+  type PoEPNetwork,
+  type PoEPNetworkId
+} from './networks.js';
+export {
+  DEFAULT_TIER_POLICY,
+  SCORE_MAX,
+  SCORE_MIN,
+  getTierForScore,
+  type TierDefinition,
+  type TierId,
+  type TierPolicy
+} from '../lib/tierPolicy.js';
+export {
+  ProofCodecError,
+  toSolidityProof,
+  type CalldataProof,
+  type Groth16Proof,
+  type SolidityProof
+} from '../lib/proofCodec.js';
@@ -0,0 +1,64 @@
+/**
+ * Network presets for PoEPClient
+ *
+ * Chains PoEP is deployed on, with a public RPC endpoint. Contract addresses
+ * are not baked in - they change with every redeploy - so PoEPClient takes
+ * them from the deployment record (deployments/<chainId>.json, written by
+ * scripts/deployments.js) or an explicit `address`. The app's own registry
+ * (src/lib/networks.ts) reads the same records.
+ */
+
+import type { Address, Chain } from 'viem';
+import { base, baseSepolia, hardhat } from 'viem/chains';
+
+export type PoEPNetworkId = 'baseMainnet' | 'baseSepolia' | 'localhost';
+
+export interface PoEPNetwork {
+  id: PoEPNetworkId;
+  name: string;
+  chain: Chain;
+  rpcUrl: string;
+  // Empty for the presets; custom networks may set it. The verifier is read
+  // from PoEP itself.
+  contracts: {
+    poep?: Address;
+  };
+  explorerUrl: string | null;
+}
+
+/**
+ * The part of a deployments/<chainId>.json record the SDK reads
+ */
+export interface PoEPDeploymentRecord {
+  chainId: number;
+  contracts: {
+    poep?: { address: Address };
+  };
+}
+
+export const POEP_NETWORKS: Record<PoEPNetworkId, PoEPNetwork> = {
+  baseMainnet: {
+    id: 'baseMainnet',
+    name: 'Base',
+    chain: base,
+    rpcUrl: 'https://mainnet.base.org',
+    contracts: {},
+    explorerUrl: 'https://basescan.org'
+  },
+  baseSepolia: {
+    id: 'baseSepolia',
+    name: 'Base Sepolia',
+    chain: baseSepolia,
+    rpcUrl: 'https://sepolia.base.org',
+    contracts: {},
+    explorerUrl: 'https://sepolia.basescan.org'
+  },
+  localhost: {
+    id: 'localhost',
+    name: 'Hardhat',
+    chain: hardhat,
+    rpcUrl: 'http://127.0.0.1:8545',
+    contracts: {},
+    explorerUrl: null
+  }
+};